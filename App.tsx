@@ -1,8 +1,16 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { LayoutDashboard, Table2, History, Trophy, Crown, ArrowUpRight, Key, Loader2, AlertCircle, Settings, Link as LinkIcon, CheckCircle2, Gavel, UserPlus, Swords, ChevronRight, Copy, ExternalLink, Save, RotateCcw, ListFilter, CheckSquare, Database, RefreshCw, PlusCircle, ArrowRight, Terminal, Wrench } from 'lucide-react';
-import { fetchYahooData, fetchUserLeagues, LogType } from './services/yahooService';
-import { initFirebase, saveLeagueToFirebase, fetchLeagueFromFirebase, fetchLeagueList, FirebaseConfig } from './services/firebaseService';
-import { LeagueData, ViewState, LeagueSummary } from './types';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { LayoutDashboard, Table2, History, Trophy, Crown, ArrowUpRight, Key, Loader2, AlertCircle, Settings, Link as LinkIcon, CheckCircle2, Gavel, UserPlus, Swords, ChevronRight, Copy, ExternalLink, Save, RotateCcw, ListFilter, CheckSquare, Database, RefreshCw, PlusCircle, ArrowRight, Terminal, Wrench, Skull, ArrowRightLeft, UserCog, FileUp, Scale } from 'lucide-react';
+import { fetchLeagueRosters, fetchUserLeagues, fetchLeagueLineage, groupLeagueLineages, setYahooSession, getYahooSession, configureRequestScheduler, LogType, SyncProgress } from './services/yahooService';
+import { getSchedulerConfig, SchedulerConfig } from './services/requestScheduler';
+import { loadSyncCheckpoint, saveSyncCheckpoint, clearSyncCheckpoint } from './services/syncCheckpoint';
+import { getTransportMode, startRecording, startReplay, stopTransport, getRecording, parseFixtureBundle } from './services/yahooTransport';
+import { takeCompletedSession } from './services/yahooAuth';
+import { LEAGUE_PROVIDERS, ProviderCredentials, fetchLeagueHistory, providerForKey } from './services/leagueProvider';
+import { initFirebase, saveLeagueToFirebase, saveSeasonRosters, clearLeagueRosters, fetchLeagueFromFirebase, fetchLeagueList, fetchManagerAliases, saveManagerAliases, fetchLeagueOverrides, saveLeagueOverrides, FirebaseConfig } from './services/firebaseService';
+import { LeagueData, ViewState, LeagueSummary, YahooSession, SeasonRosters, CoManagerAttribution, ManagerAliasMap, ProviderId, LeagueOverride, OverrideAuditEntry } from './types';
+import { applyCoManagerAttribution, hasCoManagers } from './services/coManagers';
+import { applyManagerAliases } from './services/managerAliases';
+import { applyLeagueOverrides } from './services/leagueOverrides';
 import { HistoryChart } from './components/HistoryChart';
 import { StandingsTable } from './components/StandingsTable';
 import { LeagueOracle } from './components/LeagueOracle';
@@ -10,7 +18,15 @@ import { LeagueRecords } from './components/LeagueRecords';
 import { Versus } from './components/Versus';
 import { DraftHistory } from './components/DraftHistory';
 import { AdvancedStats } from './components/AdvancedStats';
+import { ConsolationBracket } from './components/ConsolationBracket';
+import { TransactionLog } from './components/TransactionLog';
 import { TokenHelper } from './components/TokenHelper';
+import { ProxySettings } from './components/ProxySettings';
+import { ManagerAdmin } from './components/ManagerAdmin';
+import { ManualImport } from './components/ManualImport';
+import { CommissionerEditor } from './components/CommissionerEditor';
+import { SyncReview, WriteMode } from './components/SyncReview';
+import { mergeLeagueData, MergePreview } from './services/leagueMerge';
 
 // --- SUB COMPONENTS ---
 
@@ -20,18 +36,57 @@ interface LogEntry {
   timestamp: number;
 }
 
+type SyncStep = 'TOKEN' | 'SELECT' | 'FETCHING' | 'REVIEW';
+
+// A fetched sync waiting for the user to confirm how it's written
+interface PendingSync {
+  leagueId: string;
+  leagueName: string;
+  incoming: LeagueData;
+  merged: LeagueData;
+  preview: MergePreview;
+  rosters: Record<string, SeasonRosters>; // New roster snapshots by season key
+}
+
+const formatDuration = (ms: number) => {
+  const totalSeconds = Math.round(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  return minutes > 0 ? `${minutes}m ${totalSeconds % 60}s` : `${totalSeconds}s`;
+};
+
 interface SyncModalProps {
   loading: boolean;
   logs: LogEntry[];
   error: string | null;
-  syncStep: 'TOKEN' | 'SELECT' | 'FETCHING';
+  syncStep: SyncStep;
+  provider: ProviderId;
+  setProvider: (provider: ProviderId) => void;
+  credentials: Partial<Record<ProviderId, ProviderCredentials>>;
+  updateCredentials: (provider: ProviderId, patch: ProviderCredentials) => void;
   yahooToken: string;
   setYahooToken: (token: string) => void;
+  onSessionGenerated: (session: YahooSession) => void;
   discoveryLeagues: LeagueSummary[];
   leaguesToSync: string[];
   setLeaguesToSync: React.Dispatch<React.SetStateAction<string[]>>;
-  handleTokenSubmit: () => void;
+  fullRefresh: boolean;
+  setFullRefresh: (value: boolean) => void;
+  includeRosters: boolean;
+  setIncludeRosters: (value: boolean) => void;
+  handleTokenSubmit: (token?: string) => void;
+  discoverLeagues: () => void;
+  addPlatform: () => void;
   executeSync: () => void;
+  cancelSync: () => void;
+  progress: SyncProgress | null;
+  recording: boolean;
+  setRecording: (value: boolean) => void;
+  onReplayFile: (file: File) => void;
+  onDownloadFixtures: () => void;
+  pendingSync: PendingSync | null;
+  writeMode: WriteMode;
+  setWriteMode: (mode: WriteMode) => void;
+  commitSync: () => void;
   onClose: () => void;
 }
 
@@ -40,17 +95,58 @@ const SyncModal: React.FC<SyncModalProps> = ({
   logs,
   error,
   syncStep,
+  provider,
+  setProvider,
+  credentials,
+  updateCredentials,
   yahooToken,
   setYahooToken,
+  onSessionGenerated,
   discoveryLeagues,
   leaguesToSync,
   setLeaguesToSync,
+  fullRefresh,
+  setFullRefresh,
+  includeRosters,
+  setIncludeRosters,
   handleTokenSubmit,
+  discoverLeagues,
+  addPlatform,
   executeSync,
+  cancelSync,
+  progress,
+  recording,
+  setRecording,
+  onReplayFile,
+  onDownloadFixtures,
+  pendingSync,
+  writeMode,
+  setWriteMode,
+  commitSync,
   onClose
 }) => {
   const logsEndRef = useRef<HTMLDivElement>(null);
   const [showInternalGenerator, setShowInternalGenerator] = useState(false);
+  const lineages = useMemo(() => groupLeagueLineages(discoveryLeagues), [discoveryLeagues]);
+  const [requestBudget, setRequestBudget] = useState<SchedulerConfig>(getSchedulerConfig);
+  const checkpoint = useMemo(() => syncStep === 'SELECT' ? loadSyncCheckpoint(leaguesToSync) : null, [syncStep, leaguesToSync]);
+  const providerCredentials = credentials[provider] || {};
+  const canDiscover = provider === 'yahoo' ? !!yahooToken : provider === 'sleeper' ? !!providerCredentials.username : !!providerCredentials.leagueId;
+
+  const updateRequestBudget = (patch: Partial<SchedulerConfig>) => {
+    const next = { ...requestBudget, ...patch };
+    setRequestBudget(next);
+    configureRequestScheduler(next);
+  };
+
+  const toggleLeague = (key: string) => {
+    setLeaguesToSync(prev => prev.includes(key) ? prev.filter(k => k !== key) : [...prev, key]);
+  };
+
+  const toggleLineage = (keys: string[]) => {
+    const allSelected = keys.every(k => leaguesToSync.includes(k));
+    setLeaguesToSync(prev => allSelected ? prev.filter(k => !keys.includes(k)) : [...prev, ...keys.filter(k => !prev.includes(k))]);
+  };
 
   useEffect(() => {
     logsEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -62,8 +158,8 @@ const SyncModal: React.FC<SyncModalProps> = ({
              <div className="bg-slate-900 border border-slate-700 w-full max-w-lg rounded-2xl shadow-2xl overflow-hidden h-[600px] flex flex-col">
                  <TokenHelper 
                     defaultClientId={process.env.YAHOO_CLIENT_ID || ''}
-                    onTokenGenerated={(token) => {
-                        setYahooToken(token);
+                    onTokenGenerated={(session) => {
+                        onSessionGenerated(session);
                         setShowInternalGenerator(false);
                     }}
                     onCancel={() => setShowInternalGenerator(false)}
@@ -80,9 +176,12 @@ const SyncModal: React.FC<SyncModalProps> = ({
         <div className="p-6 border-b border-slate-800 flex justify-between items-center bg-slate-950 shrink-0">
            <h2 className="text-xl font-bold text-white flex items-center gap-2">
              <RefreshCw className={`w-5 h-5 ${loading ? 'animate-spin' : ''}`} />
-             Sync with Yahoo
+             Sync League History
            </h2>
-           <button onClick={onClose} className="text-slate-500 hover:text-white"><Swords className="w-5 h-5 rotate-45" /></button>
+           {/* A running sync is only stopped through cancelSync, so closing waits until it finishes */}
+           {syncStep !== 'FETCHING' && (
+             <button onClick={onClose} className="text-slate-500 hover:text-white"><Swords className="w-5 h-5 rotate-45" /></button>
+           )}
         </div>
 
         <div className="p-6 overflow-y-auto flex-1">
@@ -94,66 +193,220 @@ const SyncModal: React.FC<SyncModalProps> = ({
 
            {syncStep === 'TOKEN' && (
              <div className="space-y-6">
-               <div className="bg-indigo-900/20 border border-indigo-500/30 p-4 rounded-xl">
-                 <h3 className="text-indigo-400 font-bold mb-2 flex items-center gap-2">
-                   <Key className="w-4 h-4" /> Step 1: Get Access Token
-                 </h3>
-                 <p className="text-slate-300 text-sm mb-3">
-                   Visit the secure token generator to authenticate with Yahoo and copy your access token.
-                 </p>
-                 <div className="flex flex-col sm:flex-row gap-3">
-                    <a 
-                        href="https://lemon-dune-0cd4b231e.azurestaticapps.net/" 
-                        target="_blank" 
-                        rel="noopener noreferrer"
-                        className="flex-1 inline-flex items-center justify-center gap-2 bg-indigo-600 hover:bg-indigo-500 text-white px-4 py-2 rounded-lg text-sm font-bold transition-colors"
-                    >
-                        Open Token Generator <ExternalLink className="w-3 h-3" />
-                    </a>
-                    <button
-                        onClick={() => setShowInternalGenerator(true)}
-                        className="inline-flex items-center justify-center gap-2 bg-slate-800 hover:bg-slate-700 text-slate-300 px-4 py-2 rounded-lg text-sm font-bold transition-colors border border-slate-600"
-                    >
-                        <Wrench className="w-3 h-3" /> Token Generator (Failsafe)
-                    </button>
-                 </div>
+               <div className="flex bg-slate-950 rounded-lg p-1 border border-slate-800">
+                 {Object.values(LEAGUE_PROVIDERS).map(p => (
+                   <button
+                     key={p.id}
+                     onClick={() => setProvider(p.id)}
+                     className={`flex-1 px-3 py-1.5 rounded-md text-sm font-bold transition-colors ${provider === p.id ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-white'}`}
+                   >
+                     {p.name}
+                   </button>
+                 ))}
                </div>
 
-               <div>
-                 <label className="block text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">Step 2: Paste Token</label>
-                 <input 
-                   type="password"
-                   value={yahooToken}
-                   onChange={(e) => setYahooToken(e.target.value)}
-                   className="w-full bg-slate-950 border border-slate-700 rounded-xl px-4 py-3 text-white focus:ring-2 focus:ring-emerald-500 outline-none"
-                   placeholder="Paste Access Token here..."
-                 />
-               </div>
+               {provider === 'sleeper' && (
+                 <div>
+                   <label className="block text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">Sleeper Username</label>
+                   <input
+                     type="text"
+                     value={providerCredentials.username || ''}
+                     onChange={(e) => updateCredentials('sleeper', { username: e.target.value })}
+                     className="w-full bg-slate-950 border border-slate-700 rounded-xl px-4 py-3 text-white focus:ring-2 focus:ring-emerald-500 outline-none"
+                     placeholder="e.g. gridirongreg"
+                   />
+                   <p className="text-xs text-slate-500 mt-2">Sleeper leagues are public, so no login is needed.</p>
+                 </div>
+               )}
+
+               {provider === 'espn' && (
+                 <div className="space-y-4">
+                   <div>
+                     <label className="block text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">ESPN League ID</label>
+                     <input
+                       type="text"
+                       value={providerCredentials.leagueId || ''}
+                       onChange={(e) => updateCredentials('espn', { leagueId: e.target.value.trim() })}
+                       className="w-full bg-slate-950 border border-slate-700 rounded-xl px-4 py-3 text-white focus:ring-2 focus:ring-emerald-500 outline-none"
+                       placeholder="The leagueId=... number in your league's URL"
+                     />
+                   </div>
+                   <div className="grid grid-cols-2 gap-3">
+                     <input
+                       type="password"
+                       value={providerCredentials.espnS2 || ''}
+                       onChange={(e) => updateCredentials('espn', { espnS2: e.target.value.trim() })}
+                       className="bg-slate-950 border border-slate-700 rounded-xl px-4 py-2 text-sm text-white focus:ring-2 focus:ring-emerald-500 outline-none"
+                       placeholder="espn_s2 cookie (private leagues)"
+                     />
+                     <input
+                       type="password"
+                       value={providerCredentials.swid || ''}
+                       onChange={(e) => updateCredentials('espn', { swid: e.target.value.trim() })}
+                       className="bg-slate-950 border border-slate-700 rounded-xl px-4 py-2 text-sm text-white focus:ring-2 focus:ring-emerald-500 outline-none"
+                       placeholder="SWID cookie (private leagues)"
+                     />
+                   </div>
+                   <ProxySettings />
+                 </div>
+               )}
+
+               {provider === 'yahoo' && (
+                 <>
+                   <div className="bg-indigo-900/20 border border-indigo-500/30 p-4 rounded-xl">
+                     <h3 className="text-indigo-400 font-bold mb-2 flex items-center gap-2">
+                       <Key className="w-4 h-4" /> Connect to Yahoo
+                     </h3>
+                     <p className="text-slate-300 text-sm mb-3">
+                       Log in with Yahoo to authorize access. Your leagues will load automatically once you approve.
+                     </p>
+                     <button
+                         onClick={() => setShowInternalGenerator(true)}
+                         className="w-full inline-flex items-center justify-center gap-2 bg-indigo-600 hover:bg-indigo-500 text-white px-4 py-2 rounded-lg text-sm font-bold transition-colors"
+                     >
+                         Login with Yahoo <ExternalLink className="w-3 h-3" />
+                     </button>
+                   </div>
+
+                   <div>
+                     <label className="block text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">Or Paste an Access Token</label>
+                     <input 
+                       type="password"
+                       value={yahooToken}
+                       onChange={(e) => setYahooToken(e.target.value)}
+                       className="w-full bg-slate-950 border border-slate-700 rounded-xl px-4 py-3 text-white focus:ring-2 focus:ring-emerald-500 outline-none"
+                       placeholder="Paste Access Token here..."
+                     />
+                   </div>
+
+                   <ProxySettings />
+
+                   <details className="border border-slate-800 rounded-xl px-4 py-3 text-xs text-slate-400">
+                     <summary className="font-bold uppercase tracking-wider cursor-pointer hover:text-white">Fixtures (offline testing)</summary>
+                     <div className="mt-3 space-y-3">
+                       <label className="flex items-center gap-2 cursor-pointer select-none">
+                         <input
+                           type="checkbox"
+                           checked={recording}
+                           onChange={(e) => setRecording(e.target.checked)}
+                           className="accent-indigo-500"
+                         />
+                         Record raw Yahoo responses during this sync (downloadable before saving)
+                       </label>
+                       <div>
+                         <span className="block mb-1">Replay a recorded fixture file instead of calling Yahoo:</span>
+                         <input
+                           type="file"
+                           accept="application/json,.json"
+                           onChange={(e) => { if (e.target.files?.[0]) onReplayFile(e.target.files[0]); }}
+                           className="text-xs text-slate-400 file:mr-3 file:bg-slate-800 file:border-0 file:text-white file:px-3 file:py-1.5 file:rounded-lg"
+                         />
+                       </div>
+                     </div>
+                   </details>
+                 </>
+               )}
              </div>
            )}
 
            {syncStep === 'SELECT' && (
              <div>
-               <p className="text-slate-400 text-sm mb-4">Found {discoveryLeagues.length} leagues. Select the ones you want to merge into this history.</p>
-               <div className="space-y-2 max-h-60 overflow-y-auto pr-2 custom-scrollbar">
-                 {discoveryLeagues.map(l => (
-                   <div 
-                     key={l.key}
-                     onClick={() => setLeaguesToSync(prev => prev.includes(l.key) ? prev.filter(k => k !== l.key) : [...prev, l.key])}
-                     className={`flex items-center justify-between p-3 rounded-lg border cursor-pointer transition-all ${leaguesToSync.includes(l.key) ? 'bg-emerald-900/20 border-emerald-500/50' : 'bg-slate-800 border-slate-700 hover:border-slate-600'}`}
-                   >
-                      <div className="flex items-center gap-3">
-                        <div className={`w-5 h-5 rounded flex items-center justify-center border ${leaguesToSync.includes(l.key) ? 'bg-emerald-500 border-emerald-500' : 'border-slate-600'}`}>
-                          {leaguesToSync.includes(l.key) && <CheckSquare className="w-3.5 h-3.5 text-white" />}
-                        </div>
-                        <div>
-                          <div className="text-white font-bold text-sm">{l.name}</div>
-                          <div className="text-xs text-slate-500">{l.year} Season</div>
-                        </div>
-                      </div>
-                   </div>
-                 ))}
+               <p className="text-slate-400 text-sm mb-4">Found {discoveryLeagues.length} seasons across {lineages.length} leagues. Linked seasons are grouped together; select the ones you want to merge into this history, from any platform.</p>
+               <div className="space-y-3 max-h-80 overflow-y-auto pr-2 custom-scrollbar">
+                 {lineages.map(lineage => {
+                   const keys = lineage.leagues.map(l => l.key);
+                   const selectedCount = keys.filter(k => leaguesToSync.includes(k)).length;
+                   const years = lineage.leagues.map(l => l.year);
+
+                   return (
+                     <div key={lineage.id} className="space-y-1">
+                       {lineage.leagues.length > 1 && (
+                         <div
+                           onClick={() => toggleLineage(keys)}
+                           className="flex items-center justify-between px-3 py-2 rounded-lg cursor-pointer bg-slate-950 border border-slate-800 hover:border-slate-600"
+                         >
+                           <div className="flex items-center gap-3">
+                             <div className={`w-5 h-5 rounded flex items-center justify-center border ${selectedCount === keys.length ? 'bg-emerald-500 border-emerald-500' : selectedCount > 0 ? 'bg-emerald-500/40 border-emerald-500' : 'border-slate-600'}`}>
+                               {selectedCount > 0 && <CheckSquare className="w-3.5 h-3.5 text-white" />}
+                             </div>
+                             <div>
+                               <div className="text-white font-bold text-sm flex items-center gap-2"><LinkIcon className="w-3 h-3 text-indigo-400" /> {lineage.name}</div>
+                               <div className="text-xs text-slate-500">{Math.min(...years)} – {Math.max(...years)} · {keys.length} seasons</div>
+                             </div>
+                           </div>
+                           <span className="text-xs text-slate-500">{selectedCount}/{keys.length} selected</span>
+                         </div>
+                       )}
+                       <div className={lineage.leagues.length > 1 ? 'pl-6 space-y-1' : ''}>
+                         {lineage.leagues.map(l => (
+                           <div 
+                             key={l.key}
+                             onClick={() => toggleLeague(l.key)}
+                             className={`flex items-center justify-between p-3 rounded-lg border cursor-pointer transition-all ${leaguesToSync.includes(l.key) ? 'bg-emerald-900/20 border-emerald-500/50' : 'bg-slate-800 border-slate-700 hover:border-slate-600'}`}
+                           >
+                              <div className="flex items-center gap-3">
+                                <div className={`w-5 h-5 rounded flex items-center justify-center border ${leaguesToSync.includes(l.key) ? 'bg-emerald-500 border-emerald-500' : 'border-slate-600'}`}>
+                                  {leaguesToSync.includes(l.key) && <CheckSquare className="w-3.5 h-3.5 text-white" />}
+                                </div>
+                                <div>
+                                  <div className="text-white font-bold text-sm">{l.name}</div>
+                                  <div className="text-xs text-slate-500">{l.year} Season · {LEAGUE_PROVIDERS[l.provider || 'yahoo'].name}</div>
+                                </div>
+                              </div>
+                           </div>
+                         ))}
+                       </div>
+                     </div>
+                   );
+                 })}
                </div>
+               <button onClick={addPlatform} className="mt-3 text-xs font-bold text-indigo-400 hover:text-indigo-300 flex items-center gap-1">
+                 <PlusCircle className="w-3 h-3" /> Add seasons from another platform
+               </button>
+               <label className="flex items-center gap-2 mt-4 text-xs text-slate-400 cursor-pointer select-none">
+                 <input
+                   type="checkbox"
+                   checked={fullRefresh}
+                   onChange={(e) => setFullRefresh(e.target.checked)}
+                   className="accent-emerald-500"
+                 />
+                 Force full re-sync (ignore seasons and weeks already stored)
+               </label>
+               <label className="flex items-center gap-2 mt-2 text-xs text-slate-400 cursor-pointer select-none">
+                 <input
+                   type="checkbox"
+                   checked={includeRosters}
+                   onChange={(e) => setIncludeRosters(e.target.checked)}
+                   className="accent-emerald-500"
+                 />
+                 Include weekly rosters and player points (slower: one request per week)
+               </label>
+               <div className="flex items-center gap-2 mt-3 text-xs text-slate-400">
+                 Request budget:
+                 <input
+                   type="number"
+                   min={1}
+                   value={requestBudget.requestsPerMinute}
+                   onChange={(e) => updateRequestBudget({ requestsPerMinute: parseInt(e.target.value) || 1 })}
+                   className="w-16 bg-slate-900 border border-slate-700 rounded px-2 py-1 text-white focus:ring-2 focus:ring-emerald-500 outline-none"
+                 />
+                 per minute,
+                 <input
+                   type="number"
+                   min={1}
+                   max={8}
+                   value={requestBudget.concurrency}
+                   onChange={(e) => updateRequestBudget({ concurrency: parseInt(e.target.value) || 1 })}
+                   className="w-12 bg-slate-900 border border-slate-700 rounded px-2 py-1 text-white focus:ring-2 focus:ring-emerald-500 outline-none"
+                 />
+                 at a time
+               </div>
+               {checkpoint && (
+                 <div className="mt-3 text-xs bg-indigo-500/10 border border-indigo-500/30 text-indigo-300 rounded-lg p-3">
+                   An interrupted sync of these leagues from {new Date(checkpoint.updatedAt).toLocaleString()} was found.
+                   It will pick up where it stopped ({checkpoint.data.seasons.length} season(s) saved).
+                 </div>
+               )}
              </div>
            )}
 
@@ -166,6 +419,27 @@ const SyncModal: React.FC<SyncModalProps> = ({
                  </h3>
                  <span className="text-xs text-slate-500 animate-pulse">Processing...</span>
                </div>
+
+               {progress && (
+                 <div className="shrink-0 space-y-2">
+                   <div className="h-2 bg-slate-800 rounded-full overflow-hidden">
+                     <div
+                       className="h-full bg-emerald-500 rounded-full transition-all duration-500"
+                       style={{ width: `${progress.fraction * 100}%` }}
+                     />
+                   </div>
+                   <div className="flex justify-between text-xs text-slate-400">
+                     <span>
+                       Season {progress.season} of {progress.seasonCount}{progress.year && ` (${progress.year})`}
+                       {progress.week !== undefined && progress.weekCount ? ` · Week ${progress.week} of ${progress.weekCount}` : ''}
+                     </span>
+                     <span className="font-mono">
+                       {progress.requests} requests · {formatDuration(progress.elapsedMs)}
+                       {progress.etaMs !== undefined && ` · ~${formatDuration(progress.etaMs)} left`}
+                     </span>
+                   </div>
+                 </div>
+               )}
                
                <div 
                  className="bg-black/50 border border-slate-700 rounded-xl p-4 flex-1 min-h-[300px] overflow-y-auto font-mono text-xs space-y-1 custom-scrollbar"
@@ -193,6 +467,15 @@ const SyncModal: React.FC<SyncModalProps> = ({
                </p>
              </div>
            )}
+
+           {syncStep === 'REVIEW' && pendingSync && (
+             <SyncReview
+               preview={pendingSync.preview}
+               writeMode={writeMode}
+               setWriteMode={setWriteMode}
+               rosterWeeks={Object.values(pendingSync.rosters).reduce((sum, weeks) => sum + Object.keys(weeks).length, 0)}
+             />
+           )}
         </div>
 
         <div className="p-6 border-t border-slate-800 bg-slate-950 flex justify-end gap-3 shrink-0">
@@ -200,10 +483,14 @@ const SyncModal: React.FC<SyncModalProps> = ({
              <button onClick={onClose} className="px-4 py-2 text-slate-400 hover:text-white">Cancel</button>
           )}
           
+          {syncStep === 'FETCHING' && (
+             <button onClick={cancelSync} className="px-4 py-2 text-slate-400 hover:text-red-400">Stop and keep finished seasons</button>
+          )}
+
           {syncStep === 'TOKEN' && (
              <button 
-               onClick={handleTokenSubmit} 
-               disabled={!yahooToken}
+               onClick={() => provider === 'yahoo' ? handleTokenSubmit() : discoverLeagues()} 
+               disabled={!canDiscover || loading}
                className="bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 text-white px-6 py-2 rounded-lg font-bold"
              >
                Next
@@ -216,8 +503,25 @@ const SyncModal: React.FC<SyncModalProps> = ({
                disabled={leaguesToSync.length === 0}
                className="bg-emerald-600 hover:bg-emerald-500 disabled:opacity-50 text-white px-6 py-2 rounded-lg font-bold flex items-center gap-2"
              >
-               <Save className="w-4 h-4" />
-               Save to Database
+               <RefreshCw className="w-4 h-4" />
+               Fetch Seasons
+             </button>
+          )}
+
+          {syncStep === 'REVIEW' && recording && (
+             <button onClick={onDownloadFixtures} className="px-4 py-2 text-indigo-400 hover:text-indigo-300 text-sm font-bold">
+               Download Fixtures
+             </button>
+          )}
+
+          {syncStep === 'REVIEW' && (
+             <button 
+               onClick={commitSync} 
+               disabled={loading || !pendingSync}
+               className="bg-emerald-600 hover:bg-emerald-500 disabled:opacity-50 text-white px-6 py-2 rounded-lg font-bold flex items-center gap-2"
+             >
+               {loading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+               {writeMode === 'merge' ? 'Merge into Database' : 'Replace in Database'}
              </button>
           )}
         </div>
@@ -282,6 +586,26 @@ const App: React.FC = () => {
   const [activeLeagueId, setActiveLeagueId] = useState<string | null>(localStorage.getItem('active_league_id'));
   const [leagueData, setLeagueData] = useState<LeagueData | null>(null);
   const [savedLeagues, setSavedLeagues] = useState<any[]>([]);
+  const [managerAliases, setManagerAliases] = useState<ManagerAliasMap>({});
+  const [showManagerAdmin, setShowManagerAdmin] = useState(false);
+  const [showManualImport, setShowManualImport] = useState(false);
+  const [leagueOverrides, setLeagueOverrides] = useState<Record<string, LeagueOverride>>({});
+  const [overrideAudit, setOverrideAudit] = useState<OverrideAuditEntry[]>([]);
+  const [showCommissionerEditor, setShowCommissionerEditor] = useState(false);
+  const [coManagerMode, setCoManagerMode] = useState<CoManagerAttribution>(
+    localStorage.getItem('co_manager_attribution') === 'shared' ? 'shared' : 'primary'
+  );
+
+  // Career views (standings, records, versus) honour the co-manager setting
+  const careerData = useMemo(
+    () => leagueData ? applyCoManagerAttribution(leagueData, coManagerMode) : null,
+    [leagueData, coManagerMode]
+  );
+
+  const changeCoManagerMode = (mode: CoManagerAttribution) => {
+    setCoManagerMode(mode);
+    localStorage.setItem('co_manager_attribution', mode);
+  };
 
   // 3. UI Flow
   const [isConfiguring, setIsConfiguring] = useState(!firebaseConfig);
@@ -292,9 +616,18 @@ const App: React.FC = () => {
 
   // 4. Sync State
   const [yahooToken, setYahooToken] = useState('');
+  const [provider, setProvider] = useState<ProviderId>('yahoo');
+  const [providerCredentials, setProviderCredentials] = useState<Partial<Record<ProviderId, ProviderCredentials>>>({});
   const [discoveryLeagues, setDiscoveryLeagues] = useState<LeagueSummary[]>([]);
   const [leaguesToSync, setLeaguesToSync] = useState<string[]>([]);
-  const [syncStep, setSyncStep] = useState<'TOKEN' | 'SELECT' | 'FETCHING'>('TOKEN');
+  const [syncStep, setSyncStep] = useState<SyncStep>('TOKEN');
+  const [fullRefresh, setFullRefresh] = useState(false);
+  const [includeRosters, setIncludeRosters] = useState(false);
+  const [syncProgress, setSyncProgress] = useState<SyncProgress | null>(null);
+  const [recording, setRecordingState] = useState(getTransportMode() === 'record');
+  const syncAbortRef = useRef<AbortController | null>(null);
+  const [pendingSync, setPendingSync] = useState<PendingSync | null>(null);
+  const [writeMode, setWriteMode] = useState<WriteMode>('merge');
 
   // --- INITIALIZATION ---
   useEffect(() => {
@@ -316,6 +649,15 @@ const App: React.FC = () => {
     }
   }, [activeLeagueId, firebaseConfig]);
 
+  // Returning from a full-page Yahoo login (popup was blocked): resume the sync where it left off
+  useEffect(() => {
+    const session = takeCompletedSession();
+    if (session) {
+      startSync();
+      handleSessionGenerated(session);
+    }
+  }, []);
+
   // --- ACTIONS ---
 
   const loadLibrary = async () => {
@@ -332,7 +674,23 @@ const App: React.FC = () => {
     try {
       const data = await fetchLeagueFromFirebase(id);
       if (data) {
-        setLeagueData(data);
+        // Commissioner aliases and corrections are re-applied on every load, including right after a sync
+        let aliases: ManagerAliasMap = {};
+        try {
+          aliases = await fetchManagerAliases(id);
+        } catch (e) {
+          console.warn("Could not load manager aliases", e);
+        }
+        let corrections: { overrides: Record<string, LeagueOverride>; audit: OverrideAuditEntry[] } = { overrides: {}, audit: [] };
+        try {
+          corrections = await fetchLeagueOverrides(id);
+        } catch (e) {
+          console.warn("Could not load commissioner overrides", e);
+        }
+        setManagerAliases(aliases);
+        setLeagueOverrides(corrections.overrides);
+        setOverrideAudit(corrections.audit);
+        setLeagueData(applyLeagueOverrides(applyManagerAliases(data, aliases), corrections.overrides));
         setActiveLeagueId(id);
         localStorage.setItem('active_league_id', id);
         setView(ViewState.DASHBOARD);
@@ -367,32 +725,63 @@ const App: React.FC = () => {
     setSyncStep('TOKEN');
     setError(null);
     setSyncLogs([]);
+    setPendingSync(null);
+    setDiscoveryLeagues([]);
+    setLeaguesToSync([]);
+  };
+
+  const updateCredentials = (id: ProviderId, patch: ProviderCredentials) => {
+    setProviderCredentials(prev => ({ ...prev, [id]: { ...prev[id], ...patch } }));
   };
 
   const addLog = (type: LogType, message: string) => {
     setSyncLogs(prev => [...prev, { type, message, timestamp: Date.now() }]);
   };
 
-  const handleTokenSubmit = async () => {
-    if (!yahooToken) return;
+  const handleSessionGenerated = (session: YahooSession) => {
+    // Keep the refresh token with the service so long syncs can renew the access token
+    setYahooSession(session, refreshed => setYahooToken(refreshed.accessToken));
+    setYahooToken(session.accessToken);
+    // Go straight to league discovery instead of making the user click "Next"
+    handleTokenSubmit(session.accessToken);
+  };
+
+  const handleTokenSubmit = async (tokenOverride?: string) => {
+    const token = tokenOverride || yahooToken;
+    if (!token) return;
     setLoading(true);
     setError(null);
+
+    // A manually pasted token has no refresh token attached
+    if (getYahooSession()?.accessToken !== token) {
+      setYahooSession({ accessToken: token });
+    }
+
     try {
       // 1. Discover Leagues
-      const leagues = await fetchUserLeagues(yahooToken);
+      const leagues = await fetchUserLeagues(token);
       if (leagues.length === 0) {
         setError("No leagues found for this Yahoo account.");
         setLoading(false);
         return;
       }
-      setDiscoveryLeagues(leagues);
-      
-      // Auto-select active league if exists
-      if (activeLeagueId && leagues.some(l => l.key === activeLeagueId)) {
-        setLeaguesToSync([activeLeagueId]);
-      } else {
-        setLeaguesToSync([]);
+
+      // Start from the loaded league (or any season of it we have stored), otherwise the most recent league
+      const storedKeys = leagueData?.seasons.map(s => s.key) || [];
+      const anchor = [activeLeagueId, ...storedKeys].find(key => key && leagues.some(l => l.key === key)) || leagues[0].key;
+
+      // Follow renew/renewed to pull in seasons missing from the user's own list, then pre-select the chain
+      let lineage = groupLeagueLineages(leagues).find(g => g.leagues.some(l => l.key === anchor))?.leagues || [];
+      try {
+        lineage = await fetchLeagueLineage(token, anchor, leagues);
+      } catch (e: any) {
+        console.warn("League lineage lookup failed", e);
       }
+
+      // Leagues found on other platforms stay listed and selected
+      const extra = lineage.filter(l => !leagues.some(known => known.key === l.key));
+      setDiscoveryLeagues(prev => [...prev.filter(l => providerForKey(l.key) !== 'yahoo'), ...leagues, ...extra].sort((a, b) => b.year - a.year));
+      setLeaguesToSync(prev => [...prev.filter(k => providerForKey(k) !== 'yahoo'), ...lineage.map(l => l.key)]);
       
       setSyncStep('SELECT');
     } catch (e: any) {
@@ -406,43 +795,247 @@ const App: React.FC = () => {
     }
   };
 
+  // Sleeper and ESPN: list the user's leagues and pre-select the lineage of the loaded league if it's there
+  const discoverLeagues = async () => {
+    const source = LEAGUE_PROVIDERS[provider];
+    setLoading(true);
+    setError(null);
+
+    try {
+      const leagues = await source.discoverLeagues(providerCredentials[provider] || {}, addLog);
+      if (leagues.length === 0) {
+        setError(`No ${source.name} leagues found.`);
+        return;
+      }
+
+      const storedKeys = leagueData?.seasons.map(s => s.key) || [];
+      const anchor = storedKeys.find(key => leagues.some(l => l.key === key)) || leagues[0].key;
+      const lineage = groupLeagueLineages(leagues).find(g => g.leagues.some(l => l.key === anchor))?.leagues || [];
+
+      setDiscoveryLeagues(prev => [...prev.filter(l => providerForKey(l.key) !== provider), ...leagues].sort((a, b) => b.year - a.year));
+      setLeaguesToSync(prev => [...prev.filter(k => providerForKey(k) !== provider), ...lineage.map(l => l.key)]);
+      setSyncStep('SELECT');
+    } catch (e: any) {
+      setError(`Could not load ${source.name} leagues: ${e.message}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const executeSync = async () => {
     if (leaguesToSync.length === 0) return;
     setSyncStep('FETCHING');
     setLoading(true);
     setSyncLogs([]);
+    setPendingSync(null);
+    setSyncProgress(null);
     addLog('INFO', "Initializing sync process...");
+
+    const controller = new AbortController();
+    syncAbortRef.current = controller;
     
     try {
-      // Fetch Data with Logger
-      const newData = await fetchYahooData(yahooToken, leaguesToSync, addLog);
+      // Updating the loaded league keeps its id; otherwise the first selection names the new entry
+      const primaryKey = activeLeagueId && leaguesToSync.includes(activeLeagueId) ? activeLeagueId : leaguesToSync[0];
+
+      // The stored league is always read so the sync can be merged into it;
+      // it's only handed to the fetcher for incremental sync when a full refresh wasn't requested
+      let existing: LeagueData | null = null;
+      try {
+        existing = await fetchLeagueFromFirebase(primaryKey);
+        if (existing) {
+          addLog('INFO', fullRefresh
+            ? `Found ${existing.seasons.length} stored seasons. Re-fetching everything...`
+            : `Found ${existing.seasons.length} stored seasons. Fetching only what's new...`);
+        }
+      } catch (e: any) {
+        addLog('WARN', `Could not read stored league, doing a full sync: ${e.message}`);
+      }
+
+      // Progress is checkpointed as seasons and weeks come in, so an interrupted sync can resume
+      const checkpoint = loadSyncCheckpoint(leaguesToSync);
+      const newData = await fetchLeagueHistory({ ...providerCredentials, yahoo: { token: yahooToken } }, leaguesToSync, addLog, {
+        existing,
+        fullRefresh,
+        resumeFrom: checkpoint?.data,
+        onCheckpoint: partial => saveSyncCheckpoint(leaguesToSync, partial),
+        signal: controller.signal,
+        onProgress: setSyncProgress
+      });
       
-      const primaryKey = leaguesToSync[0]; 
       const primaryName = discoveryLeagues.find(l => l.key === primaryKey)?.name || "Unknown League";
 
-      addLog('INFO', "Saving data to Firebase...");
-      await saveLeagueToFirebase(primaryKey, primaryName, newData);
+      // Optional roster stage (Yahoo only), kept out of the main data so views keep loading fast
+      const yahooSeasons = newData.seasons.filter(s => providerForKey(s.key) === 'yahoo');
+      const rosters = includeRosters && yahooSeasons.length > 0 && !controller.signal.aborted
+        ? await fetchLeagueRosters(yahooToken, yahooSeasons, addLog, { existing, fullRefresh, signal: controller.signal })
+        : {};
+
+      const { data: merged, preview } = mergeLeagueData(existing, newData);
+
+      setPendingSync({ leagueId: primaryKey, leagueName: primaryName, incoming: newData, merged, preview, rosters });
+      setWriteMode('merge');
+      addLog('SUCCESS', controller.signal.aborted
+        ? "Stopped early. Seasons fetched so far can still be saved; the rest keep their stored data."
+        : "Fetch complete. Review the changes before saving.");
+      setSyncStep('REVIEW');
+
+    } catch (e: any) {
+      setError("Sync Failed: " + e.message);
+      addLog('ERROR', e.message);
+      // setSyncStep('SELECT'); // Keep logs visible instead of going back
+    } finally {
+      syncAbortRef.current = null;
+      setLoading(false);
+    }
+  };
+
+  // --- FIXTURES ---
+
+  const setRecording = (value: boolean) => {
+    if (value) startRecording();
+    else stopTransport();
+    setRecordingState(value);
+  };
+
+  const replayFixtures = async (file: File) => {
+    setError(null);
+    try {
+      const fixtures = parseFixtureBundle(await file.text());
+      startReplay(fixtures);
+      setRecordingState(false);
+      setYahooToken('replay');
+
+      // Fixture files made from a sync carry its league list; without one, discovery is replayed too
+      if (fixtures.leagues && fixtures.leagues.length > 0) {
+        setYahooSession({ accessToken: 'replay' });
+        setDiscoveryLeagues(fixtures.leagues);
+        setLeaguesToSync(fixtures.leagues.map(l => l.key));
+        setSyncStep('SELECT');
+      } else {
+        await handleTokenSubmit('replay');
+      }
+    } catch (e: any) {
+      setError("Could not read fixture file: " + e.message);
+    }
+  };
+
+  const downloadFixtures = () => {
+    const fixtures = getRecording(discoveryLeagues.filter(l => leaguesToSync.includes(l.key)));
+    if (!fixtures) return;
+
+    const blob = new Blob([JSON.stringify(fixtures, null, 2)], { type: 'application/json' });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = `yahoo-fixtures-${new Date(fixtures.recordedAt).toISOString().slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(link.href);
+  };
+
+  const cancelSync = () => {
+    if (!syncAbortRef.current) return;
+    addLog('WARN', "Stopping sync after the requests in flight...");
+    syncAbortRef.current.abort();
+  };
+
+  const commitSync = async () => {
+    if (!pendingSync) return;
+    const { leagueId, leagueName, incoming, merged, rosters } = pendingSync;
+    setLoading(true);
+    setError(null);
+
+    try {
+      addLog('INFO', writeMode === 'merge' ? "Merging data into Firebase..." : "Replacing data in Firebase...");
+
+      // Snapshots go first, so a failed save never leaves rosterWeeks listing weeks that weren't written
+      if (writeMode === 'replace') await clearLeagueRosters(leagueId);
+      for (const [seasonKey, weeks] of Object.entries(rosters)) {
+        await saveSeasonRosters(leagueId, seasonKey, weeks);
+      }
+
+      // Replacing starts the snapshots over, so only the weeks saved by this sync are recorded
+      const data = writeMode === 'merge' ? merged : {
+        ...incoming,
+        seasons: incoming.seasons.map(s => ({
+          ...s,
+          rosterWeeks: rosters[s.key] ? Object.keys(rosters[s.key]).map(Number).sort((a, b) => a - b) : undefined
+        }))
+      };
+      await saveLeagueToFirebase(leagueId, leagueName, data);
+      clearSyncCheckpoint();
       addLog('SUCCESS', "Sync Complete!");
-      
+
       // Refresh UI
       await loadLibrary();
-      await loadLeague(primaryKey);
-      
-      // Short delay to let user see success
-      setTimeout(() => {
-          setShowSyncModal(false);
-          setYahooToken(''); 
-      }, 2000);
+      await loadLeague(leagueId);
 
+      setShowSyncModal(false);
+      setPendingSync(null);
+      setYahooToken(''); 
+      setYahooSession(null);
+      stopTransport();
+      setRecordingState(false);
     } catch (e: any) {
-      setError("Sync Failed: " + e.message);
+      setError("Save Failed: " + e.message);
       addLog('ERROR', e.message);
-      // setSyncStep('SELECT'); // Keep logs visible instead of going back
     } finally {
       setLoading(false);
     }
   };
 
+  const saveAliases = async (aliases: ManagerAliasMap) => {
+    if (!activeLeagueId) return;
+    await saveManagerAliases(activeLeagueId, aliases);
+    const data = await fetchLeagueFromFirebase(activeLeagueId);
+    setManagerAliases(aliases);
+    if (data) setLeagueData(applyLeagueOverrides(applyManagerAliases(data, aliases), leagueOverrides));
+  };
+
+  // Each saved correction gets an audit entry with the values it replaced
+  const saveOverrides = async (changes: { id: string; override: LeagueOverride | null }[], author: string, note: string) => {
+    if (!activeLeagueId) return;
+    const at = Date.now();
+    const audit: OverrideAuditEntry[] = changes.flatMap(({ id, override }): OverrideAuditEntry[] => {
+      const previous = leagueOverrides[id];
+      const entry = override || previous;
+      if (!entry) return [];
+      return [{
+        at,
+        author,
+        action: override ? 'set' : 'remove',
+        overrideId: id,
+        kind: entry.kind,
+        seasonKey: entry.seasonKey,
+        target: entry.target,
+        changes: override?.changes,
+        previous: previous?.changes,
+        note: note || undefined
+      }];
+    });
+    await saveLeagueOverrides(activeLeagueId, changes, audit);
+
+    const overrides = { ...leagueOverrides };
+    changes.forEach(({ id, override }) => {
+      if (override) overrides[id] = override;
+      else delete overrides[id];
+    });
+    const data = await fetchLeagueFromFirebase(activeLeagueId);
+    setLeagueOverrides(overrides);
+    setOverrideAudit(prev => [...audit, ...prev]);
+    if (data) setLeagueData(applyLeagueOverrides(applyManagerAliases(data, managerAliases), overrides));
+  };
+
+  // Hand-entered seasons are merged into the stored league like a sync would be
+  const importManualSeasons = async (incoming: LeagueData) => {
+    if (!activeLeagueId) return;
+    const stored = await fetchLeagueFromFirebase(activeLeagueId);
+    const { data } = mergeLeagueData(stored, incoming);
+    const name = savedLeagues.find(l => l.id === activeLeagueId)?.name || activeLeagueId;
+    await saveLeagueToFirebase(activeLeagueId, name, data);
+    await loadLibrary();
+    await loadLeague(activeLeagueId);
+  };
+
   // --- RENDER HELPERS ---
 
   const NavButton = ({ v, icon: Icon, label }: { v: ViewState, icon: any, label: string }) => (
@@ -578,13 +1171,34 @@ const App: React.FC = () => {
              logs={syncLogs}
              error={error}
              syncStep={syncStep}
+             provider={provider}
+             setProvider={setProvider}
+             credentials={providerCredentials}
+             updateCredentials={updateCredentials}
              yahooToken={yahooToken}
              setYahooToken={setYahooToken}
+             onSessionGenerated={handleSessionGenerated}
              discoveryLeagues={discoveryLeagues}
              leaguesToSync={leaguesToSync}
              setLeaguesToSync={setLeaguesToSync}
+             fullRefresh={fullRefresh}
+             setFullRefresh={setFullRefresh}
+             includeRosters={includeRosters}
+             setIncludeRosters={setIncludeRosters}
              handleTokenSubmit={handleTokenSubmit}
+             discoverLeagues={discoverLeagues}
+             addPlatform={() => setSyncStep('TOKEN')}
              executeSync={executeSync}
+             cancelSync={cancelSync}
+             progress={syncProgress}
+             recording={recording}
+             setRecording={setRecording}
+             onReplayFile={replayFixtures}
+             onDownloadFixtures={downloadFixtures}
+             pendingSync={pendingSync}
+             writeMode={writeMode}
+             setWriteMode={setWriteMode}
+             commitSync={commitSync}
              onClose={() => setShowSyncModal(false)}
            />
          )}
@@ -593,6 +1207,7 @@ const App: React.FC = () => {
   }
 
   // 3. MAIN APP
+  const careerView = careerData || leagueData;
   const currentSeason = leagueData.seasons[leagueData.seasons.length - 1];
   const currentChampId = currentSeason.standings.find(s => s.stats.rank === 1)?.managerId;
   const currentChampName = leagueData.managers.find(m => m.id === currentChampId)?.name || 'Unknown';
@@ -616,10 +1231,32 @@ const App: React.FC = () => {
                <NavButton v={ViewState.STANDINGS} icon={Table2} label="Standings" />
                <NavButton v={ViewState.VERSUS} icon={Swords} label="Versus" />
                <NavButton v={ViewState.DRAFT} icon={Gavel} label="Drafts" />
+               <NavButton v={ViewState.TRANSACTIONS} icon={ArrowRightLeft} label="Moves" />
                <NavButton v={ViewState.HISTORY} icon={History} label="Stats" />
+               <NavButton v={ViewState.CONSOLATION} icon={Skull} label="Sacko" />
             </div>
             
             <div className="flex items-center shrink-0 gap-2">
+              {hasCoManagers(leagueData) && (
+                <select
+                  value={coManagerMode}
+                  onChange={(e) => changeCoManagerMode(e.target.value as CoManagerAttribution)}
+                  className="hidden md:block bg-slate-800 text-slate-300 border border-slate-700 rounded-lg px-2 py-1.5 text-xs focus:ring-2 focus:ring-indigo-500 outline-none"
+                  title="How co-managed seasons count in career stats"
+                >
+                  <option value="primary">Co-managers: primary only</option>
+                  <option value="shared">Co-managers: shared credit</option>
+                </select>
+              )}
+              <button onClick={() => setShowManagerAdmin(true)} className="text-slate-400 hover:text-white p-2 rounded-full hover:bg-slate-800 transition-colors" title="Manage Managers">
+                  <UserCog className="w-5 h-5" />
+              </button>
+              <button onClick={() => setShowManualImport(true)} className="text-slate-400 hover:text-white p-2 rounded-full hover:bg-slate-800 transition-colors" title="Import Seasons from CSV / JSON">
+                  <FileUp className="w-5 h-5" />
+              </button>
+              <button onClick={() => setShowCommissionerEditor(true)} className="text-slate-400 hover:text-white p-2 rounded-full hover:bg-slate-800 transition-colors" title="Commissioner Corrections">
+                  <Scale className="w-5 h-5" />
+              </button>
               <button onClick={startSync} className="hidden md:flex items-center gap-2 bg-emerald-600/10 hover:bg-emerald-600/20 text-emerald-400 border border-emerald-600/50 px-3 py-1.5 rounded-lg text-xs font-bold transition-all">
                 <RefreshCw className="w-3 h-3" /> Update
               </button>
@@ -657,22 +1294,24 @@ const App: React.FC = () => {
                       </button>
                     </div>
                  </div>
-                 <LeagueRecords data={leagueData} />
-                 <StandingsTable data={leagueData} />
+                 <LeagueRecords data={careerView} />
+                 <StandingsTable data={careerView} />
               </div>
             )}
 
-            {view === ViewState.STANDINGS && <div className="animate-in fade-in duration-300"><StandingsTable data={leagueData} /></div>}
-            {view === ViewState.VERSUS && <Versus data={leagueData} token={yahooToken} />}
+            {view === ViewState.STANDINGS && <div className="animate-in fade-in duration-300"><StandingsTable data={careerView} /></div>}
+            {view === ViewState.VERSUS && <Versus data={careerView} token={yahooToken} leagueId={activeLeagueId} />}
             {view === ViewState.DRAFT && <DraftHistory data={leagueData} token={yahooToken} />}
+            {view === ViewState.TRANSACTIONS && <TransactionLog data={leagueData} />}
+            {view === ViewState.CONSOLATION && <ConsolationBracket data={leagueData} />}
             {view === ViewState.HISTORY && (
               <div className="space-y-8 animate-in fade-in duration-300">
-                <AdvancedStats data={leagueData} />
+                <AdvancedStats data={leagueData} leagueId={activeLeagueId} />
                 <HistoryChart data={leagueData} />
                 <h3 className="text-xl font-bold text-white px-1">Season History</h3>
                 <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
                   {leagueData.seasons.slice().reverse().map(season => {
-                     const champStand = season.standings.find(s => s.stats.rank === 1);
+                     const champStand = season.standings.find(s => s.stats.isChampion);
                      const champ = leagueData.managers.find(m => m.id === champStand?.managerId);
                      return (
                        <div key={season.key} className="bg-slate-800 p-5 rounded-xl border border-slate-700 flex justify-between items-center group hover:border-indigo-500/30 transition-all">
@@ -772,16 +1411,65 @@ const App: React.FC = () => {
           logs={syncLogs}
           error={error}
           syncStep={syncStep}
+          provider={provider}
+          setProvider={setProvider}
+          credentials={providerCredentials}
+          updateCredentials={updateCredentials}
           yahooToken={yahooToken}
           setYahooToken={setYahooToken}
+          onSessionGenerated={handleSessionGenerated}
           discoveryLeagues={discoveryLeagues}
           leaguesToSync={leaguesToSync}
           setLeaguesToSync={setLeaguesToSync}
+          fullRefresh={fullRefresh}
+          setFullRefresh={setFullRefresh}
+          includeRosters={includeRosters}
+          setIncludeRosters={setIncludeRosters}
           handleTokenSubmit={handleTokenSubmit}
+          discoverLeagues={discoverLeagues}
+          addPlatform={() => setSyncStep('TOKEN')}
           executeSync={executeSync}
+          cancelSync={cancelSync}
+          progress={syncProgress}
+          recording={recording}
+          setRecording={setRecording}
+          onReplayFile={replayFixtures}
+          onDownloadFixtures={downloadFixtures}
+          pendingSync={pendingSync}
+          writeMode={writeMode}
+          setWriteMode={setWriteMode}
+          commitSync={commitSync}
           onClose={() => setShowSyncModal(false)}
         />
       )}
+
+      {showManagerAdmin && (
+        <ManagerAdmin
+          data={leagueData}
+          aliases={managerAliases}
+          onSave={saveAliases}
+          onClose={() => setShowManagerAdmin(false)}
+        />
+      )}
+
+      {showManualImport && (
+        <ManualImport
+          data={leagueData}
+          aliases={managerAliases}
+          onImport={importManualSeasons}
+          onClose={() => setShowManualImport(false)}
+        />
+      )}
+
+      {showCommissionerEditor && (
+        <CommissionerEditor
+          data={leagueData}
+          overrides={leagueOverrides}
+          audit={overrideAudit}
+          onSave={saveOverrides}
+          onClose={() => setShowCommissionerEditor(false)}
+        />
+      )}
     </div>
   );
 };
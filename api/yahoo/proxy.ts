@@ -0,0 +1,77 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+
+// Minimal CORS proxy for the Yahoo API. Usage: /api/yahoo/proxy?url=<encoded Yahoo URL>
+// Only forwards to Yahoo's fantasy and login hosts (and ESPN's fantasy API, which has the same
+// CORS problem) so it can't be used as an open relay.
+
+const ALLOWED_HOSTS = ['fantasysports.yahooapis.com', 'api.login.yahoo.com', 'lm-api-reads.fantasy.espn.com'];
+const ESPN_HOST = 'lm-api-reads.fantasy.espn.com';
+const FORWARDED_REQUEST_HEADERS = ['authorization', 'content-type', 'accept'];
+const FORWARDED_RESPONSE_HEADERS = ['content-type', 'retry-after'];
+
+const sendError = (res: ServerResponse, status: number, message: string) => {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify({ error: message }));
+};
+
+const readRawBody = async (req: IncomingMessage): Promise<string> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+};
+
+const resolveTarget = (requestUrl: string | undefined): URL | null => {
+  const query = new URL(requestUrl || '', 'http://localhost').searchParams.get('url');
+  if (!query) return null;
+
+  try {
+    const target = new URL(query);
+    if (target.protocol !== 'https:' || !ALLOWED_HOSTS.includes(target.hostname)) return null;
+    return target;
+  } catch (e) {
+    return null;
+  }
+};
+
+const proxyHandler = async (req: IncomingMessage, res: ServerResponse) => {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    res.setHeader('Allow', 'GET, POST');
+    return sendError(res, 405, 'method_not_allowed');
+  }
+
+  const target = resolveTarget(req.url);
+  if (!target) return sendError(res, 400, `url must be an https URL on: ${ALLOWED_HOSTS.join(', ')}`);
+
+  const headers: Record<string, string> = {};
+  FORWARDED_REQUEST_HEADERS.forEach(name => {
+    const value = req.headers[name];
+    if (typeof value === 'string') headers[name] = value;
+  });
+
+  // Browsers can't send ESPN's cookies cross-site, so private-league cookies arrive as a header
+  const espnCookie = req.headers['x-espn-cookie'];
+  if (target.hostname === ESPN_HOST && typeof espnCookie === 'string') headers.cookie = espnCookie;
+
+  try {
+    const upstream = await fetch(target.toString(), {
+      method: req.method,
+      headers,
+      body: req.method === 'POST' ? await readRawBody(req) : undefined
+    });
+
+    res.statusCode = upstream.status;
+    FORWARDED_RESPONSE_HEADERS.forEach(name => {
+      const value = upstream.headers.get(name);
+      if (value) res.setHeader(name, value);
+    });
+    res.setHeader('Cache-Control', 'no-store');
+    res.end(Buffer.from(await upstream.arrayBuffer()));
+  } catch (e: any) {
+    sendError(res, 502, `upstream_unreachable: ${e.message}`);
+  }
+};
+
+export default proxyHandler;
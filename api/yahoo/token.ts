@@ -0,0 +1,114 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+
+// Yahoo OAuth token endpoint (code exchange + refresh).
+// This is the only place that knows the client secret, so it must stay server-side.
+// Deployed as a serverless function, and mounted on the Vite dev/preview server by vite.config.ts.
+
+const TOKEN_URL = 'https://api.login.yahoo.com/oauth2/get_token';
+
+export interface YahooCredentials {
+  clientId: string;
+  clientSecret: string;
+}
+
+type ApiRequest = IncomingMessage & { body?: any };
+
+const sendJson = (res: ServerResponse, status: number, payload: any) => {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.setHeader('Cache-Control', 'no-store');
+  res.end(JSON.stringify(payload));
+};
+
+// Some hosts parse the body for us, the Vite middleware stack doesn't
+const readJsonBody = async (req: ApiRequest): Promise<any> => {
+  if (req.body !== undefined) {
+    return typeof req.body === 'string' ? JSON.parse(req.body) : req.body;
+  }
+
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+  }
+  const raw = Buffer.concat(chunks).toString('utf8');
+  return raw ? JSON.parse(raw) : {};
+};
+
+const buildTokenParams = (body: any): URLSearchParams | string => {
+  const params = new URLSearchParams();
+
+  if (body.grant_type === 'authorization_code') {
+    if (!body.code) return 'Missing authorization code.';
+    params.append('grant_type', 'authorization_code');
+    params.append('code', String(body.code));
+    params.append('redirect_uri', String(body.redirect_uri || 'oob'));
+    if (body.code_verifier) params.append('code_verifier', String(body.code_verifier));
+    return params;
+  }
+
+  if (body.grant_type === 'refresh_token') {
+    if (!body.refresh_token) return 'Missing refresh token.';
+    params.append('grant_type', 'refresh_token');
+    params.append('redirect_uri', 'oob');
+    params.append('refresh_token', String(body.refresh_token));
+    return params;
+  }
+
+  return `Unsupported grant_type: ${body.grant_type}`;
+};
+
+export const createTokenHandler = (getCredentials: () => YahooCredentials) => async (req: ApiRequest, res: ServerResponse) => {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return sendJson(res, 405, { error: 'method_not_allowed' });
+  }
+
+  const { clientId, clientSecret } = getCredentials();
+  if (!clientId || !clientSecret) {
+    return sendJson(res, 500, { error: 'server_misconfigured', error_description: 'YAHOO_CLIENT_ID / YAHOO_CLIENT_SECRET are not set on the server.' });
+  }
+
+  let body: any;
+  try {
+    body = await readJsonBody(req);
+  } catch (e) {
+    return sendJson(res, 400, { error: 'invalid_request', error_description: 'Request body must be JSON.' });
+  }
+
+  const params = buildTokenParams(body || {});
+  if (typeof params === 'string') {
+    return sendJson(res, 400, { error: 'invalid_request', error_description: params });
+  }
+
+  try {
+    const upstream = await fetch(TOKEN_URL, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Basic ${Buffer.from(`${clientId}:${clientSecret}`).toString('base64')}`,
+        'Content-Type': 'application/x-www-form-urlencoded'
+      },
+      body: params.toString()
+    });
+
+    const json = await upstream.json().catch(() => ({ error: 'invalid_response', error_description: `Yahoo returned ${upstream.status}` }));
+
+    if (json.error) {
+      return sendJson(res, upstream.status >= 400 ? upstream.status : 400, { error: json.error, error_description: json.error_description });
+    }
+
+    // Only pass the token fields through
+    return sendJson(res, 200, {
+      access_token: json.access_token,
+      refresh_token: json.refresh_token,
+      expires_in: json.expires_in,
+      token_type: json.token_type
+    });
+  } catch (e: any) {
+    return sendJson(res, 502, { error: 'upstream_unreachable', error_description: e.message });
+  }
+};
+
+export default createTokenHandler(() => ({
+  clientId: (process.env.YAHOO_CLIENT_ID || process.env.VITE_YAHOO_CLIENT_ID || '').trim(),
+  clientSecret: (process.env.YAHOO_CLIENT_SECRET || '').trim()
+}));
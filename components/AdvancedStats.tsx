@@ -4,10 +4,14 @@ import {
   Tooltip, Legend, CartesianGrid, ReferenceLine, BarChart, Bar, Cell 
 } from 'recharts';
 import { LeagueData } from '../types';
+import { gameResult, isChampionshipGame } from '../services/playoffs';
+import { LineupEfficiency } from './LineupEfficiency';
+import { ProjectionStats } from './ProjectionStats';
 import { Target, TrendingUp, Skull, Zap, Trophy, Medal, AlertTriangle, Activity, Flame, Swords, Star } from 'lucide-react';
 
 interface AdvancedStatsProps {
   data: LeagueData;
+  leagueId?: string | null;
 }
 
 const CustomTooltip = ({ active, payload, label }: any) => {
@@ -36,7 +40,7 @@ const CustomTooltip = ({ active, payload, label }: any) => {
   return null;
 };
 
-export const AdvancedStats: React.FC<AdvancedStatsProps> = ({ data }) => {
+export const AdvancedStats: React.FC<AdvancedStatsProps> = ({ data, leagueId }) => {
   
   // --- 1. Luck Quadrant Data ---
   const luckData = useMemo(() => {
@@ -96,15 +100,26 @@ export const AdvancedStats: React.FC<AdvancedStatsProps> = ({ data }) => {
       let playoffs = 0;
       let finals = 0;
       let titles = 0;
+      let bracketWins = 0;
+      let bracketLosses = 0;
 
       data.seasons.forEach(s => {
         const stand = s.standings.find(st => st.managerId === mgr.id);
         if (stand) {
           seasons++;
           if (stand.stats.isPlayoff) playoffs++;
-          if (stand.stats.rank <= 2) finals++;
+          if (stand.stats.playoffFinish ? stand.stats.playoffFinish <= 2 : stand.stats.rank <= 2) finals++;
           if (stand.stats.isChampion) titles++;
         }
+
+        // Championship bracket record; consolation games are ignored
+        (s.games || []).filter(isChampionshipGame).forEach(g => {
+          const mine = g.teamA.managerId === mgr.id ? g.teamA : g.teamB.managerId === mgr.id ? g.teamB : null;
+          if (!mine) return;
+          const result = gameResult(g, mine.teamKey);
+          if (result === 'W') bracketWins++;
+          else if (result === 'L') bracketLosses++;
+        });
       });
 
       if (seasons < 1) return null;
@@ -115,6 +130,8 @@ export const AdvancedStats: React.FC<AdvancedStatsProps> = ({ data }) => {
         playoffs,
         finals,
         titles,
+        bracketWins,
+        bracketLosses,
         conversionRate: playoffs > 0 ? (titles / playoffs) * 100 : 0
       };
     })
@@ -184,16 +201,14 @@ export const AdvancedStats: React.FC<AdvancedStatsProps> = ({ data }) => {
 
           // For Actual Records & Streaks
           const dateProxy = s.year * 100 + g.week;
-          const isTie = Math.abs(g.teamA.points - g.teamB.points) < 0.01;
-
           if (outcomesByManager[g.teamA.managerId]) {
-              let res: 'W'|'L'|'T' = isTie ? 'T' : (g.teamA.points > g.teamB.points ? 'W' : 'L');
+              const res = gameResult(g, g.teamA.teamKey);
               outcomesByManager[g.teamA.managerId].push({ result: res, date: dateProxy });
               if (res === 'W') allPlayRecords[g.teamA.managerId].actualWins++;
               if (res === 'L') allPlayRecords[g.teamA.managerId].actualLosses++;
           }
           if (outcomesByManager[g.teamB.managerId]) {
-              let res: 'W'|'L'|'T' = isTie ? 'T' : (g.teamB.points > g.teamA.points ? 'W' : 'L');
+              const res = gameResult(g, g.teamB.teamKey);
               outcomesByManager[g.teamB.managerId].push({ result: res, date: dateProxy });
               if (res === 'W') allPlayRecords[g.teamB.managerId].actualWins++;
               if (res === 'L') allPlayRecords[g.teamB.managerId].actualLosses++;
@@ -369,7 +384,7 @@ export const AdvancedStats: React.FC<AdvancedStatsProps> = ({ data }) => {
                 <TrendingUp className="w-5 h-5 text-emerald-400" />
                 Playoff Efficiency
               </h3>
-              <p className="text-slate-400 text-sm">Appearances vs Titles</p>
+              <p className="text-slate-400 text-sm">Appearances, Titles & Championship Bracket Wins</p>
            </div>
            
            <div className="h-[300px] w-full">
@@ -386,6 +401,7 @@ export const AdvancedStats: React.FC<AdvancedStatsProps> = ({ data }) => {
                     <Legend iconSize={8} fontSize={10} />
                     <Bar dataKey="playoffs" name="Playoff Apps" stackId="a" fill="#3b82f6" radius={[0, 4, 4, 0]} barSize={12} />
                     <Bar dataKey="titles" name="Titles" stackId="a" fill="#fbbf24" radius={[0, 4, 4, 0]} barSize={12} />
+                    <Bar dataKey="bracketWins" name="Bracket Wins" fill="#10b981" radius={[0, 4, 4, 0]} barSize={6} />
                  </BarChart>
               </ResponsiveContainer>
            </div>
@@ -601,6 +617,12 @@ export const AdvancedStats: React.FC<AdvancedStatsProps> = ({ data }) => {
         </>
       )}
 
+      {/* ROW 5: Upsets & Projection Accuracy */}
+      <ProjectionStats data={data} />
+
+      {/* ROW 6: Lineup Efficiency (needs roster snapshots) */}
+      <LineupEfficiency data={data} leagueId={leagueId} />
+
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,59 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Loader2, AlertTriangle, CheckCircle2 } from 'lucide-react';
+import { CALLBACK_MESSAGE, readCallbackParams, completeAuthRequest, storeCompletedSession } from '../services/yahooAuth';
+
+// Landing page for the Yahoo redirect. In a popup we relay the code to the opener;
+// otherwise (popup blocked) we finish the exchange here and return to the app.
+export const AuthCallback: React.FC = () => {
+  const [error, setError] = useState<string | null>(null);
+  const [done, setDone] = useState(false);
+  const started = useRef(false);
+
+  useEffect(() => {
+    // The code is single-use, so never run the exchange twice (StrictMode re-runs effects)
+    if (started.current) return;
+    started.current = true;
+
+    const params = readCallbackParams();
+    const opener = window.opener as Window | null;
+
+    if (opener && !opener.closed) {
+      opener.postMessage({ type: CALLBACK_MESSAGE, ...params }, window.location.origin);
+      setDone(true);
+      window.close();
+      return;
+    }
+
+    completeAuthRequest(params)
+      .then(session => {
+        storeCompletedSession(session);
+        setDone(true);
+        window.location.replace('/');
+      })
+      .catch((e: any) => setError(e.message || "Failed to complete Yahoo login."));
+  }, []);
+
+  return (
+    <div className="min-h-screen bg-slate-900 text-slate-200 flex items-center justify-center p-6">
+      <div className="max-w-sm w-full bg-slate-800 border border-slate-700 rounded-2xl p-8 text-center shadow-2xl">
+        {error ? (
+          <>
+            <AlertTriangle className="w-10 h-10 text-red-400 mx-auto mb-4" />
+            <p className="text-red-400 text-sm mb-6">{error}</p>
+            <a href="/" className="text-indigo-400 hover:text-white text-sm font-bold">Back to League Library</a>
+          </>
+        ) : done ? (
+          <>
+            <CheckCircle2 className="w-10 h-10 text-emerald-400 mx-auto mb-4" />
+            <p className="text-slate-300 text-sm">Login complete. You can close this window.</p>
+          </>
+        ) : (
+          <>
+            <Loader2 className="w-10 h-10 text-indigo-400 animate-spin mx-auto mb-4" />
+            <p className="text-slate-300 text-sm">Completing Yahoo login...</p>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
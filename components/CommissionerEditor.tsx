@@ -0,0 +1,318 @@
+import React, { useMemo, useState } from 'react';
+import { LeagueData, LeagueOverride, OverrideAuditEntry, OverrideKind, OverrideValue } from '../types';
+import { STANDING_FIELDS, describeOverride, gameTarget, overrideId } from '../services/leagueOverrides';
+import { Gavel, Loader2, RotateCcw, Save, X } from 'lucide-react';
+
+interface CommissionerEditorProps {
+  data: LeagueData; // Aliases and overrides already applied
+  overrides: Record<string, LeagueOverride>;
+  audit: OverrideAuditEntry[];
+  onSave: (changes: { id: string; override: LeagueOverride | null }[], author: string, note: string) => Promise<void>;
+  onClose: () => void;
+}
+
+type Tab = 'standings' | 'champion' | 'games' | 'draft' | 'history';
+
+const TABS: { id: Tab; label: string }[] = [
+  { id: 'standings', label: 'Standings' },
+  { id: 'champion', label: 'Champion' },
+  { id: 'games', label: 'Games' },
+  { id: 'draft', label: 'Draft' },
+  { id: 'history', label: 'History' }
+];
+
+const STANDING_LABELS: Record<typeof STANDING_FIELDS[number], string> = {
+  rank: 'Rank',
+  wins: 'W',
+  losses: 'L',
+  ties: 'T',
+  pointsFor: 'PF',
+  pointsAgainst: 'PA'
+};
+
+const inputClass = 'bg-slate-900 border border-slate-600 rounded-lg px-2 py-1 text-xs text-slate-300 focus:ring-2 focus:ring-indigo-500 outline-none';
+
+const formatChanges = (changes?: Record<string, OverrideValue>, previous?: Record<string, OverrideValue>) =>
+  Object.entries(changes || previous || {})
+    .map(([field, value]) => previous?.[field] !== undefined && changes ? `${field}: ${previous[field]} → ${value}` : `${field}: ${value}`)
+    .join(', ');
+
+export const CommissionerEditor: React.FC<CommissionerEditorProps> = ({ data, overrides, audit, onSave, onClose }) => {
+  const seasons = useMemo(() => [...data.seasons].sort((a, b) => b.year - a.year), [data.seasons]);
+  const [seasonKey, setSeasonKey] = useState(seasons[0]?.key || '');
+  const [tab, setTab] = useState<Tab>('standings');
+  const [week, setWeek] = useState<number | null>(null);
+  // Staged edits by override id; null resets the override back to the synced value
+  const [pending, setPending] = useState<Record<string, LeagueOverride | null>>({});
+  const [author, setAuthor] = useState(localStorage.getItem('commissioner_name') || '');
+  const [note, setNote] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const season = seasons.find(s => s.key === seasonKey);
+  const managerName = (id: string) => data.managers.find(m => m.id === id)?.name || id;
+  const weeks = useMemo(() => Array.from(new Set((season?.games || []).map(g => g.week))).sort((a, b) => a - b), [season]);
+  const activeWeek = week !== null && weeks.includes(week) ? week : weeks[0];
+  const teams = useMemo(() => [...(season?.standings || [])].sort((a, b) => a.stats.rank - b.stats.rank), [season]);
+
+  const current = (id: string) => (id in pending ? pending[id] : overrides[id]);
+
+  // Edits build on whatever override is already stored for the same target
+  const stage = (kind: OverrideKind, target: string | undefined, field: string, value: OverrideValue) => {
+    const id = overrideId(kind, seasonKey, target);
+    setPending(prev => {
+      const base = id in prev ? prev[id] : overrides[id];
+      return { ...prev, [id]: { id, kind, seasonKey, target, changes: { ...(base?.changes || {}), [field]: value } } };
+    });
+  };
+
+  const stageNumber = (kind: OverrideKind, target: string | undefined, field: string, raw: string) => {
+    const value = parseFloat(raw);
+    if (!isNaN(value)) stage(kind, target, field, value);
+  };
+
+  const reset = (id: string) => {
+    setPending(prev => {
+      const next = { ...prev };
+      if (overrides[id]) next[id] = null;
+      else delete next[id];
+      return next;
+    });
+  };
+
+  const value = (id: string, field: string, synced: OverrideValue | undefined) => current(id)?.changes[field] ?? synced;
+
+  const statusBadge = (id: string) => {
+    if (pending[id] === null) return <span className="text-[10px] text-yellow-400">resets on save</span>;
+    if (id in pending) return <span className="text-[10px] text-indigo-300">edited</span>;
+    if (overrides[id]) {
+      return (
+        <button onClick={() => reset(id)} className="text-[10px] text-amber-400 hover:text-white flex items-center gap-1" title="Back to the synced value">
+          <RotateCcw className="w-3 h-3" /> override
+        </button>
+      );
+    }
+    return null;
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      localStorage.setItem('commissioner_name', author.trim());
+      await onSave(Object.entries(pending).map(([id, override]) => ({ id, override })), author.trim(), note.trim());
+      setPending({});
+      setNote('');
+    } catch (e: any) {
+      setError(e.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const pendingCount = Object.keys(pending).length;
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+      <div className="bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl w-full max-w-4xl max-h-[85vh] flex flex-col">
+        <div className="p-6 border-b border-slate-700 flex justify-between items-start">
+          <div>
+            <h3 className="text-xl font-bold text-white flex items-center gap-2">
+              <Gavel className="w-5 h-5 text-indigo-400" />
+              Commissioner Corrections
+            </h3>
+            <p className="text-slate-400 text-sm">Fix what the platform got wrong. Corrections are kept apart from synced data, survive every sync, and are logged with who made them.</p>
+          </div>
+          <button onClick={onClose} className="text-slate-500 hover:text-white p-1"><X className="w-5 h-5" /></button>
+        </div>
+
+        <div className="px-6 pt-4 flex flex-wrap items-center gap-3">
+          <select value={seasonKey} onChange={(e) => setSeasonKey(e.target.value)} className={inputClass}>
+            {seasons.map(s => <option key={s.key} value={s.key}>{s.year}</option>)}
+          </select>
+          <div className="flex gap-1 bg-slate-800 rounded-lg p-1">
+            {TABS.map(t => (
+              <button
+                key={t.id}
+                onClick={() => setTab(t.id)}
+                className={`px-3 py-1 rounded-md text-xs font-bold ${tab === t.id ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-white'}`}
+              >
+                {t.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6">
+          {!season && tab !== 'history' && <div className="text-slate-500 text-sm">No seasons to edit.</div>}
+
+          {season && tab === 'standings' && (
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-slate-500 uppercase tracking-wider text-left">
+                  <th className="pb-2">Manager</th>
+                  {STANDING_FIELDS.map(f => <th key={f} className="pb-2">{STANDING_LABELS[f]}</th>)}
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {teams.map(team => {
+                  const id = overrideId('standing', seasonKey, team.teamKey);
+                  return (
+                    <tr key={team.teamKey} className="border-t border-slate-800">
+                      <td className="py-1.5 text-slate-300">{managerName(team.managerId)}</td>
+                      {STANDING_FIELDS.map(f => (
+                        <td key={f} className="py-1.5 pr-2">
+                          <input
+                            type="number"
+                            value={value(id, f, team.stats[f]) as number}
+                            onChange={(e) => stageNumber('standing', team.teamKey, f, e.target.value)}
+                            className={`${inputClass} w-20`}
+                          />
+                        </td>
+                      ))}
+                      <td className="py-1.5">{statusBadge(id)}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+
+          {season && tab === 'champion' && (() => {
+            const id = overrideId('champion', seasonKey);
+            return (
+              <div className="flex items-center gap-3">
+                <span className="text-slate-300 text-sm">{season.year} champion</span>
+                <select
+                  value={value(id, 'managerId', season.championId) as string}
+                  onChange={(e) => stage('champion', undefined, 'managerId', e.target.value)}
+                  className={inputClass}
+                >
+                  {!season.championId && <option value="">None</option>}
+                  {teams.map(team => <option key={team.teamKey} value={team.managerId}>{managerName(team.managerId)}</option>)}
+                </select>
+                {statusBadge(id)}
+              </div>
+            );
+          })()}
+
+          {season && tab === 'games' && (
+            weeks.length === 0 ? <div className="text-slate-500 text-sm">No games stored for this season.</div> : (
+              <div className="space-y-3">
+                <select value={activeWeek} onChange={(e) => setWeek(parseInt(e.target.value))} className={inputClass}>
+                  {weeks.map(w => <option key={w} value={w}>Week {w}</option>)}
+                </select>
+                <p className="text-xs text-slate-500">Standings are not recalculated from game edits; correct them on the Standings tab too.</p>
+                {(season.games || []).filter(g => g.week === activeWeek).map(game => {
+                  const target = gameTarget(game);
+                  const id = overrideId('game', seasonKey, target);
+                  const winner = current(id)?.changes.winner;
+                  return (
+                    <div key={target} className="bg-slate-800/50 border border-slate-700 rounded-xl p-3 flex flex-wrap items-center gap-3 text-xs">
+                      <span className="text-slate-300 w-28 truncate">{managerName(game.teamA.managerId)}</span>
+                      <input type="number" step="0.01" value={value(id, 'pointsA', game.teamA.points) as number} onChange={(e) => stageNumber('game', target, 'pointsA', e.target.value)} className={`${inputClass} w-24`} />
+                      <span className="text-slate-500">vs</span>
+                      <input type="number" step="0.01" value={value(id, 'pointsB', game.teamB.points) as number} onChange={(e) => stageNumber('game', target, 'pointsB', e.target.value)} className={`${inputClass} w-24`} />
+                      <span className="text-slate-300 w-28 truncate">{managerName(game.teamB.managerId)}</span>
+                      <select
+                        value={typeof winner === 'string' ? winner : ''}
+                        onChange={(e) => stage('game', target, 'winner', e.target.value)}
+                        className={inputClass}
+                        title="Set a winner when the result differs from the score, e.g. a forfeit"
+                      >
+                        <option value="">Winner by score</option>
+                        <option value="A">{managerName(game.teamA.managerId)} wins</option>
+                        <option value="B">{managerName(game.teamB.managerId)} wins</option>
+                        <option value="tie">Tie</option>
+                      </select>
+                      {statusBadge(id)}
+                    </div>
+                  );
+                })}
+              </div>
+            )
+          )}
+
+          {season && tab === 'draft' && (
+            !season.draft?.length ? <div className="text-slate-500 text-sm">No draft stored for this season.</div> : (
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-slate-500 uppercase tracking-wider text-left">
+                    <th className="pb-2">Pick</th>
+                    <th className="pb-2">Player</th>
+                    <th className="pb-2">Manager</th>
+                    {season.draftType === 'auction' && <th className="pb-2">Cost</th>}
+                    <th className="pb-2">Keeper</th>
+                    <th />
+                  </tr>
+                </thead>
+                <tbody>
+                  {season.draft.map(pick => {
+                    const target = String(pick.pick);
+                    const id = overrideId('draftPick', seasonKey, target);
+                    return (
+                      <tr key={pick.pick} className="border-t border-slate-800">
+                        <td className="py-1.5 text-slate-500">{pick.round}.{pick.pick}</td>
+                        <td className="py-1.5 pr-2">
+                          <input value={value(id, 'player', pick.player) as string} onChange={(e) => stage('draftPick', target, 'player', e.target.value)} className={`${inputClass} w-full`} />
+                        </td>
+                        <td className="py-1.5 pr-2">
+                          <select value={value(id, 'managerId', pick.managerId) as string} onChange={(e) => stage('draftPick', target, 'managerId', e.target.value)} className={inputClass}>
+                            {teams.map(team => <option key={team.teamKey} value={team.managerId}>{managerName(team.managerId)}</option>)}
+                          </select>
+                        </td>
+                        {season.draftType === 'auction' && (
+                          <td className="py-1.5 pr-2">
+                            <input type="number" value={(value(id, 'cost', pick.cost) as number) ?? ''} onChange={(e) => stageNumber('draftPick', target, 'cost', e.target.value)} className={`${inputClass} w-20`} />
+                          </td>
+                        )}
+                        <td className="py-1.5 pr-2">
+                          <input type="checkbox" checked={!!value(id, 'isKeeper', pick.isKeeper)} onChange={(e) => stage('draftPick', target, 'isKeeper', e.target.checked)} className="accent-indigo-500" />
+                        </td>
+                        <td className="py-1.5">{statusBadge(id)}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            )
+          )}
+
+          {tab === 'history' && (
+            audit.length === 0 ? <div className="text-slate-500 text-sm">No corrections have been made yet.</div> : (
+              <div className="space-y-2">
+                {audit.map((entry, i) => (
+                  <div key={i} className="bg-slate-800/50 border border-slate-700 rounded-xl p-3 text-xs">
+                    <div className="flex justify-between gap-4">
+                      <span className="text-white font-bold">{describeOverride(data, entry.kind, entry.seasonKey, entry.target)}</span>
+                      <span className="text-slate-500 shrink-0">{entry.author} · {new Date(entry.at).toLocaleString()}</span>
+                    </div>
+                    <div className={entry.action === 'remove' ? 'text-yellow-400' : 'text-slate-300'}>
+                      {entry.action === 'remove' ? `Reset to synced data (was ${formatChanges(undefined, entry.previous)})` : formatChanges(entry.changes, entry.previous)}
+                    </div>
+                    {entry.note && <div className="text-slate-500 italic mt-1">{entry.note}</div>}
+                  </div>
+                ))}
+              </div>
+            )
+          )}
+        </div>
+
+        <div className="p-6 border-t border-slate-700 flex flex-wrap items-center gap-3">
+          <input value={author} onChange={(e) => setAuthor(e.target.value)} placeholder="Your name" className={`${inputClass} w-36`} />
+          <input value={note} onChange={(e) => setNote(e.target.value)} placeholder="Reason (e.g. week 9 forfeit ruling)" className={`${inputClass} flex-1 min-w-[180px]`} />
+          <span className="text-red-400 text-xs">{error}</span>
+          <button
+            onClick={handleSave}
+            disabled={saving || pendingCount === 0 || !author.trim()}
+            className="flex items-center gap-2 bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 text-white px-5 py-2 rounded-lg font-bold text-sm"
+            title={!author.trim() ? 'Enter your name so the change can be attributed' : undefined}
+          >
+            {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />} Save{pendingCount > 0 ? ` ${pendingCount}` : ''}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
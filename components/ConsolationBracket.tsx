@@ -0,0 +1,140 @@
+import React, { useState, useMemo } from 'react';
+import { LeagueData, Game } from '../types';
+import { winnerOf } from '../services/playoffs';
+import { Skull, AlertTriangle } from 'lucide-react';
+
+interface ConsolationBracketProps {
+  data: LeagueData;
+}
+
+export const ConsolationBracket: React.FC<ConsolationBracketProps> = ({ data }) => {
+  // Only seasons with tagged consolation games have a bracket to show
+  const bracketSeasons = useMemo(() => {
+    return data.seasons
+      .filter(s => (s.games || []).some(g => g.isConsolation))
+      .sort((a, b) => b.year - a.year);
+  }, [data]);
+
+  const [selectedYear, setSelectedYear] = useState<number | null>(bracketSeasons[0]?.year ?? null);
+  const activeSeason = bracketSeasons.find(s => s.year === selectedYear) || bracketSeasons[0];
+
+  const rounds = useMemo(() => {
+    if (!activeSeason) return [];
+    const byRound = new Map<number, Game[]>();
+    (activeSeason.games || []).filter(g => g.isConsolation).forEach(g => {
+      const round = g.playoffRound || g.week;
+      byRound.set(round, [...(byRound.get(round) || []), g]);
+    });
+    return Array.from(byRound.entries()).sort((a, b) => a[0] - b[0]);
+  }, [activeSeason]);
+
+  // The Sacko: last place in Yahoo's final standings, which includes consolation results
+  const sacko = activeSeason
+    ? [...activeSeason.standings].sort((a, b) => b.stats.rank - a.stats.rank)[0]
+    : undefined;
+  const sackoManager = data.managers.find(m => m.id === sacko?.managerId);
+
+  // All-time last-place finishes
+  const sackoCounts = useMemo(() => {
+    const counts: Record<string, number> = {};
+    data.seasons.forEach(s => {
+      const last = s.standings.find(st => st.stats.rank === s.standings.length);
+      if (last) counts[last.managerId] = (counts[last.managerId] || 0) + 1;
+    });
+    return Object.entries(counts)
+      .map(([id, count]) => ({ manager: data.managers.find(m => m.id === id), count }))
+      .filter(x => x.manager)
+      .sort((a, b) => b.count - a.count)
+      .slice(0, 5);
+  }, [data]);
+
+  const managerName = (id: string) => data.managers.find(m => m.id === id)?.name || 'Unknown';
+
+  return (
+    <div className="space-y-8 animate-in fade-in duration-500">
+      <div className="bg-slate-800 rounded-xl border border-slate-700 shadow-xl overflow-hidden">
+        <div className="p-6 border-b border-slate-700 bg-slate-800/50 flex flex-col md:flex-row gap-4 justify-between items-center">
+          <div>
+            <h3 className="text-xl font-bold text-white flex items-center gap-2">
+              <Skull className="w-5 h-5 text-red-400" />
+              Consolation Bracket
+            </h3>
+            <p className="text-slate-400 text-xs mt-1">Playoff-week games outside the championship bracket</p>
+          </div>
+
+          {bracketSeasons.length > 0 && (
+            <select
+              value={activeSeason?.year}
+              onChange={(e) => setSelectedYear(parseInt(e.target.value))}
+              className="bg-slate-900 text-white border border-slate-600 rounded-lg px-3 py-2 focus:ring-2 focus:ring-red-500 outline-none"
+            >
+              {bracketSeasons.map(s => <option key={s.key} value={s.year}>{s.year} Season</option>)}
+            </select>
+          )}
+        </div>
+
+        {!activeSeason ? (
+          <div className="p-12 text-center flex flex-col items-center">
+            <AlertTriangle className="w-8 h-8 text-slate-600 mb-2" />
+            <p className="text-slate-400 text-sm">No consolation games found.</p>
+            <p className="text-xs text-slate-500 mt-1">Run a full re-sync to tag consolation games in older seasons.</p>
+          </div>
+        ) : (
+          <div className="p-6 space-y-6">
+            {sackoManager && (
+              <div className="flex items-center gap-4 bg-red-500/10 border border-red-500/20 rounded-xl p-4">
+                <img src={sackoManager.avatar} alt="" className="w-10 h-10 rounded-full border border-red-500/50" />
+                <div>
+                  <div className="text-[10px] text-red-400 font-bold uppercase tracking-wider">{activeSeason.year} Sacko</div>
+                  <div className="text-white font-bold">{sackoManager.name}</div>
+                </div>
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {rounds.map(([round, games]) => (
+                <div key={round}>
+                  <h4 className="text-xs font-bold uppercase tracking-wider text-slate-500 mb-2">Round {round} · Week {games[0].week}</h4>
+                  <div className="space-y-2">
+                    {games.map((g, idx) => {
+                      const winner = winnerOf(g);
+                      const aWon = winner === g.teamA.teamKey;
+                      const bWon = winner === g.teamB.teamKey;
+                      return (
+                        <div key={idx} className="bg-slate-900/50 rounded-lg border border-slate-700/50 text-xs divide-y divide-slate-700/50">
+                          <div className="flex justify-between px-3 py-2">
+                            <span className={aWon ? 'text-white font-bold' : 'text-slate-400'}>{managerName(g.teamA.managerId)}</span>
+                            <span className="font-mono text-slate-300">{g.teamA.points.toFixed(1)}</span>
+                          </div>
+                          <div className="flex justify-between px-3 py-2">
+                            <span className={bWon ? 'text-white font-bold' : 'text-slate-400'}>{managerName(g.teamB.managerId)}</span>
+                            <span className="font-mono text-slate-300">{g.teamB.points.toFixed(1)}</span>
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {sackoCounts.length > 0 && (
+        <div className="bg-slate-800 rounded-xl border border-slate-700 shadow-xl p-6">
+          <h3 className="text-lg font-bold text-white mb-4">Most Last-Place Finishes</h3>
+          <div className="space-y-2">
+            {sackoCounts.map(({ manager, count }) => (
+              <div key={manager!.id} className="flex items-center gap-3 p-2 bg-slate-900/50 rounded-lg border border-slate-700/50">
+                <img src={manager!.avatar} alt="" className="w-8 h-8 rounded-full border border-slate-600" />
+                <div className="flex-1 font-bold text-white text-sm">{manager!.name}</div>
+                <div className="text-lg font-bold text-red-400">{count}</div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
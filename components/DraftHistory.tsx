@@ -1,6 +1,7 @@
 import React, { useState, useMemo } from 'react';
 import { LeagueData } from '../types';
-import { Search, Filter } from 'lucide-react';
+import { buildPlayerIndex, lookupPlayer, playsPosition, PLAYER_POSITIONS } from '../services/players';
+import { Search, Filter, DollarSign, Lock } from 'lucide-react';
 
 interface DraftHistoryProps {
   data: LeagueData;
@@ -10,6 +11,10 @@ interface DraftHistoryProps {
 export const DraftHistory: React.FC<DraftHistoryProps> = ({ data }) => {
   const [selectedYear, setSelectedYear] = useState<number>(data.seasons[data.seasons.length - 1].year);
   const [searchTerm, setSearchTerm] = useState('');
+  const [showAuction, setShowAuction] = useState(true);
+  const [position, setPosition] = useState('all');
+
+  const players = useMemo(() => buildPlayerIndex(data.players), [data.players]);
 
   const availableYears = data.seasons.map(s => s.year).sort((a, b) => b - a);
   const activeSeason = data.seasons.find(s => s.year === selectedYear);
@@ -18,6 +23,8 @@ export const DraftHistory: React.FC<DraftHistoryProps> = ({ data }) => {
     if (!activeSeason?.draft) return [];
     
     return activeSeason.draft.filter(pick => {
+      if (!playsPosition(lookupPlayer(players, pick.playerKey), position)) return false;
+
       const mgr = data.managers.find(m => m.id === pick.managerId);
       const mgrName = mgr ? mgr.name.toLowerCase() : '';
       const term = searchTerm.toLowerCase();
@@ -27,7 +34,37 @@ export const DraftHistory: React.FC<DraftHistoryProps> = ({ data }) => {
              pName.toLowerCase().includes(term) ||
              pick.pick.toString() === term;
     });
-  }, [activeSeason, searchTerm, data.managers]);
+  }, [activeSeason, searchTerm, position, players, data.managers]);
+
+  const isAuction = activeSeason?.draftType === 'auction' || !!activeSeason?.draft?.some(p => p.cost !== undefined);
+
+  // Spend per manager plus the priciest players, for auction drafts
+  const auction = useMemo(() => {
+    if (!activeSeason?.draft || !isAuction) return null;
+    // Set by the platform parsers; hand-imported auctions don't know theirs
+    const budget = activeSeason.auctionBudget;
+
+    const spend: Record<string, { spent: number; picks: number; top: number; keepers: number }> = {};
+    activeSeason.draft.forEach(pick => {
+      const entry = spend[pick.managerId] || { spent: 0, picks: 0, top: 0, keepers: 0 };
+      entry.spent += pick.cost || 0;
+      entry.picks++;
+      entry.top = Math.max(entry.top, pick.cost || 0);
+      if (pick.isKeeper) entry.keepers++;
+      spend[pick.managerId] = entry;
+    });
+
+    const managers = Object.entries(spend)
+      .map(([id, e]) => ({ ...e, manager: data.managers.find(m => m.id === id), left: budget !== undefined ? budget - e.spent : undefined }))
+      .sort((a, b) => b.spent - a.spent);
+
+    const priciest = [...activeSeason.draft].filter(p => p.cost !== undefined).sort((a, b) => (b.cost || 0) - (a.cost || 0)).slice(0, 10);
+
+    // Bars are scaled to the budget, or to the biggest spender when it's unknown
+    const scale = budget || Math.max(1, ...managers.map(m => m.spent));
+
+    return { budget, scale, managers, priciest };
+  }, [activeSeason, isAuction, data.managers]);
 
   if (!activeSeason) return <div>No data</div>;
 
@@ -42,10 +79,29 @@ export const DraftHistory: React.FC<DraftHistoryProps> = ({ data }) => {
           </h3>
           <p className="text-slate-400 text-xs mt-1 flex items-center gap-2">
              {activeSeason.draft ? `${activeSeason.draft.length} picks recorded` : 'No draft data available'}
+             {isAuction && <span className="text-emerald-400 font-bold">· Auction</span>}
           </p>
         </div>
 
         <div className="flex gap-3 w-full md:w-auto">
+           {isAuction && (
+             <div className="flex bg-slate-900 rounded-lg border border-slate-600 p-1">
+               <button onClick={() => setShowAuction(true)} className={`px-3 py-1 rounded text-xs font-bold ${showAuction ? 'bg-emerald-600 text-white' : 'text-slate-400 hover:text-white'}`}>Auction</button>
+               <button onClick={() => setShowAuction(false)} className={`px-3 py-1 rounded text-xs font-bold ${!showAuction ? 'bg-emerald-600 text-white' : 'text-slate-400 hover:text-white'}`}>Picks</button>
+             </div>
+           )}
+
+           {players.size > 0 && (
+             <select
+               value={position}
+               onChange={(e) => setPosition(e.target.value)}
+               className="bg-slate-900 text-white border border-slate-600 rounded-lg px-3 py-2 focus:ring-2 focus:ring-emerald-500 outline-none"
+             >
+               <option value="all">All Positions</option>
+               {PLAYER_POSITIONS.map(p => <option key={p} value={p}>{p}</option>)}
+             </select>
+           )}
+
            <select 
              value={selectedYear}
              onChange={(e) => setSelectedYear(parseInt(e.target.value))}
@@ -67,6 +123,48 @@ export const DraftHistory: React.FC<DraftHistoryProps> = ({ data }) => {
         </div>
       </div>
 
+      {/* Auction Summary */}
+      {auction && showAuction && (
+        <div className="p-6 border-b border-slate-700 grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div>
+            <h4 className="text-xs font-bold uppercase tracking-wider text-emerald-400 mb-3 flex items-center gap-1">
+              <DollarSign className="w-3 h-3" /> Spend by Manager{auction.budget !== undefined && ` ($${auction.budget} budget)`}
+            </h4>
+            <div className="space-y-2">
+              {auction.managers.map(row => (
+                <div key={row.manager?.id || 'unknown'} className="text-xs">
+                  <div className="flex justify-between mb-1">
+                    <span className="text-slate-200 font-medium">{row.manager?.name || 'Unknown'}</span>
+                    <span className="text-slate-400 font-mono">
+                      ${row.spent} spent · {row.left !== undefined && <><span className={row.left > 0 ? 'text-emerald-400' : 'text-slate-500'}>${row.left} left</span> · </>}top ${row.top}
+                    </span>
+                  </div>
+                  <div className="h-1.5 bg-slate-700 rounded-full overflow-hidden">
+                    <div className="h-full bg-emerald-500 rounded-full" style={{ width: `${Math.min(100, (row.spent / auction.scale) * 100)}%` }} />
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+          <div>
+            <h4 className="text-xs font-bold uppercase tracking-wider text-yellow-400 mb-3">Most Expensive Players</h4>
+            <div className="space-y-1">
+              {auction.priciest.map((pick, idx) => {
+                const mgr = data.managers.find(m => m.id === pick.managerId);
+                return (
+                  <div key={`${pick.round}-${pick.pick}`} className="flex items-center gap-3 bg-slate-900/50 rounded px-3 py-1.5 text-xs">
+                    <span className="text-slate-600 font-mono w-4">{idx + 1}</span>
+                    <span className="text-white font-medium flex-1">{pick.player}{pick.isKeeper && <Lock className="w-3 h-3 text-sky-400 inline ml-1" />}</span>
+                    <span className="text-slate-400">{mgr?.name || 'Unknown'}</span>
+                    <span className="text-emerald-400 font-mono font-bold w-10 text-right">${pick.cost}</span>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Content */}
       <div className="overflow-x-auto">
         {!activeSeason.draft || activeSeason.draft.length === 0 ? (
@@ -81,11 +179,13 @@ export const DraftHistory: React.FC<DraftHistoryProps> = ({ data }) => {
                 <th className="px-6 py-4">Round</th>
                 <th className="px-6 py-4">Manager</th>
                 <th className="px-6 py-4">Player</th>
+                {isAuction && <th className="px-6 py-4 text-right">Cost</th>}
               </tr>
             </thead>
             <tbody className="divide-y divide-slate-700/50">
               {filteredPicks.map((pick) => {
                  const mgr = data.managers.find(m => m.id === pick.managerId);
+                 const info = lookupPlayer(players, pick.playerKey);
                  
                  return (
                    <tr key={`${pick.round}-${pick.pick}`} className="hover:bg-slate-700/30 transition-colors">
@@ -103,7 +203,22 @@ export const DraftHistory: React.FC<DraftHistoryProps> = ({ data }) => {
                      </td>
                      <td className="px-6 py-4 text-slate-300">
                        <span className="text-white font-medium">{pick.player}</span>
+                       {info?.position && (
+                         <span className="ml-2 text-xs text-slate-500">
+                           {info.position}{info.nflTeam && ` · ${info.nflTeam}`}
+                         </span>
+                       )}
+                       {pick.isKeeper && (
+                         <span className="ml-2 text-[10px] font-bold uppercase px-1.5 py-0.5 rounded bg-sky-500/10 text-sky-400 inline-flex items-center gap-1">
+                           <Lock className="w-2.5 h-2.5" /> Keeper
+                         </span>
+                       )}
                      </td>
+                     {isAuction && (
+                       <td className="px-6 py-4 text-right font-mono text-emerald-400 font-bold">
+                         {pick.cost !== undefined ? `$${pick.cost}` : '-'}
+                       </td>
+                     )}
                    </tr>
                  );
               })}
@@ -0,0 +1,131 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { LeagueData, SeasonRosters } from '../types';
+import { fetchSeasonRosters } from '../services/firebaseService';
+import { summarizeEfficiency } from '../services/lineupEfficiency';
+import { resolveManagerId } from '../services/managerAliases';
+import { ClipboardList, Loader2, AlertTriangle } from 'lucide-react';
+
+// Loads the stored roster snapshots for every season that has them
+export const useSeasonRosters = (leagueId: string | null | undefined, data: LeagueData) => {
+  const [rosters, setRosters] = useState<Record<string, SeasonRosters>>({});
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    const seasons = data.seasons.filter(s => s.rosterWeeks && s.rosterWeeks.length > 0);
+    if (!leagueId || seasons.length === 0) {
+      setRosters({});
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    Promise.all(seasons.map(async s => ({ key: s.key, rosters: await fetchSeasonRosters(leagueId, s.key) })))
+      .then(results => {
+        if (cancelled) return;
+        const byKey: Record<string, SeasonRosters> = {};
+        results.forEach(r => {
+          // Snapshots hold raw manager ids; map merged accounts onto their canonical manager
+          Object.values(r.rosters).forEach(teams => teams.forEach(t => { t.managerId = resolveManagerId(data, t.managerId); }));
+          byKey[r.key] = r.rosters;
+        });
+        setRosters(byKey);
+      })
+      .catch(e => console.warn("Could not load roster snapshots", e))
+      .finally(() => { if (!cancelled) setLoading(false); });
+
+    return () => { cancelled = true; };
+  }, [leagueId, data]);
+
+  return { rosters, loading };
+};
+
+interface LineupEfficiencyProps {
+  data: LeagueData;
+  leagueId?: string | null;
+}
+
+export const LineupEfficiency: React.FC<LineupEfficiencyProps> = ({ data, leagueId }) => {
+  const { rosters, loading } = useSeasonRosters(leagueId, data);
+  const [selectedYear, setSelectedYear] = useState<number | 'all'>('all');
+
+  const rosterSeasons = data.seasons.filter(s => rosters[s.key]).sort((a, b) => b.year - a.year);
+
+  const rows = useMemo(() => {
+    const seasons = selectedYear === 'all' ? data.seasons : data.seasons.filter(s => s.year === selectedYear);
+    return summarizeEfficiency(seasons, rosters).map(row => ({
+      ...row,
+      manager: data.managers.find(m => m.id === row.managerId)
+    }));
+  }, [data, rosters, selectedYear]);
+
+  return (
+    <div className="bg-slate-800 rounded-xl border border-slate-700 shadow-xl p-6">
+      <div className="flex justify-between items-start mb-6">
+        <div>
+          <h3 className="text-xl font-bold text-white flex items-center gap-2">
+            <ClipboardList className="w-5 h-5 text-emerald-400" />
+            Lineup Efficiency
+          </h3>
+          <p className="text-slate-400 text-sm">Points scored vs the best legal lineup from the same roster</p>
+        </div>
+        {rosterSeasons.length > 0 && (
+          <select
+            value={selectedYear}
+            onChange={(e) => setSelectedYear(e.target.value === 'all' ? 'all' : parseInt(e.target.value))}
+            className="bg-slate-900 text-white border border-slate-600 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-emerald-500 outline-none"
+          >
+            <option value="all">Career</option>
+            {rosterSeasons.map(s => <option key={s.key} value={s.year}>{s.year} Season</option>)}
+          </select>
+        )}
+      </div>
+
+      {loading ? (
+        <div className="p-8 flex justify-center"><Loader2 className="w-6 h-6 text-slate-500 animate-spin" /></div>
+      ) : rows.length === 0 ? (
+        <div className="flex flex-col items-center justify-center text-center p-8 border border-dashed border-slate-700 rounded-xl bg-slate-900/30">
+          <AlertTriangle className="w-8 h-8 text-slate-600 mb-2" />
+          <p className="text-slate-400 text-sm">No roster data yet.</p>
+          <p className="text-xs text-slate-500 mt-1">Run a sync with "Include weekly rosters" enabled.</p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-left border-collapse">
+            <thead className="bg-slate-900/50 text-slate-400 text-xs uppercase tracking-wider font-semibold">
+              <tr>
+                <th className="px-4 py-3">Manager</th>
+                <th className="px-4 py-3 text-center">Efficiency</th>
+                <th className="px-4 py-3 text-center">Points Left</th>
+                <th className="px-4 py-3 text-center">Bench Pts</th>
+                <th className="px-4 py-3 text-right">Worst Week</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-700/30 text-sm">
+              {rows.map(row => (
+                <tr key={row.managerId} className="hover:bg-slate-700/20">
+                  <td className="px-4 py-3 font-medium text-white">{row.manager?.name || 'Unknown'}</td>
+                  <td className="px-4 py-3 text-center">
+                    <span className={`font-bold ${row.efficiency >= 90 ? 'text-emerald-400' : row.efficiency < 80 ? 'text-red-400' : 'text-slate-300'}`}>
+                      {row.efficiency.toFixed(1)}%
+                    </span>
+                    <span className="text-slate-600 text-[10px] block">{row.weeks} weeks</span>
+                  </td>
+                  <td className="px-4 py-3 text-center text-slate-300 font-mono">{row.pointsLeft.toFixed(1)}</td>
+                  <td className="px-4 py-3 text-center text-slate-400 font-mono">{row.benchPoints.toFixed(1)}</td>
+                  <td className="px-4 py-3 text-right text-xs text-slate-400">
+                    {row.worstWeek && (
+                      <>
+                        <span className="text-red-400 font-bold">-{row.worstWeek.pointsLeft.toFixed(1)}</span>
+                        <span className="text-slate-600 block">{row.worstWeek.year} W{row.worstWeek.week}</span>
+                      </>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,147 @@
+import React, { useState } from 'react';
+import { LeagueData, ManagerAliasMap, ManagerIdentity } from '../types';
+import { mergeManagerInto, unmergeManager } from '../services/managerAliases';
+import { UserCog, GitMerge, Undo2, Loader2, Save, X } from 'lucide-react';
+
+interface ManagerAdminProps {
+  data: LeagueData; // Aliases already applied
+  aliases: ManagerAliasMap;
+  onSave: (aliases: ManagerAliasMap) => Promise<void>;
+  onClose: () => void;
+}
+
+export const ManagerAdmin: React.FC<ManagerAdminProps> = ({ data, aliases, onSave, onClose }) => {
+  const [draft, setDraft] = useState<ManagerAliasMap>(aliases);
+  const [mergeTarget, setMergeTarget] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Managers folded into someone else in this session disappear from the list until saved
+  const pendingMerged = new Set(Object.values(draft).flatMap(identity => (identity.merged || []).map(m => m.id)));
+  const managers = data.managers.filter(m => !pendingMerged.has(m.id)).sort((a, b) => a.name.localeCompare(b.name));
+
+  const updateIdentity = (id: string, patch: Partial<ManagerIdentity>) => {
+    setDraft(prev => ({ ...prev, [id]: { ...prev[id], ...patch } }));
+  };
+
+  const handleMerge = (targetId: string) => {
+    const source = data.managers.find(m => m.id === mergeTarget[targetId]);
+    if (!source) return;
+    setDraft(prev => mergeManagerInto(prev, targetId, { id: source.id, name: source.name }));
+    setMergeTarget(prev => ({ ...prev, [targetId]: '' }));
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      // Blank overrides fall back to the synced name / avatar
+      const cleaned: ManagerAliasMap = {};
+      Object.entries(draft).forEach(([id, identity]) => {
+        const entry: ManagerIdentity = {
+          name: identity.name?.trim() || undefined,
+          avatar: identity.avatar?.trim() || undefined,
+          merged: identity.merged && identity.merged.length > 0 ? identity.merged : undefined
+        };
+        if (entry.name || entry.avatar || entry.merged) cleaned[id] = entry;
+      });
+      await onSave(cleaned);
+      onClose();
+    } catch (e: any) {
+      setError(e.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+      <div className="bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl w-full max-w-3xl max-h-[85vh] flex flex-col">
+        <div className="p-6 border-b border-slate-700 flex justify-between items-start">
+          <div>
+            <h3 className="text-xl font-bold text-white flex items-center gap-2">
+              <UserCog className="w-5 h-5 text-indigo-400" />
+              Managers
+            </h3>
+            <p className="text-slate-400 text-sm">Set display names and merge accounts that belong to the same person. Applied after every sync.</p>
+          </div>
+          <button onClick={onClose} className="text-slate-500 hover:text-white p-1"><X className="w-5 h-5" /></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-3">
+          {managers.map(manager => {
+            const identity = draft[manager.id] || {};
+            const others = managers.filter(m => m.id !== manager.id);
+            return (
+              <div key={manager.id} className="bg-slate-800/50 border border-slate-700 rounded-xl p-4 space-y-3">
+                <div className="flex items-center gap-3">
+                  <img src={identity.avatar || manager.avatar} alt="" className="w-10 h-10 rounded-full border border-slate-600 shrink-0" />
+                  <input
+                    type="text"
+                    value={identity.name ?? ''}
+                    placeholder={manager.name}
+                    onChange={(e) => updateIdentity(manager.id, { name: e.target.value })}
+                    className="flex-1 bg-slate-900 border border-slate-600 rounded-lg px-3 py-2 text-sm text-white placeholder-slate-500 focus:ring-2 focus:ring-indigo-500 outline-none"
+                  />
+                  <input
+                    type="text"
+                    value={identity.avatar ?? ''}
+                    placeholder="Avatar URL"
+                    onChange={(e) => updateIdentity(manager.id, { avatar: e.target.value })}
+                    className="flex-1 bg-slate-900 border border-slate-600 rounded-lg px-3 py-2 text-sm text-white placeholder-slate-500 focus:ring-2 focus:ring-indigo-500 outline-none"
+                  />
+                </div>
+
+                {(identity.merged || []).length > 0 && (
+                  <div className="flex flex-wrap gap-2">
+                    {identity.merged!.map(m => (
+                      <span key={m.id} className="text-xs bg-indigo-500/10 text-indigo-300 border border-indigo-500/30 rounded-full pl-3 pr-1 py-1 flex items-center gap-1">
+                        {m.name}
+                        <button
+                          onClick={() => setDraft(prev => unmergeManager(prev, manager.id, m.id))}
+                          className="p-0.5 rounded-full hover:bg-indigo-500/20"
+                          title="Unmerge"
+                        >
+                          <Undo2 className="w-3 h-3" />
+                        </button>
+                      </span>
+                    ))}
+                  </div>
+                )}
+
+                <div className="flex items-center gap-2">
+                  <select
+                    value={mergeTarget[manager.id] || ''}
+                    onChange={(e) => setMergeTarget(prev => ({ ...prev, [manager.id]: e.target.value }))}
+                    className="flex-1 bg-slate-900 border border-slate-600 rounded-lg px-3 py-1.5 text-xs text-slate-300 focus:ring-2 focus:ring-indigo-500 outline-none"
+                  >
+                    <option value="">Merge another manager into {identity.name || manager.name}...</option>
+                    {others.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+                  </select>
+                  <button
+                    onClick={() => handleMerge(manager.id)}
+                    disabled={!mergeTarget[manager.id]}
+                    className="flex items-center gap-1 bg-slate-700 hover:bg-slate-600 disabled:opacity-40 text-white px-3 py-1.5 rounded-lg text-xs font-bold"
+                  >
+                    <GitMerge className="w-3 h-3" /> Merge
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="p-6 border-t border-slate-700 flex items-center justify-between gap-4">
+          <span className="text-red-400 text-xs">{error}</span>
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="flex items-center gap-2 bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 text-white px-5 py-2 rounded-lg font-bold text-sm"
+          >
+            {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />} Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
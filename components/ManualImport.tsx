@@ -0,0 +1,170 @@
+import React, { useMemo, useState } from 'react';
+import { LeagueData, ManagerAliasMap } from '../types';
+import { IMPORT_COLUMNS, ImportKind, ImportRow, buildManualSeasons, collectManagerNames, matchManagerNames, parseImportFile } from '../services/manualImport';
+import { FileUp, AlertCircle, CheckCircle2, Loader2, Save, X } from 'lucide-react';
+
+interface ManualImportProps {
+  data: LeagueData; // Aliases already applied
+  aliases: ManagerAliasMap;
+  onImport: (incoming: LeagueData) => Promise<void>;
+  onClose: () => void;
+}
+
+const KIND_LABELS: Record<ImportKind, string> = {
+  standings: 'Standings',
+  results: 'Weekly Results',
+  draft: 'Draft Results'
+};
+
+const NEW_MANAGER = '';
+
+export const ManualImport: React.FC<ManualImportProps> = ({ data, aliases, onImport, onClose }) => {
+  const [files, setFiles] = useState<Partial<Record<ImportKind, { name: string; rows: ImportRow[] }>>>({});
+  const [fileErrors, setFileErrors] = useState<Partial<Record<ImportKind, string>>>({});
+  const [overrides, setOverrides] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const rows = useMemo(() => Object.fromEntries(Object.entries(files).map(([kind, file]) => [kind, file!.rows])) as Partial<Record<ImportKind, ImportRow[]>>, [files]);
+  const names = useMemo(() => collectManagerNames(rows), [rows]);
+  const matched = useMemo(() => matchManagerNames(names, data.managers, aliases), [names, data.managers, aliases]);
+
+  // Automatic matches can be changed; anything left on "New manager" is created on import
+  const mapping = useMemo(() => {
+    const result: Record<string, string> = {};
+    names.forEach(name => {
+      const id = overrides[name] ?? matched[name] ?? NEW_MANAGER;
+      if (id !== NEW_MANAGER) result[name] = id;
+    });
+    return result;
+  }, [names, matched, overrides]);
+
+  const { data: incoming, issues } = useMemo(() => buildManualSeasons(rows, mapping, data), [rows, mapping, data]);
+  const managers = useMemo(() => [...data.managers].sort((a, b) => a.name.localeCompare(b.name)), [data.managers]);
+  const replacing = incoming.seasons.filter(s => data.seasons.some(stored => stored.key === s.key));
+
+  const handleFile = async (kind: ImportKind, file?: File) => {
+    if (!file) return;
+    try {
+      const parsed = parseImportFile(await file.text(), file.name);
+      const missing = IMPORT_COLUMNS[kind].required.filter(col => !parsed.some(row => col in row));
+      if (missing.length > 0) throw new Error(`Missing column${missing.length > 1 ? 's' : ''}: ${missing.join(', ')}`);
+      setFiles(prev => ({ ...prev, [kind]: { name: file.name, rows: parsed } }));
+      setFileErrors(prev => ({ ...prev, [kind]: undefined }));
+    } catch (e: any) {
+      setFiles(prev => ({ ...prev, [kind]: undefined }));
+      setFileErrors(prev => ({ ...prev, [kind]: e.message }));
+    }
+  };
+
+  const handleImport = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      await onImport(incoming);
+      onClose();
+    } catch (e: any) {
+      setError(e.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+      <div className="bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl w-full max-w-3xl max-h-[85vh] flex flex-col">
+        <div className="p-6 border-b border-slate-700 flex justify-between items-start">
+          <div>
+            <h3 className="text-xl font-bold text-white flex items-center gap-2">
+              <FileUp className="w-5 h-5 text-indigo-400" />
+              Import Seasons
+            </h3>
+            <p className="text-slate-400 text-sm">Add seasons kept outside any platform from CSV or JSON files. Standings are required; results and drafts are optional.</p>
+          </div>
+          <button onClick={onClose} className="text-slate-500 hover:text-white p-1"><X className="w-5 h-5" /></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          <div className="space-y-3">
+            {(Object.keys(IMPORT_COLUMNS) as ImportKind[]).map(kind => (
+              <div key={kind} className="bg-slate-800/50 border border-slate-700 rounded-xl p-4">
+                <div className="flex items-center justify-between gap-4">
+                  <div>
+                    <div className="text-white font-bold text-sm">{KIND_LABELS[kind]}</div>
+                    <div className="text-xs text-slate-500 font-mono">
+                      {IMPORT_COLUMNS[kind].required.join(', ')}
+                      <span className="text-slate-600"> [{IMPORT_COLUMNS[kind].optional.join(', ')}]</span>
+                    </div>
+                  </div>
+                  <input
+                    type="file"
+                    accept=".csv,.json,text/csv,application/json"
+                    onChange={(e) => handleFile(kind, e.target.files?.[0])}
+                    className="text-xs text-slate-400 max-w-[220px] file:mr-3 file:bg-slate-700 file:border-0 file:text-white file:px-3 file:py-1.5 file:rounded-lg"
+                  />
+                </div>
+                {files[kind] && <div className="text-xs text-emerald-400 mt-2">{files[kind]!.name}: {files[kind]!.rows.length} rows</div>}
+                {fileErrors[kind] && <div className="text-xs text-red-400 mt-2">{fileErrors[kind]}</div>}
+              </div>
+            ))}
+          </div>
+
+          {names.length > 0 && (
+            <div>
+              <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">Managers</h4>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                {names.map(name => (
+                  <div key={name} className="flex items-center gap-2 text-sm">
+                    <span className="text-slate-300 w-32 truncate" title={name}>{name}</span>
+                    <select
+                      value={overrides[name] ?? matched[name] ?? NEW_MANAGER}
+                      onChange={(e) => setOverrides(prev => ({ ...prev, [name]: e.target.value }))}
+                      className="flex-1 bg-slate-900 border border-slate-600 rounded-lg px-2 py-1 text-xs text-slate-300 focus:ring-2 focus:ring-indigo-500 outline-none"
+                    >
+                      <option value={NEW_MANAGER}>New manager</option>
+                      {managers.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+                    </select>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {issues.length > 0 && (
+            <div className="bg-red-500/10 border border-red-500/20 rounded-xl p-4 text-xs text-red-400 space-y-1">
+              <div className="font-bold flex items-center gap-2"><AlertCircle className="w-4 h-4" /> {issues.length} problem{issues.length > 1 ? 's' : ''} to fix before importing</div>
+              {issues.slice(0, 20).map((issue, i) => (
+                <div key={i}>{KIND_LABELS[issue.kind]} row {issue.row}: {issue.message}</div>
+              ))}
+              {issues.length > 20 && <div>...and {issues.length - 20} more</div>}
+            </div>
+          )}
+
+          {issues.length === 0 && incoming.seasons.length > 0 && (
+            <div className="bg-emerald-500/10 border border-emerald-500/20 rounded-xl p-4 text-xs text-emerald-300 space-y-1">
+              <div className="font-bold flex items-center gap-2"><CheckCircle2 className="w-4 h-4" /> Ready to import</div>
+              {incoming.seasons.map(s => (
+                <div key={s.key}>
+                  {s.year}: {s.standings.length} teams, {s.games?.length || 0} games, {s.draft?.length || 0} picks
+                  {replacing.includes(s) && <span className="text-yellow-400"> (replaces the earlier import)</span>}
+                </div>
+              ))}
+              {incoming.managers.length > 0 && <div>New managers: {incoming.managers.map(m => m.name).join(', ')}</div>}
+            </div>
+          )}
+        </div>
+
+        <div className="p-6 border-t border-slate-700 flex items-center justify-between gap-4">
+          <span className="text-red-400 text-xs">{error}</span>
+          <button
+            onClick={handleImport}
+            disabled={saving || issues.length > 0 || incoming.seasons.length === 0}
+            className="flex items-center gap-2 bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 text-white px-5 py-2 rounded-lg font-bold text-sm"
+          >
+            {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />} Import
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
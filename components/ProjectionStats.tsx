@@ -0,0 +1,155 @@
+import React, { useMemo } from 'react';
+import { LeagueData } from '../types';
+import { Crosshair, Zap, AlertTriangle } from 'lucide-react';
+
+interface ProjectionStatsProps {
+  data: LeagueData;
+}
+
+export const ProjectionStats: React.FC<ProjectionStatsProps> = ({ data }) => {
+  const stats = useMemo(() => {
+    const upsets: any[] = [];
+    const byManager: Record<string, { games: number; absError: number; diff: number; beat: number }> = {};
+
+    data.seasons.forEach(season => {
+      (season.games || []).forEach(g => {
+        if (g.teamA.points === 0 && g.teamB.points === 0) return;
+
+        [g.teamA, g.teamB].forEach(side => {
+          if (side.projectedPoints === undefined) return;
+          const entry = byManager[side.managerId] || { games: 0, absError: 0, diff: 0, beat: 0 };
+          const diff = side.points - side.projectedPoints;
+          entry.games++;
+          entry.absError += Math.abs(diff);
+          entry.diff += diff;
+          if (diff > 0) entry.beat++;
+          byManager[side.managerId] = entry;
+        });
+
+        if (g.isTie || g.teamA.points === g.teamB.points) return;
+        const [winner, loser] = g.teamA.points > g.teamB.points ? [g.teamA, g.teamB] : [g.teamB, g.teamA];
+        if (winner.projectedPoints === undefined || loser.projectedPoints === undefined) return;
+
+        // An upset: the winner was projected to lose. Yahoo's win probability for a completed week is
+        // the final in-game value, so it can't say who the underdog was going in.
+        const projectedMargin = loser.projectedPoints - winner.projectedPoints;
+        if (projectedMargin <= 0) return;
+
+        upsets.push({
+          year: season.year,
+          week: g.week,
+          winner: data.managers.find(m => m.id === winner.managerId)?.name || 'Unknown',
+          loser: data.managers.find(m => m.id === loser.managerId)?.name || 'Unknown',
+          projectedMargin,
+          score: `${winner.points.toFixed(1)} - ${loser.points.toFixed(1)}`
+        });
+      });
+    });
+
+    if (Object.keys(byManager).length === 0) return null;
+
+    const accuracy = Object.entries(byManager)
+      .filter(([, e]) => e.games >= 5)
+      .map(([id, e]) => ({
+        id,
+        name: data.managers.find(m => m.id === id)?.name || 'Unknown',
+        games: e.games,
+        avgError: e.absError / e.games,
+        avgDiff: e.diff / e.games,
+        totalDiff: e.diff,
+        beatPct: (e.beat / e.games) * 100
+      }))
+      .sort((a, b) => b.totalDiff - a.totalDiff);
+
+    // Biggest projected deficit first
+    upsets.sort((a, b) => b.projectedMargin - a.projectedMargin);
+
+    return { accuracy, upsets: upsets.slice(0, 5) };
+  }, [data]);
+
+  if (!stats) {
+    return (
+      <div className="bg-slate-800 rounded-xl border border-slate-700 shadow-xl p-6">
+        <h3 className="text-xl font-bold text-white flex items-center gap-2 mb-4">
+          <Crosshair className="w-5 h-5 text-sky-400" />
+          Projections
+        </h3>
+        <div className="flex flex-col items-center justify-center text-center p-8 border border-dashed border-slate-700 rounded-xl bg-slate-900/30">
+          <AlertTriangle className="w-8 h-8 text-slate-600 mb-2" />
+          <p className="text-slate-400 text-sm">No projection data found.</p>
+          <p className="text-xs text-slate-500 mt-1">Run a full re-sync to pick up projected points.</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+      {/* Biggest Upsets */}
+      <div className="bg-slate-800 rounded-xl border border-slate-700 shadow-xl p-6">
+        <div className="mb-4">
+          <h3 className="text-xl font-bold text-white flex items-center gap-2">
+            <Zap className="w-5 h-5 text-yellow-400" />
+            Biggest Upsets
+          </h3>
+          <p className="text-slate-400 text-sm">Underdogs who won anyway</p>
+        </div>
+        <div className="space-y-2">
+          {stats.upsets.length === 0 && <p className="text-slate-500 text-sm">No upsets recorded.</p>}
+          {stats.upsets.map((u, i) => (
+            <div key={i} className="bg-slate-900/50 p-2 rounded text-xs border border-slate-700/50 flex justify-between items-center">
+              <div>
+                <span className="text-white font-bold">Projected -{u.projectedMargin.toFixed(1)}</span>
+                <div className="text-slate-500">{u.year} W{u.week} · {u.score}</div>
+              </div>
+              <div className="text-right">
+                <div className="text-emerald-500">{u.winner}</div>
+                <div className="text-red-500">{u.loser}</div>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Projection Accuracy */}
+      <div className="bg-slate-800 rounded-xl border border-slate-700 shadow-xl p-6">
+        <div className="mb-4">
+          <h3 className="text-xl font-bold text-white flex items-center gap-2">
+            <Crosshair className="w-5 h-5 text-sky-400" />
+            Beating the Projections
+          </h3>
+          <p className="text-slate-400 text-sm">Career points over / under projection and average miss</p>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full text-left border-collapse">
+            <thead className="bg-slate-900/50 text-slate-400 text-xs uppercase tracking-wider font-semibold">
+              <tr>
+                <th className="px-3 py-2">Manager</th>
+                <th className="px-3 py-2 text-center">+/- Total</th>
+                <th className="px-3 py-2 text-center">Per Game</th>
+                <th className="px-3 py-2 text-center">Avg Miss</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-700/30 text-sm">
+              {stats.accuracy.map(row => (
+                <tr key={row.id} className="hover:bg-slate-700/20">
+                  <td className="px-3 py-2 font-medium text-white">
+                    {row.name}
+                    <span className="text-slate-600 text-[10px] block">Beat projection {row.beatPct.toFixed(0)}% of {row.games}</span>
+                  </td>
+                  <td className={`px-3 py-2 text-center font-bold font-mono ${row.totalDiff >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>
+                    {row.totalDiff >= 0 ? '+' : ''}{row.totalDiff.toFixed(0)}
+                  </td>
+                  <td className="px-3 py-2 text-center text-slate-300 font-mono">
+                    {row.avgDiff >= 0 ? '+' : ''}{row.avgDiff.toFixed(1)}
+                  </td>
+                  <td className="px-3 py-2 text-center text-slate-400 font-mono">±{row.avgError.toFixed(1)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
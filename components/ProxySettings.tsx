@@ -0,0 +1,84 @@
+import React, { useState } from 'react';
+import { Settings, ChevronDown, ChevronUp, Check } from 'lucide-react';
+import { ProxyConfig, ProxyMode, getProxyConfig, saveProxyConfig, getDefaultProxyConfig } from '../services/proxyConfig';
+
+const MODE_LABELS: Record<ProxyMode, { label: string; hint: string }> = {
+  bundled: { label: 'Bundled Proxy', hint: 'Requests go through this app\'s own /api/yahoo/proxy endpoint.' },
+  custom: { label: 'Custom Proxy', hint: 'Use your own proxy. The encoded Yahoo URL is appended, or replaces {url}.' },
+  direct: { label: 'Direct', hint: 'Call Yahoo directly. Only works where CORS is not enforced.' }
+};
+
+export const ProxySettings: React.FC = () => {
+  const [open, setOpen] = useState(false);
+  const [config, setConfig] = useState<ProxyConfig>(getProxyConfig);
+  const [saved, setSaved] = useState(false);
+
+  const update = (next: ProxyConfig) => {
+    setConfig(next);
+    setSaved(false);
+  };
+
+  const handleSave = () => {
+    saveProxyConfig(config);
+    setSaved(true);
+  };
+
+  const handleReset = () => {
+    saveProxyConfig(null);
+    setConfig(getDefaultProxyConfig());
+    setSaved(true);
+  };
+
+  const invalid = config.mode === 'custom' && !config.customUrl?.trim();
+
+  return (
+    <div className="border border-slate-800 rounded-xl">
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center justify-between px-4 py-3 text-xs font-bold text-slate-400 uppercase tracking-wider hover:text-white transition-colors"
+      >
+        <span className="flex items-center gap-2"><Settings className="w-3 h-3" /> Connection: {MODE_LABELS[config.mode].label}</span>
+        {open ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+      </button>
+
+      {open && (
+        <div className="px-4 pb-4 space-y-3">
+          <div className="grid grid-cols-3 gap-2">
+            {(Object.keys(MODE_LABELS) as ProxyMode[]).map(mode => (
+              <button
+                key={mode}
+                onClick={() => update({ ...config, mode })}
+                className={`px-3 py-2 rounded-lg text-xs font-bold border transition-colors ${config.mode === mode ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-slate-800 border-slate-700 text-slate-400 hover:text-white'}`}
+              >
+                {MODE_LABELS[mode].label}
+              </button>
+            ))}
+          </div>
+          <p className="text-[11px] text-slate-500">{MODE_LABELS[config.mode].hint}</p>
+
+          {config.mode === 'custom' && (
+            <input
+              type="text"
+              value={config.customUrl || ''}
+              onChange={(e) => update({ ...config, customUrl: e.target.value })}
+              className="w-full bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 text-white text-xs font-mono focus:ring-2 focus:ring-indigo-500 outline-none"
+              placeholder="https://my-proxy.example.com/?url="
+            />
+          )}
+
+          <div className="flex justify-end items-center gap-3">
+            {saved && <span className="text-emerald-400 text-xs flex items-center gap-1"><Check className="w-3 h-3" /> Saved</span>}
+            <button onClick={handleReset} className="text-slate-500 hover:text-white text-xs">Use Default</button>
+            <button
+              onClick={handleSave}
+              disabled={invalid}
+              className="bg-slate-700 hover:bg-slate-600 disabled:opacity-50 text-white px-3 py-1.5 rounded-lg text-xs font-bold"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
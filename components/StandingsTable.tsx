@@ -1,18 +1,27 @@
 import React, { useMemo, useState } from 'react';
 import { LeagueData } from '../types';
-import { Trophy, ArrowUpDown, ChevronUp, ChevronDown, Medal } from 'lucide-react';
+import { countDivisionTitles, divisionStandings, divisionWinners, hasDivisions } from '../services/divisions';
+import { Trophy, ArrowUpDown, ChevronUp, ChevronDown, Medal, Flag } from 'lucide-react';
 
 interface StandingsTableProps {
   data: LeagueData;
 }
 
-type SortField = 'legacyScore' | 'wins' | 'losses' | 'winPct' | 'pf' | 'titles' | 'playoffPct';
+type SortField = 'legacyScore' | 'wins' | 'losses' | 'winPct' | 'pf' | 'titles' | 'divisionTitles' | 'playoffPct';
 
 export const StandingsTable: React.FC<StandingsTableProps> = ({ data }) => {
   const [sortField, setSortField] = useState<SortField>('titles');
   const [sortDesc, setSortDesc] = useState(true);
 
+  // --- DIVISIONS ---
+  const divisionSeasons = useMemo(() => data.seasons.filter(hasDivisions).sort((a, b) => b.year - a.year), [data.seasons]);
+  const [divisionSeasonKey, setDivisionSeasonKey] = useState<string | null>(null);
+  const divisionSeason = divisionSeasons.find(s => s.key === divisionSeasonKey) || divisionSeasons[0];
+  const divisionTables = useMemo(() => divisionSeason ? divisionStandings(divisionSeason) : [], [divisionSeason]);
+  const divisionChampions = useMemo(() => divisionSeason ? divisionWinners(divisionSeason) : new Set<string>(), [divisionSeason]);
+
   const allTimeStats = useMemo(() => {
+    const divisionTitles = countDivisionTitles(data);
     const stats: Record<string, { 
       wins: number; 
       losses: number; 
@@ -61,6 +70,7 @@ export const StandingsTable: React.FC<StandingsTableProps> = ({ data }) => {
 
         return {
           ...stat,
+          divisionTitles: divisionTitles[id] || 0,
           manager: data.managers.find(m => m.id === id)!,
           winPct: winPctVal,
           winPctDisplay: winPctVal.toFixed(3),
@@ -115,6 +125,11 @@ export const StandingsTable: React.FC<StandingsTableProps> = ({ data }) => {
               <th className="px-4 py-4 text-center cursor-pointer hover:text-indigo-400 transition-colors" onClick={() => handleSort('titles')}>
                 Titles <SortIcon field="titles" />
               </th>
+              {divisionSeasons.length > 0 && (
+                <th className="px-4 py-4 text-center cursor-pointer hover:text-indigo-400 transition-colors" onClick={() => handleSort('divisionTitles')}>
+                  Div Titles <SortIcon field="divisionTitles" />
+                </th>
+              )}
               <th className="px-4 py-4 text-center cursor-pointer hover:text-indigo-400 transition-colors" onClick={() => handleSort('legacyScore')}>
                 Legacy <SortIcon field="legacyScore" />
               </th>
@@ -159,6 +174,15 @@ export const StandingsTable: React.FC<StandingsTableProps> = ({ data }) => {
                     </span>
                   ) : <span className="text-slate-700">-</span>}
                 </td>
+                {divisionSeasons.length > 0 && (
+                  <td className="px-4 py-4 text-center">
+                    {row.divisionTitles > 0 ? (
+                      <span className="text-sky-400 font-bold flex items-center justify-center gap-1 text-sm">
+                        <Flag className="w-3.5 h-3.5" /> {row.divisionTitles}
+                      </span>
+                    ) : <span className="text-slate-700">-</span>}
+                  </td>
+                )}
                 <td className="px-4 py-4 text-center">
                   <div className="inline-block px-2 py-1 rounded bg-indigo-500/10 text-indigo-300 font-bold text-sm">
                     {row.legacyScore.toFixed(0)}
@@ -194,6 +218,59 @@ export const StandingsTable: React.FC<StandingsTableProps> = ({ data }) => {
           </tbody>
         </table>
       </div>
+
+      {divisionSeason && (
+        <div className="border-t border-slate-700 p-6">
+          <div className="flex justify-between items-center mb-4">
+            <h4 className="text-white font-bold flex items-center gap-2">
+              <Flag className="w-4 h-4 text-sky-400" />
+              Division Standings
+            </h4>
+            <select
+              value={divisionSeason.key}
+              onChange={(e) => setDivisionSeasonKey(e.target.value)}
+              className="bg-slate-900 border border-slate-600 rounded-lg px-2 py-1 text-xs text-slate-300 focus:ring-2 focus:ring-indigo-500 outline-none"
+            >
+              {divisionSeasons.map(s => <option key={s.key} value={s.key}>{s.year}</option>)}
+            </select>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {divisionTables.map(({ division, teams }) => (
+              <div key={division.id} className="bg-slate-900/50 rounded-xl border border-slate-700 overflow-hidden">
+                <div className="px-4 py-2 bg-slate-900 text-xs font-bold uppercase tracking-wider text-slate-400">{division.name}</div>
+                <table className="w-full text-sm">
+                  <thead className="text-[10px] text-slate-500 uppercase">
+                    <tr>
+                      <th className="px-4 py-2 text-left">Manager</th>
+                      <th className="px-2 py-2 text-center">Record</th>
+                      <th className="px-2 py-2 text-center">Div</th>
+                      <th className="px-4 py-2 text-right">PF</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-800">
+                    {teams.map(team => {
+                      const manager = data.managers.find(m => m.id === team.managerId);
+                      const { wins, losses, ties } = team.stats;
+                      const div = team.divisionRecord;
+                      return (
+                        <tr key={team.teamKey}>
+                          <td className="px-4 py-2 text-slate-200 flex items-center gap-2">
+                            {manager?.name || 'Unknown'}
+                            {divisionChampions.has(team.teamKey) && <Flag className="w-3 h-3 text-sky-400" />}
+                          </td>
+                          <td className="px-2 py-2 text-center text-slate-300">{wins}-{losses}{ties > 0 ? `-${ties}` : ''}</td>
+                          <td className="px-2 py-2 text-center text-slate-400">{div.wins}-{div.losses}{div.ties > 0 ? `-${div.ties}` : ''}</td>
+                          <td className="px-4 py-2 text-right font-mono text-emerald-400">{team.stats.pointsFor.toLocaleString()}</td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,125 @@
+import React from 'react';
+import { PlusCircle, RefreshCw, Archive, UserPlus, CheckCircle2, AlertTriangle, ClipboardList } from 'lucide-react';
+import { MergePreview } from '../services/leagueMerge';
+
+export type WriteMode = 'merge' | 'replace';
+
+interface SyncReviewProps {
+  preview: MergePreview;
+  writeMode: WriteMode;
+  setWriteMode: (mode: WriteMode) => void;
+  rosterWeeks?: number; // Weeks of roster snapshots fetched in this sync
+}
+
+const SeasonChip = ({ year, className }: { year: number; className: string }) => (
+  <span className={`px-2 py-0.5 rounded text-xs font-mono font-bold border ${className}`}>{year}</span>
+);
+
+export const SyncReview: React.FC<SyncReviewProps> = ({ preview, writeMode, setWriteMode, rosterWeeks = 0 }) => {
+  const hasStored = preview.updated.length + preview.unchanged.length + preview.preserved.length > 0;
+
+  return (
+    <div className="space-y-5">
+      <p className="text-slate-400 text-sm">Review what this sync will change before it is written to the database.</p>
+
+      {hasStored && (
+        <div className="grid grid-cols-2 gap-2">
+          <button
+            onClick={() => setWriteMode('merge')}
+            className={`p-3 rounded-lg border text-left transition-colors ${writeMode === 'merge' ? 'bg-emerald-900/20 border-emerald-500/50' : 'bg-slate-800 border-slate-700 hover:border-slate-600'}`}
+          >
+            <div className="text-white font-bold text-sm">Merge</div>
+            <div className="text-xs text-slate-500">Upsert synced seasons, keep everything else</div>
+          </button>
+          <button
+            onClick={() => setWriteMode('replace')}
+            className={`p-3 rounded-lg border text-left transition-colors ${writeMode === 'replace' ? 'bg-red-900/20 border-red-500/50' : 'bg-slate-800 border-slate-700 hover:border-slate-600'}`}
+          >
+            <div className="text-white font-bold text-sm">Replace</div>
+            <div className="text-xs text-slate-500">Overwrite the stored league and its rosters with only this sync</div>
+          </button>
+        </div>
+      )}
+
+      <div className="space-y-4">
+        {preview.added.length > 0 && (
+          <div>
+            <h4 className="text-xs font-bold uppercase tracking-wider text-emerald-400 mb-2 flex items-center gap-1">
+              <PlusCircle className="w-3 h-3" /> New Seasons ({preview.added.length})
+            </h4>
+            <div className="flex flex-wrap gap-1">
+              {preview.added.map(s => <SeasonChip key={s.key} year={s.year} className="bg-emerald-500/10 border-emerald-500/30 text-emerald-300" />)}
+            </div>
+          </div>
+        )}
+
+        {preview.updated.length > 0 && (
+          <div>
+            <h4 className="text-xs font-bold uppercase tracking-wider text-indigo-400 mb-2 flex items-center gap-1">
+              <RefreshCw className="w-3 h-3" /> Updated Seasons ({preview.updated.length})
+            </h4>
+            <div className="space-y-1">
+              {preview.updated.map(s => (
+                <div key={s.key} className="flex items-center gap-3 bg-slate-800/50 rounded px-2 py-1.5 text-xs">
+                  <SeasonChip year={s.year} className="bg-indigo-500/10 border-indigo-500/30 text-indigo-300" />
+                  <span className="text-slate-400">{s.changes.join(' · ')}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {preview.unchanged.length > 0 && (
+          <div>
+            <h4 className="text-xs font-bold uppercase tracking-wider text-slate-500 mb-2 flex items-center gap-1">
+              <CheckCircle2 className="w-3 h-3" /> Unchanged ({preview.unchanged.length})
+            </h4>
+            <div className="flex flex-wrap gap-1">
+              {preview.unchanged.map(s => <SeasonChip key={s.key} year={s.year} className="bg-slate-800 border-slate-700 text-slate-400" />)}
+            </div>
+          </div>
+        )}
+
+        {preview.preserved.length > 0 && (
+          <div>
+            <h4 className={`text-xs font-bold uppercase tracking-wider mb-2 flex items-center gap-1 ${writeMode === 'replace' ? 'text-red-400' : 'text-slate-400'}`}>
+              {writeMode === 'replace' ? <AlertTriangle className="w-3 h-3" /> : <Archive className="w-3 h-3" />}
+              {writeMode === 'replace' ? 'Will Be Removed' : 'Kept From Database'} ({preview.preserved.length})
+            </h4>
+            <div className="flex flex-wrap gap-1">
+              {preview.preserved.map(s => (
+                <SeasonChip
+                  key={s.key}
+                  year={s.year}
+                  className={writeMode === 'replace' ? 'bg-red-500/10 border-red-500/30 text-red-300 line-through' : 'bg-slate-800 border-slate-700 text-slate-300'}
+                />
+              ))}
+            </div>
+          </div>
+        )}
+
+        {rosterWeeks > 0 && (
+          <p className="text-xs text-slate-400 flex items-center gap-1">
+            <ClipboardList className="w-3 h-3" /> {rosterWeeks} weeks of roster snapshots will be saved
+          </p>
+        )}
+
+        {preview.newManagers.length > 0 && (
+          <div>
+            <h4 className="text-xs font-bold uppercase tracking-wider text-yellow-400 mb-2 flex items-center gap-1">
+              <UserPlus className="w-3 h-3" /> New Managers ({preview.newManagers.length})
+            </h4>
+            <div className="flex flex-wrap gap-2">
+              {preview.newManagers.map(m => (
+                <span key={m.id} className="flex items-center gap-1.5 bg-slate-800 rounded-full pl-0.5 pr-2 py-0.5 text-xs text-slate-300">
+                  <img src={m.avatar} alt="" className="w-4 h-4 rounded-full" />
+                  {m.name}
+                </span>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,23 +1,67 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { ExternalLink, Key, Check, Loader2, ArrowLeft, ShieldCheck, Lock, AlertTriangle, HelpCircle } from 'lucide-react';
 import { exchangeAuthCode } from '../services/yahooService';
+import { CALLBACK_MESSAGE, CALLBACK_PATH, CallbackParams, createAuthRequest, completeAuthRequest } from '../services/yahooAuth';
+import { YahooSession } from '../types';
 
 interface TokenHelperProps {
   defaultClientId?: string;
-  onTokenGenerated: (token: string) => void;
+  onTokenGenerated: (session: YahooSession) => void;
   onCancel: () => void;
 }
 
 export const TokenHelper: React.FC<TokenHelperProps> = ({ onTokenGenerated, onCancel }) => {
   const envClientId = (process.env.YAHOO_CLIENT_ID || '').trim();
-  const envClientSecret = (process.env.YAHOO_CLIENT_SECRET || '').trim();
 
   const [authCode, setAuthCode] = useState('');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [step, setStep] = useState<'INIT' | 'WAITING_FOR_CODE'>('INIT');
+  const [step, setStep] = useState<'INIT' | 'WAITING_FOR_REDIRECT' | 'WAITING_FOR_CODE'>('INIT');
 
-  const handleLoginClick = () => {
+  // Popup flow: the callback page posts the authorization code back to this window
+  useEffect(() => {
+    if (step !== 'WAITING_FOR_REDIRECT') return;
+
+    const handleMessage = async (event: MessageEvent) => {
+      if (event.origin !== window.location.origin || event.data?.type !== CALLBACK_MESSAGE) return;
+
+      setLoading(true);
+      setError(null);
+      try {
+          const session = await completeAuthRequest(event.data as CallbackParams);
+          onTokenGenerated(session);
+      } catch (e: any) {
+          setError(e.message || "Failed to complete Yahoo login.");
+          setStep('INIT');
+      } finally {
+          setLoading(false);
+      }
+    };
+
+    window.addEventListener('message', handleMessage);
+    return () => window.removeEventListener('message', handleMessage);
+  }, [step]);
+
+  const handleLoginClick = async () => {
+    if (!envClientId) {
+        setError("System Error: Yahoo Client ID is not configured in the application environment.");
+        return;
+    }
+
+    setError(null);
+    const authUrl = await createAuthRequest(envClientId);
+    const popup = window.open(authUrl, 'YahooLogin', 'width=600,height=700,status=yes,scrollbars=yes');
+
+    // Popup blocked: send the whole tab through Yahoo, the callback route brings it back
+    if (!popup) {
+        window.location.assign(authUrl);
+        return;
+    }
+    setStep('WAITING_FOR_REDIRECT');
+  };
+
+  // Fallback for Yahoo apps registered as "Installed Application" (oob redirect)
+  const handleManualLoginClick = () => {
     if (!envClientId) {
         setError("System Error: Yahoo Client ID is not configured in the application environment.");
         return;
@@ -44,16 +88,12 @@ export const TokenHelper: React.FC<TokenHelperProps> = ({ onTokenGenerated, onCa
           setError("Invalid code. Please ensure you copied the entire code from Yahoo.");
           return;
       }
-      if (!envClientSecret) {
-          setError("System Error: Yahoo Client Secret is not configured.");
-          return;
-      }
 
       setLoading(true);
       setError(null);
       try {
-          const token = await exchangeAuthCode(envClientId, envClientSecret, authCode.trim());
-          onTokenGenerated(token);
+          const session = await exchangeAuthCode(authCode.trim());
+          onTokenGenerated(session);
       } catch (e: any) {
           setError(e.message || "Failed to exchange token.");
           setLoading(false);
@@ -96,7 +136,7 @@ export const TokenHelper: React.FC<TokenHelperProps> = ({ onTokenGenerated, onCa
                      </div>
                      <h3 className="text-2xl font-bold text-white mb-3">Authenticate</h3>
                      <p className="text-slate-400 mb-8 leading-relaxed">
-                         Generate a new access token to sync your league data directly. This works even if the primary server is offline.
+                         Log in with Yahoo to authorize this app. You'll be brought straight back to the sync once you click <strong>Agree</strong>.
                      </p>
                      
                      <button 
@@ -113,14 +153,36 @@ export const TokenHelper: React.FC<TokenHelperProps> = ({ onTokenGenerated, onCa
                              <strong>Config Missing:</strong> YAHOO_CLIENT_ID not found in environment.
                          </div>
                      ) : (
-                         <div className="mt-6 flex items-start gap-2 text-left text-[10px] text-slate-500 p-2 border border-slate-800 rounded">
-                             <HelpCircle className="w-3 h-3 mt-0.5 shrink-0" />
-                             <p>
-                                 Getting an "Uh oh" error? Ensure your Yahoo App is configured with <code>oob</code> as a Redirect URI (select "Installed Application" in Yahoo Developer Console).
-                             </p>
-                         </div>
+                         <>
+                             <button
+                                onClick={handleManualLoginClick}
+                                className="mt-4 text-slate-500 hover:text-white text-xs font-medium transition-colors"
+                             >
+                                Yahoo showed you a code instead? Use manual code entry
+                             </button>
+                             <div className="mt-6 flex items-start gap-2 text-left text-[10px] text-slate-500 p-2 border border-slate-800 rounded">
+                                 <HelpCircle className="w-3 h-3 mt-0.5 shrink-0" />
+                                 <p>
+                                     Getting an "Uh oh" error? Add <code>{window.location.origin}{CALLBACK_PATH}</code> as a Redirect URI in the Yahoo Developer Console, or use manual code entry with an app registered for <code>oob</code>.
+                                 </p>
+                             </div>
+                         </>
                      )}
                  </div>
+             ) : step === 'WAITING_FOR_REDIRECT' ? (
+                 <div className="text-center max-w-sm z-10 animate-in fade-in duration-300">
+                     <Loader2 className="w-10 h-10 text-indigo-400 animate-spin mx-auto mb-6" />
+                     <h3 className="text-xl font-bold text-white mb-3">{loading ? 'Verifying...' : 'Waiting for Yahoo'}</h3>
+                     <p className="text-slate-400 mb-8 leading-relaxed text-sm">
+                         Finish logging in within the popup window. It will close automatically and your sync will continue here.
+                     </p>
+                     <button 
+                        onClick={() => setStep('INIT')} 
+                        className="text-slate-500 hover:text-white text-sm flex items-center justify-center gap-2 w-full transition-colors"
+                     >
+                        <ArrowLeft className="w-4 h-4" /> Start Over
+                     </button>
+                 </div>
              ) : (
                  <div className="w-full max-w-md z-10 animate-in slide-in-from-right-8 duration-300">
                      <div className="bg-slate-800/80 backdrop-blur border border-slate-700 rounded-2xl p-6 mb-6 shadow-2xl">
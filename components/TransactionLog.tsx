@@ -1,6 +1,7 @@
-import React, { useState } from 'react';
+import React, { useState, useMemo } from 'react';
 import { LeagueData, Transaction } from '../types';
-import { ArrowRightLeft, Plus, Trash2, UserPlus } from 'lucide-react';
+import { buildPlayerIndex, lookupPlayer, playsPosition, PLAYER_POSITIONS } from '../services/players';
+import { ArrowRightLeft, Plus, Trash2, DollarSign } from 'lucide-react';
 
 interface TransactionLogProps {
   data: LeagueData;
@@ -8,13 +9,25 @@ interface TransactionLogProps {
 
 export const TransactionLog: React.FC<TransactionLogProps> = ({ data }) => {
   const [selectedYear, setSelectedYear] = useState<number>(data.seasons[data.seasons.length - 1].year);
+  const [typeFilter, setTypeFilter] = useState<'all' | 'moves' | 'trade'>('all');
+  const [position, setPosition] = useState('all');
+
+  const players = useMemo(() => buildPlayerIndex(data.players), [data.players]);
   
   const availableYears = data.seasons.map(s => s.year).sort((a, b) => b - a);
   const activeSeason = data.seasons.find(s => s.year === selectedYear);
 
   if (!activeSeason) return <div>No data</div>;
 
-  const transactions = activeSeason.transactions || [];
+  const transactions = (activeSeason.transactions || []).filter(txn => {
+    // A move matches a position when any player in it plays there
+    if (!(txn.players || []).some(p => playsPosition(lookupPlayer(players, p.playerKey), position))) return false;
+    if (typeFilter === 'trade') return txn.type === 'trade';
+    if (typeFilter === 'moves') return txn.type !== 'trade';
+    return true;
+  });
+  const managerName = (id?: string) => data.managers.find(m => m.id === id)?.name;
+  const positionOf = (playerKey?: string) => lookupPlayer(players, playerKey)?.position;
 
   return (
     <div className="bg-slate-800 rounded-xl border border-slate-700 shadow-xl overflow-hidden animate-in fade-in duration-500">
@@ -23,13 +36,34 @@ export const TransactionLog: React.FC<TransactionLogProps> = ({ data }) => {
           <ArrowRightLeft className="w-5 h-5 text-blue-400" />
           Transaction Log
         </h3>
-        <select 
-          value={selectedYear}
-          onChange={(e) => setSelectedYear(parseInt(e.target.value))}
-          className="bg-slate-900 text-white border border-slate-600 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 outline-none"
-        >
-          {availableYears.map(y => <option key={y} value={y}>{y} Season</option>)}
-        </select>
+        <div className="flex gap-3">
+          {players.size > 0 && (
+            <select
+              value={position}
+              onChange={(e) => setPosition(e.target.value)}
+              className="bg-slate-900 text-white border border-slate-600 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 outline-none"
+            >
+              <option value="all">All Positions</option>
+              {PLAYER_POSITIONS.map(p => <option key={p} value={p}>{p}</option>)}
+            </select>
+          )}
+          <select
+            value={typeFilter}
+            onChange={(e) => setTypeFilter(e.target.value as 'all' | 'moves' | 'trade')}
+            className="bg-slate-900 text-white border border-slate-600 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 outline-none"
+          >
+            <option value="all">All</option>
+            <option value="moves">Adds & Drops</option>
+            <option value="trade">Trades</option>
+          </select>
+          <select 
+            value={selectedYear}
+            onChange={(e) => setSelectedYear(parseInt(e.target.value))}
+            className="bg-slate-900 text-white border border-slate-600 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 outline-none"
+          >
+            {availableYears.map(y => <option key={y} value={y}>{y} Season</option>)}
+          </select>
+        </div>
       </div>
 
       <div className="max-h-[600px] overflow-y-auto">
@@ -45,11 +79,40 @@ export const TransactionLog: React.FC<TransactionLogProps> = ({ data }) => {
                   <span className="text-xs text-slate-500 font-mono">
                     {new Date(txn.date).toLocaleDateString()}
                   </span>
-                  <span className="text-xs font-bold uppercase px-2 py-0.5 rounded bg-slate-700 text-slate-300">
-                    {txn.type}
-                  </span>
+                  <div className="flex items-center gap-2">
+                    {txn.faabBid !== undefined && (
+                      <span className="text-xs font-bold px-2 py-0.5 rounded bg-emerald-500/10 text-emerald-400 flex items-center">
+                        <DollarSign className="w-3 h-3" />{txn.faabBid}
+                      </span>
+                    )}
+                    {txn.origin && (
+                      <span className="text-xs font-bold px-2 py-0.5 rounded bg-slate-700/50 text-slate-400">
+                        {txn.origin === 'waivers' ? 'Waiver Claim' : 'Free Agent'}
+                      </span>
+                    )}
+                    <span className="text-xs font-bold uppercase px-2 py-0.5 rounded bg-slate-700 text-slate-300">
+                      {txn.type}
+                    </span>
+                  </div>
                 </div>
                 
+                {txn.tradeSides && txn.tradeSides.length > 0 ? (
+                  <div className="grid grid-cols-2 gap-3">
+                    {txn.tradeSides.map(side => (
+                      <div key={side.teamKey} className="bg-slate-900/50 rounded-lg p-3 border border-slate-700/50">
+                        <div className="text-indigo-400 text-xs font-semibold mb-2">{managerName(side.managerId) || 'Unknown'} receives</div>
+                        {side.received.length === 0 ? (
+                          <div className="text-slate-600 text-xs italic">Nothing</div>
+                        ) : side.received.map((p, idx) => (
+                          <div key={idx} className="text-slate-200 text-sm font-medium">
+                            {p.name}
+                            {positionOf(p.playerKey) && <span className="text-slate-500 text-xs ml-2">{positionOf(p.playerKey)}</span>}
+                          </div>
+                        ))}
+                      </div>
+                    ))}
+                  </div>
+                ) : (
                 <div className="space-y-2">
                   {txn.players.map((p, idx) => {
                     const mgr = data.managers.find(m => m.id === p.managerId);
@@ -66,6 +129,7 @@ export const TransactionLog: React.FC<TransactionLogProps> = ({ data }) => {
                         )}
                         <div className="flex-1">
                           <span className="text-slate-200 font-medium text-sm">{p.name}</span>
+                          {positionOf(p.playerKey) && <span className="text-slate-500 text-xs ml-2">{positionOf(p.playerKey)}</span>}
                           <span className="text-slate-500 text-xs mx-2">
                              {p.type === 'add' ? 'to' : 'from'}
                           </span>
@@ -77,6 +141,7 @@ export const TransactionLog: React.FC<TransactionLogProps> = ({ data }) => {
                     );
                   })}
                 </div>
+                )}
               </div>
             ))}
           </div>
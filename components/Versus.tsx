@@ -1,11 +1,16 @@
 import React, { useState, useMemo } from 'react';
 import { LeagueData } from '../types';
-import { Trophy, Swords, TrendingUp, AlertCircle, Database, Users, Skull, Target, Flame, Snowflake, Scale } from 'lucide-react';
+import { gameResult, isChampionshipGame } from '../services/playoffs';
+import { countDivisionTitles, hasDivisions, isDivisionGame } from '../services/divisions';
+import { analyzeLineup, findTeamWeek, LineupResult } from '../services/lineupEfficiency';
+import { useSeasonRosters } from './LineupEfficiency';
+import { Trophy, Swords, TrendingUp, AlertCircle, Database, Users, Skull, Target, Flame, Snowflake, Scale, Flag } from 'lucide-react';
 import { ResponsiveContainer, XAxis, YAxis, Tooltip, Legend, CartesianGrid, AreaChart, Area, BarChart, Bar, Cell, ReferenceLine } from 'recharts';
 
 interface VersusProps {
   data: LeagueData;
   token?: string;
+  leagueId?: string | null;
 }
 
 const StatBar = ({ label, valA, valB, unit = '', reverse = false, decimals = 0 }: { label: string, valA: number, valB: number, unit?: string, reverse?: boolean, decimals?: number }) => {
@@ -37,6 +42,9 @@ const StatBar = ({ label, valA, valB, unit = '', reverse = false, decimals = 0 }
     );
 };
 
+const formatRecord = ({ wins, losses, ties }: { wins: number, losses: number, ties: number }) =>
+    `${wins}-${losses}${ties > 0 ? '-' + ties : ''}`;
+
 const TrophyCase = ({ count, colorClass }: { count: number, colorClass: string }) => {
     if (count === 0) return <div className="h-8 w-8 rounded-full bg-slate-800/50 border border-slate-700 flex items-center justify-center text-slate-600">-</div>;
     return (
@@ -95,6 +103,7 @@ const CustomTooltip = ({ active, payload, label, managerA, managerB }: any) => {
                                     <div className="flex justify-between text-slate-500 text-[10px] mb-1">
                                     <span>Week {m.week}</span>
                                     {m.isPlayoffs && <span className="text-yellow-500 font-bold flex items-center gap-1"><Trophy className="w-3 h-3" /> Playoffs</span>}
+                                    {m.isConsolation && <span className="text-slate-400 font-bold">Consolation</span>}
                                     </div>
                                     <div className="flex justify-between items-center bg-slate-800/80 rounded px-2 py-1.5 border border-slate-700/50">
                                         <span className={`font-mono font-bold ${m.myScore > m.oppScore ? 'text-indigo-400' : 'text-slate-400'}`}>
@@ -125,7 +134,9 @@ const CustomTooltip = ({ active, payload, label, managerA, managerB }: any) => {
     return null;
 };
 
-export const Versus: React.FC<VersusProps> = ({ data }) => {
+export const Versus: React.FC<VersusProps> = ({ data, leagueId }) => {
+  const { rosters } = useSeasonRosters(leagueId, data);
+
   const [managerAId, setManagerAId] = useState<string>(data.managers[0]?.id || '');
   const [managerBId, setManagerBId] = useState<string>(data.managers[1]?.id || '');
   
@@ -140,13 +151,14 @@ export const Versus: React.FC<VersusProps> = ({ data }) => {
     const stats: Record<string, { 
         wins: number, losses: number, ties: number, 
         pf: number, pa: number, games: number,
+        division: { wins: number, losses: number, ties: number, games: number },
         history: { result: 'W' | 'L' | 'T', date: number }[] 
     }> = {};
     
     // Initialize
     data.managers.forEach(m => {
         if (m.id !== managerA.id) {
-            stats[m.id] = { wins: 0, losses: 0, ties: 0, pf: 0, pa: 0, games: 0, history: [] };
+            stats[m.id] = { wins: 0, losses: 0, ties: 0, pf: 0, pa: 0, games: 0, division: { wins: 0, losses: 0, ties: 0, games: 0 }, history: [] };
         }
     });
 
@@ -170,18 +182,19 @@ export const Versus: React.FC<VersusProps> = ({ data }) => {
                         stats[oppId].pf += myTeam.points;
                         stats[oppId].pa += oppTeam.points;
 
-                        let result: 'W' | 'L' | 'T' = 'T';
-                        if (Math.abs(myTeam.points - oppTeam.points) < 0.01) {
-                            stats[oppId].ties++;
-                            result = 'T';
-                        } else if (myTeam.points > oppTeam.points) {
-                            stats[oppId].wins++;
-                            result = 'W';
-                        } else {
-                            stats[oppId].losses++;
-                            result = 'L';
-                        }
+                        const result = gameResult(g, myTeam.teamKey);
+                        if (result === 'W') stats[oppId].wins++;
+                        else if (result === 'L') stats[oppId].losses++;
+                        else stats[oppId].ties++;
                         
+                        if (isDivisionGame(s, g)) {
+                            const div = stats[oppId].division;
+                            div.games++;
+                            if (result === 'W') div.wins++;
+                            else if (result === 'L') div.losses++;
+                            else div.ties++;
+                        }
+
                         // Store date as simple integer (YearWeek) for sorting if needed, though loop order implies it
                         stats[oppId].history.push({ result, date: s.year * 100 + g.week });
                     }
@@ -251,6 +264,8 @@ export const Versus: React.FC<VersusProps> = ({ data }) => {
 
     let statsA = { wins: 0, losses: 0, ties: 0, titles: 0, points: 0, playoffApps: 0, seasons: 0, bestRank: 99, ranks: [] as number[] };
     let statsB = { wins: 0, losses: 0, ties: 0, titles: 0, points: 0, playoffApps: 0, seasons: 0, bestRank: 99, ranks: [] as number[] };
+    const divisionTitles = countDivisionTitles(data);
+    const hasDivisionData = data.seasons.some(hasDivisions);
     
     const chartData: any[] = [];
     
@@ -258,6 +273,9 @@ export const Versus: React.FC<VersusProps> = ({ data }) => {
     let h2hWins = 0;
     let h2hLosses = 0;
     let h2hTies = 0;
+    // Division rivalry split: regular-season games while both were in the same division
+    const divisionH2H = { wins: 0, losses: 0, ties: 0 };
+    const otherH2H = { wins: 0, losses: 0, ties: 0 };
     const matchups: any[] = [];
     let hasMatchupData = false;
 
@@ -282,18 +300,32 @@ export const Versus: React.FC<VersusProps> = ({ data }) => {
               }
 
               if (myTeam && oppTeam) {
-                  let result = 'T';
-                  if (myTeam.points > oppTeam.points) { h2hWins++; result='W'; }
-                  else if (myTeam.points < oppTeam.points) { h2hLosses++; result='L'; }
+                  const result = gameResult(g, myTeam.teamKey);
+                  if (result === 'W') h2hWins++;
+                  else if (result === 'L') h2hLosses++;
                   else h2hTies++;
 
+                  const isDivision = isDivisionGame(season, g);
+                  const split = isDivision ? divisionH2H : otherH2H;
+                  if (result === 'W') split.wins++;
+                  else if (result === 'L') split.losses++;
+                  else split.ties++;
+
+                  // Lineup efficiency when roster snapshots exist for this week
+                  const rosterA = findTeamWeek(rosters[season.key], g.week, managerA.id);
+                  const rosterB = findTeamWeek(rosters[season.key], g.week, managerB.id);
+
                   const matchupRecord = {
                       year: season.year,
                       week: g.week,
                       result,
                       myScore: myTeam.points,
                       oppScore: oppTeam.points,
-                      isPlayoffs: g.isPlayoffs
+                      lineupA: rosterA ? analyzeLineup(rosterA, season.rosterPositions) : undefined as LineupResult | undefined,
+                      lineupB: rosterB ? analyzeLineup(rosterB, season.rosterPositions) : undefined as LineupResult | undefined,
+                      isPlayoffs: isChampionshipGame(g),
+                      isConsolation: !!g.isConsolation,
+                      isDivision
                   };
 
                   matchups.push(matchupRecord);
@@ -343,8 +375,13 @@ export const Versus: React.FC<VersusProps> = ({ data }) => {
     const winPctA = (statsA.wins / (statsA.wins + statsA.losses || 1)) * 100;
     const winPctB = (statsB.wins / (statsB.wins + statsB.losses || 1)) * 100;
 
-    return { statsA, statsB, winPctA, winPctB, chartData, avgRankA, avgRankB, h2hWins, h2hLosses, h2hTies, matchups, hasMatchupData };
-  }, [managerA, managerB, data]);
+    return {
+      statsA, statsB, winPctA, winPctB, chartData, avgRankA, avgRankB, h2hWins, h2hLosses, h2hTies, matchups, hasMatchupData,
+      divisionTitlesA: divisionTitles[managerA.id] || 0,
+      divisionTitlesB: divisionTitles[managerB.id] || 0,
+      hasDivisionData, divisionH2H, otherH2H
+    };
+  }, [managerA, managerB, data, rosters]);
 
   if (!managerA || !managerB || !comparison) return <div>Select managers</div>;
 
@@ -356,6 +393,13 @@ export const Versus: React.FC<VersusProps> = ({ data }) => {
         winner: comparison.statsA.titles > comparison.statsB.titles ? 'A' : comparison.statsA.titles < comparison.statsB.titles ? 'B' : 'T',
         icon: <Trophy className="w-3 h-3 text-yellow-500" />
     },
+    ...(comparison.hasDivisionData ? [{
+        label: 'Division Titles',
+        valA: comparison.divisionTitlesA,
+        valB: comparison.divisionTitlesB,
+        winner: comparison.divisionTitlesA > comparison.divisionTitlesB ? 'A' : comparison.divisionTitlesA < comparison.divisionTitlesB ? 'B' : 'T',
+        icon: <Flag className="w-3 h-3 text-sky-400" />
+    }] : []),
     { 
         label: 'Overall Record', 
         valA: `${comparison.statsA.wins}-${comparison.statsA.losses}${comparison.statsA.ties > 0 ? '-'+comparison.statsA.ties : ''}`, 
@@ -490,16 +534,34 @@ export const Versus: React.FC<VersusProps> = ({ data }) => {
                                     <div className="text-[10px] font-bold text-slate-500 uppercase mt-1">WINS</div>
                                 </div>
                              </div>
+                             {comparison.divisionH2H.wins + comparison.divisionH2H.losses + comparison.divisionH2H.ties > 0 && (
+                                <div className="flex justify-center gap-6 text-xs mb-4 -mt-2">
+                                    <span className="text-slate-400 flex items-center gap-1">
+                                        <Flag className="w-3 h-3 text-sky-400" /> Division
+                                        <span className="font-mono font-bold text-white">{formatRecord(comparison.divisionH2H)}</span>
+                                    </span>
+                                    <span className="text-slate-400">
+                                        Other <span className="font-mono font-bold text-white">{formatRecord(comparison.otherH2H)}</span>
+                                    </span>
+                                </div>
+                             )}
                              <div className="max-h-60 overflow-y-auto custom-scrollbar pr-2 space-y-1">
                                 {comparison.matchups.sort((a,b) => b.year - a.year || b.week - a.week).map((g, i) => (
-                                    <div key={i} className="flex justify-between items-center text-xs p-2 rounded hover:bg-slate-700/50 transition-colors">
-                                        <span className="font-mono text-slate-500 w-24 text-left">{g.year} <span className="text-slate-600">W{g.week}</span></span>
+                                    <div key={i} className="flex flex-wrap justify-between items-center text-xs p-2 rounded hover:bg-slate-700/50 transition-colors">
+                                        <span className="font-mono text-slate-500 w-24 text-left">{g.year} <span className="text-slate-600">W{g.week}</span>{g.isDivision && <span className="text-sky-500 ml-1" title="Division game">D</span>}</span>
                                         <div className="flex-1 text-center font-mono">
                                             <span className={g.result === 'W' ? 'text-indigo-400 font-bold' : 'text-slate-400'}>{g.myScore.toFixed(1)}</span>
                                             <span className="text-slate-600 mx-2">-</span>
                                             <span className={g.result === 'L' ? 'text-purple-400 font-bold' : 'text-slate-400'}>{g.oppScore.toFixed(1)}</span>
                                         </div>
                                         <span className={`w-6 text-center font-bold ${g.result === 'W' ? 'text-emerald-400' : g.result === 'L' ? 'text-red-400' : 'text-slate-400'}`}>{g.result}</span>
+                                        {(g.lineupA || g.lineupB) && (
+                                            <div className="w-full flex justify-center gap-4 text-[10px] text-slate-500 mt-1" title="Lineup efficiency (points left on bench)">
+                                                <span className="text-indigo-300/70">{g.lineupA ? `${g.lineupA.efficiency.toFixed(0)}% (-${g.lineupA.pointsLeft.toFixed(1)})` : '—'}</span>
+                                                <span>lineups</span>
+                                                <span className="text-purple-300/70">{g.lineupB ? `${g.lineupB.efficiency.toFixed(0)}% (-${g.lineupB.pointsLeft.toFixed(1)})` : '—'}</span>
+                                            </div>
+                                        )}
                                     </div>
                                 ))}
                              </div>
@@ -711,6 +773,12 @@ export const Versus: React.FC<VersusProps> = ({ data }) => {
                                     </div>
                                 </div>
 
+                                {r.division.games > 0 && (
+                                    <div className="text-[10px] text-slate-500 mb-2 flex items-center gap-1">
+                                        <Flag className="w-3 h-3 text-sky-400" /> Division games <span className="font-mono font-bold text-slate-300">{formatRecord(r.division)}</span>
+                                    </div>
+                                )}
+
                                 <div className="flex justify-between items-end border-t border-slate-700/50 pt-3">
                                     <div className="flex items-baseline gap-1">
                                         <span className={`text-2xl font-black ${r.winPct >= 50 ? 'text-indigo-400' : 'text-slate-400'}`}>
@@ -0,0 +1,45 @@
+import { CoManagerAttribution, Game, GameSide, LeagueData, ManagerSeason, Season } from '../types';
+
+// Co-managed seasons are stored once, under the team's primary manager. With 'shared' attribution
+// the career views get a copy of the season (and its games) for every co-manager as well, so both
+// people are credited with the team's record, titles and head-to-head results.
+
+export const hasCoManagers = (data: LeagueData): boolean => {
+  return data.seasons.some(s => s.standings.some(st => (st.managers?.length || 0) > 1));
+};
+
+const coManagerIds = (standing: ManagerSeason): string[] => {
+  return (standing.managers || []).filter(m => !m.isPrimary && m.managerId !== standing.managerId).map(m => m.managerId);
+};
+
+// One copy of the side per manager of its team
+const expandSide = (side: GameSide, coManagers: Map<string, string[]>): GameSide[] => {
+  return [side, ...(coManagers.get(side.teamKey) || []).map(managerId => ({ ...side, managerId }))];
+};
+
+const shareSeason = (season: Season): Season => {
+  const coManagers = new Map<string, string[]>();
+  season.standings.forEach(st => {
+    const ids = coManagerIds(st);
+    if (ids.length > 0) coManagers.set(st.teamKey, ids);
+  });
+  if (coManagers.size === 0) return season;
+
+  const standings = season.standings.flatMap(st => [st, ...(coManagers.get(st.teamKey) || []).map(managerId => ({ ...st, managerId }))]);
+
+  // Every pairing of the two teams' managers, so H2H records exist for co-managers too
+  const games = (season.games || []).flatMap(g => {
+    const sidesA = expandSide(g.teamA, coManagers);
+    const sidesB = expandSide(g.teamB, coManagers);
+    if (sidesA.length === 1 && sidesB.length === 1) return [g];
+    return sidesA.flatMap(teamA => sidesB.map((teamB): Game => ({ ...g, teamA, teamB })));
+  });
+
+  return { ...season, standings, games };
+};
+
+// Only used for display; the stored league always keeps one standing per team
+export const applyCoManagerAttribution = (data: LeagueData, mode: CoManagerAttribution): LeagueData => {
+  if (mode === 'primary' || !hasCoManagers(data)) return data;
+  return { ...data, seasons: data.seasons.map(shareSeason) };
+};
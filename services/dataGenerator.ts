@@ -1,24 +1,12 @@
 
-import { LeagueData, Manager, Season, ManagerSeason, DraftPick, Game } from '../types';
+import { LeagueData, Manager, Season, ManagerSeason, DraftPick, Game, PlayerInfo } from '../types';
 
-// Provided Yahoo League Keys mapped to implied years
-const LEAGUE_KEYS = [
-  { key: '257.l.492507', year: 2011 },
-  { key: '273.l.320863', year: 2012 },
-  { key: '314.l.593746', year: 2013 },
-  { key: '331.l.632785', year: 2014 },
-  { key: '348.l.410974', year: 2015 },
-  { key: '359.l.394988', year: 2016 },
-  { key: '371.l.283892', year: 2017 },
-  { key: '380.l.915216', year: 2018 },
-  { key: '390.l.192337', year: 2019 },
-  { key: '399.l.626629', year: 2020 },
-  { key: '406.l.699932', year: 2021 },
-  { key: '414.l.776784', year: 2022 },
-  { key: '423.l.520268', year: 2023 },
-  { key: '449.l.155143', year: 2024 },
-  { key: '461.l.51376', year: 2025 },
-];
+// Mock seasons from 2011 through the current year. Keys only need to be unique, not real Yahoo keys.
+const FIRST_MOCK_SEASON = 2011;
+const LEAGUE_KEYS = Array.from({ length: new Date().getFullYear() - FIRST_MOCK_SEASON + 1 }, (_, i) => ({
+  key: `mock.l.${FIRST_MOCK_SEASON + i}`,
+  year: FIRST_MOCK_SEASON + i
+}));
 
 const MANAGER_NAMES = [
   "The Commissioner", "Touchdown Tom", "Waiver Wire Wizard", 
@@ -113,5 +101,14 @@ export const generateLeagueData = (): LeagueData => {
     };
   });
 
-  return { managers, seasons };
+  // Mock player dictionary matching the draft's `mock.p.{i}` keys
+  const positions = ['RB', 'WR', 'QB', 'WR', 'RB', 'TE', 'WR', 'RB', 'K', 'DEF'];
+  const players: PlayerInfo[] = Array.from({ length: 160 }, (_, i) => ({
+    id: String(i),
+    name: `Mock Player ${i}`,
+    position: positions[i % positions.length],
+    byeWeek: 5 + (i % 10)
+  }));
+
+  return { managers, seasons, players };
 };
@@ -0,0 +1,128 @@
+import { Division, Game, LeagueData, ManagerSeason, Season } from '../types';
+import { seedTeams, winnerOf } from './playoffs';
+import { Logger } from './yahooService';
+
+// Division records and titles are derived from the stored standings and regular-season games,
+// so they work the same for every platform and respect commissioner corrections.
+
+export interface DivisionRecord {
+  wins: number;
+  losses: number;
+  ties: number;
+}
+
+// What a provider reads back from its league settings to fill in a stored season's divisions
+export interface SeasonDivisions {
+  divisions?: Division[];
+  teams: Pick<ManagerSeason, 'teamKey' | 'divisionId'>[];
+}
+
+export interface DivisionStanding {
+  division: Division;
+  teams: (ManagerSeason & { divisionRecord: DivisionRecord })[]; // Division winner first
+}
+
+// Parses Yahoo's `divisions` settings node: [{ division: { division_id, name } }, ...]
+export const readDivisionSettings = (settings: any): Division[] | undefined => {
+  if (!Array.isArray(settings?.divisions)) return undefined;
+  const divisions = settings.divisions
+    .map((d: any) => d?.division)
+    .filter((d: any) => d?.division_id !== undefined)
+    .map((d: any): Division => ({ id: String(d.division_id), name: d.name || `Division ${d.division_id}` }));
+  return divisions.length > 0 ? divisions : undefined;
+};
+
+const withDivisions = (season: Season, { divisions, teams }: SeasonDivisions): Season => {
+  const teamDivisions = new Map(teams.map(t => [t.teamKey, t.divisionId]));
+  return {
+    ...season,
+    divisions,
+    divisionsRead: true,
+    standings: season.standings.map(st => ({ ...st, divisionId: divisions ? teamDivisions.get(st.teamKey) : undefined }))
+  };
+};
+
+// Complete seasons are reused from storage without a refetch, so those synced before divisions
+// were read get them filled in once from the league settings. If the read fails the stored season
+// is kept as-is and the next sync tries again.
+export const fillStoredDivisions = async (season: Season, read: (season: Season) => Promise<SeasonDivisions>, log: Logger, signal?: AbortSignal): Promise<Season> => {
+  if (season.divisionsRead || signal?.aborted) return season;
+  try {
+    const filled = withDivisions(season, await read(season));
+    log('INFO', `Read divisions for stored season ${season.year}.`);
+    return filled;
+  } catch (e: any) {
+    if (!signal?.aborted) log('WARN', `Could not read divisions for ${season.year}: ${e.message}`);
+    return season;
+  }
+};
+
+export const hasDivisions = (season: Season): boolean => !!season.divisions?.length && season.standings.some(st => st.divisionId);
+
+const divisionOfTeam = (season: Season, teamKey: string): string | undefined =>
+  season.standings.find(st => st.teamKey === teamKey)?.divisionId;
+
+// Regular-season game between two teams of the same division
+export const isDivisionGame = (season: Season, game: Game): boolean => {
+  if (game.isPlayoffs || game.isConsolation || !hasDivisions(season)) return false;
+  const division = divisionOfTeam(season, game.teamA.teamKey);
+  return !!division && division === divisionOfTeam(season, game.teamB.teamKey);
+};
+
+// The current season's leader isn't a champion until the regular season is over
+const regularSeasonComplete = (season: Season): boolean => {
+  if (season.isFinished || !season.currentWeek) return true;
+  return !!season.playoffs && season.currentWeek >= season.playoffs.playoffStartWeek;
+};
+
+export const divisionStandings = (season: Season): DivisionStanding[] => {
+  if (!hasDivisions(season)) return [];
+
+  // Shared co-manager credit copies teams and games; count each team and game once
+  const teams = Array.from(new Map(season.standings.map(st => [st.teamKey, st])).values());
+  const games = Array.from(new Map((season.games || []).map(g => [`${g.week}|${g.teamA.teamKey}|${g.teamB.teamKey}`, g])).values());
+
+  const records = new Map<string, DivisionRecord>(teams.map(st => [st.teamKey, { wins: 0, losses: 0, ties: 0 }]));
+  games.filter(g => isDivisionGame(season, g)).forEach(g => {
+    const recordA = records.get(g.teamA.teamKey);
+    const recordB = records.get(g.teamB.teamKey);
+    if (!recordA || !recordB) return;
+    const winner = winnerOf(g);
+    if (!winner) {
+      recordA.ties++;
+      recordB.ties++;
+    } else if (winner === g.teamA.teamKey) {
+      recordA.wins++;
+      recordB.losses++;
+    } else {
+      recordB.wins++;
+      recordA.losses++;
+    }
+  });
+
+  return (season.divisions || [])
+    .map(division => ({
+      division,
+      teams: seedTeams(teams.filter(st => st.divisionId === division.id))
+        .map(st => ({ ...st, divisionRecord: records.get(st.teamKey)! }))
+    }))
+    .filter(d => d.teams.length > 0);
+};
+
+// Team keys of each division's regular-season winner
+export const divisionWinners = (season: Season): Set<string> => {
+  if (!regularSeasonComplete(season)) return new Set();
+  return new Set(divisionStandings(season).map(d => d.teams[0].teamKey));
+};
+
+// Division titles per manager. Counted per standing, so shared co-manager credit reaches every manager of the team.
+export const countDivisionTitles = (data: LeagueData): Record<string, number> => {
+  const titles: Record<string, number> = {};
+  data.seasons.forEach(season => {
+    const winners = divisionWinners(season);
+    season.standings.forEach(st => {
+      if (winners.has(st.teamKey)) titles[st.managerId] = (titles[st.managerId] || 0) + 1;
+    });
+  });
+  return titles;
+};
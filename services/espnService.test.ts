@@ -0,0 +1,47 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+// The request scheduler and proxy settings read localStorage when their modules load
+vi.hoisted(() => {
+  const store = new Map<string, string>();
+  (globalThis as any).localStorage = {
+    getItem: (key: string) => store.get(key) ?? null,
+    setItem: (key: string, value: string) => { store.set(key, value); },
+    removeItem: (key: string) => { store.delete(key); }
+  };
+});
+
+import { discoverEspnLeagues } from './espnService';
+import { saveProxyConfig } from './proxyConfig';
+
+const PRIVATE = { leagueId: '123', espnS2: 'session', swid: '{SWID}' };
+
+describe('ESPN session cookies', () => {
+  let requests: { url: string; headers: Record<string, string> }[];
+
+  beforeEach(() => {
+    requests = [];
+    vi.stubGlobal('fetch', async (url: string, init: RequestInit) => {
+      requests.push({ url, headers: init.headers as Record<string, string> });
+      return new Response('{}', { status: 401 });
+    });
+  });
+
+  afterEach(() => {
+    saveProxyConfig(null);
+    vi.unstubAllGlobals();
+  });
+
+  it('are sent through the bundled proxy', async () => {
+    saveProxyConfig({ mode: 'bundled' });
+    await expect(discoverEspnLeagues(PRIVATE)).rejects.toThrow('Add your espn_s2 and SWID cookies');
+    expect(requests[0].url.startsWith('/api/yahoo/proxy?url=')).toBe(true);
+    expect(requests[0].headers['X-Espn-Cookie']).toBe('espn_s2=session; SWID={SWID}');
+  });
+
+  it('are never sent to a custom proxy, and private leagues are refused', async () => {
+    saveProxyConfig({ mode: 'custom', customUrl: 'https://proxy.example.com/?url=' });
+    await expect(discoverEspnLeagues(PRIVATE)).rejects.toThrow('Private leagues need the bundled proxy');
+    expect(requests.length).toBeGreaterThan(0);
+    requests.forEach(r => expect(r.headers['X-Espn-Cookie']).toBeUndefined());
+  });
+});
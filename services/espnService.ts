@@ -0,0 +1,384 @@
+import { LeagueData, Manager, Season, ManagerSeason, DraftPick, Transaction, TransactionPlayer, TradeSide, LeagueSummary, Game, PlayerInfo, TeamManager, Division } from '../types';
+import { buildProxiedUrl, getProxyConfig } from './proxyConfig';
+import { applyPlayoffResults } from './playoffs';
+import { fillStoredDivisions, SeasonDivisions } from './divisions';
+import { mergeLeagueData } from './leagueMerge';
+import { createProgressReporter, DEFAULT_AUCTION_BUDGET, fetchScheduledJson, isAbortError, isSeasonComplete, Logger, LogType, SyncOptions } from './yahooService';
+
+// ESPN has no "my leagues" endpoint, so discovery starts from a league id and lists its past seasons.
+// Requests go through the same proxy as Yahoo (ESPN doesn't allow browser requests either); private
+// leagues also need the espn_s2 / SWID cookies, which the bundled proxy forwards from X-Espn-Cookie.
+// Keys are "espn.<league_id>.<year>" since ESPN reuses the league id every season.
+
+const ESPN_URL = 'https://lm-api-reads.fantasy.espn.com/apis/v3/games/ffl';
+const DEFAULT_AVATAR = 'https://s.yimg.com/dh/ap/fantasy/img/profile/icon_user_default.png';
+const FIRST_CURRENT_API_SEASON = 2018; // Earlier seasons are only served by the leagueHistory endpoint
+
+export const ESPN_KEY_PREFIX = 'espn.';
+
+export interface EspnCredentials {
+  leagueId: string;
+  espnS2?: string;
+  swid?: string;
+}
+
+const POSITIONS: Record<number, string> = { 1: 'QB', 2: 'RB', 3: 'WR', 4: 'TE', 5: 'K', 16: 'DEF' };
+
+const PRO_TEAMS: Record<number, string> = {
+  1: 'ATL', 2: 'BUF', 3: 'CHI', 4: 'CIN', 5: 'CLE', 6: 'DAL', 7: 'DEN', 8: 'DET', 9: 'GB', 10: 'TEN',
+  11: 'IND', 12: 'KC', 13: 'LV', 14: 'LAR', 15: 'MIA', 16: 'MIN', 17: 'NE', 18: 'NO', 19: 'NYG', 20: 'NYJ',
+  21: 'PHI', 22: 'ARI', 23: 'PIT', 24: 'LAC', 25: 'SF', 26: 'SEA', 27: 'TB', 28: 'WSH', 29: 'CAR', 30: 'JAX',
+  33: 'BAL', 34: 'HOU'
+};
+
+const toLeagueKey = (leagueId: string, year: number) => `${ESPN_KEY_PREFIX}${leagueId}.${year}`;
+const toPlayerKey = (playerId: number) => `${ESPN_KEY_PREFIX}player.${playerId}`;
+const toTeamKey = (leagueId: string, year: number, teamId: number) => `${ESPN_KEY_PREFIX}${leagueId}.${year}.t.${teamId}`;
+
+const parseLeagueKey = (key: string): { leagueId: string; year: number } => {
+  const [leagueId, year] = key.slice(ESPN_KEY_PREFIX.length).split('.');
+  return { leagueId, year: parseInt(year) };
+};
+
+const getJson = (url: string, credentials: EspnCredentials, signal?: AbortSignal): Promise<any> => {
+  const proxy = getProxyConfig();
+  const headers: Record<string, string> = {};
+  // The cookies are the user's ESPN session, so they only go through our own proxy, never a custom one
+  const bundled = proxy.mode === 'bundled';
+  if (bundled && credentials.espnS2 && credentials.swid) headers['X-Espn-Cookie'] = `espn_s2=${credentials.espnS2}; SWID=${credentials.swid}`;
+
+  const errorFor = (status: number) => {
+    if (status !== 401) return `ESPN API Error (${status})`;
+    return bundled
+      ? "ESPN league is private. Add your espn_s2 and SWID cookies."
+      : "ESPN league is private. Private leagues need the bundled proxy, since ESPN cookies are never sent to other proxies.";
+  };
+  return fetchScheduledJson(buildProxiedUrl(url, proxy), errorFor, headers, signal);
+};
+
+// One season of a league with the given views; old seasons come back wrapped in an array
+const fetchLeagueSeason = async (credentials: EspnCredentials, year: number, views: string[], signal?: AbortSignal, extra = ''): Promise<any> => {
+  const viewParams = views.map(v => `view=${v}`).join('&');
+  const url = year >= FIRST_CURRENT_API_SEASON
+    ? `${ESPN_URL}/seasons/${year}/segments/0/leagues/${credentials.leagueId}?${viewParams}${extra}`
+    : `${ESPN_URL}/leagueHistory/${credentials.leagueId}?seasonId=${year}&${viewParams}${extra}`;
+  const json = await getJson(url, credentials, signal);
+  return Array.isArray(json) ? json[0] : json;
+};
+
+// --- LEAGUE DISCOVERY ---
+
+// The latest season lists every earlier one in status.previousSeasons
+export const discoverEspnLeagues = async (credentials: EspnCredentials, log?: Logger): Promise<LeagueSummary[]> => {
+  if (!credentials.leagueId.trim()) throw new Error("Enter an ESPN league id.");
+  const thisYear = new Date().getFullYear();
+
+  let league: any = null;
+  for (const year of [thisYear, thisYear - 1]) {
+    try {
+      league = await fetchLeagueSeason(credentials, year, ['mSettings', 'mStatus']);
+      if (league?.seasonId) break;
+    } catch (e: any) {
+      if (year === thisYear - 1) throw e;
+    }
+  }
+  if (!league?.seasonId) throw new Error(`ESPN league ${credentials.leagueId} not found.`);
+
+  const name = league.settings?.name || `ESPN League ${credentials.leagueId}`;
+  const years: number[] = Array.from(new Set<number>([league.seasonId, ...(league.status?.previousSeasons || [])])).sort((a, b) => b - a);
+
+  log?.('SUCCESS', `Found ${years.length} ESPN seasons of ${name}.`);
+  return years.map((year, i) => ({
+    key: toLeagueKey(credentials.leagueId, year),
+    name,
+    year,
+    renew: years[i + 1] ? toLeagueKey(credentials.leagueId, years[i + 1]) : undefined,
+    renewed: i > 0 ? toLeagueKey(credentials.leagueId, years[i - 1]) : undefined,
+    provider: 'espn'
+  }));
+};
+
+// --- SEASON PARSING ---
+
+const parseManagers = (members: any[]): Manager[] => {
+  return (members || []).filter(m => m?.id).map(m => ({
+    id: m.id,
+    name: m.displayName || [m.firstName, m.lastName].filter(Boolean).join(' ') || 'Unknown Manager',
+    avatar: DEFAULT_AVATAR
+  }));
+};
+
+const parseDivisions = (scheduleSettings: any): Division[] | undefined => {
+  const divisions: Division[] = (scheduleSettings?.divisions || [])
+    .filter((d: any) => d?.id !== undefined)
+    .map((d: any) => ({ id: String(d.id), name: d.name || `Division ${d.id + 1}` }));
+  return divisions.length > 1 ? divisions : undefined;
+};
+
+const parseStandings = (leagueId: string, year: number, teams: any[], hasDivisions = false): ManagerSeason[] => {
+  const standings: ManagerSeason[] = (teams || [])
+    .filter(t => t?.primaryOwner || t?.owners?.length)
+    .map(t => {
+      const owners: string[] = t.owners || [];
+      const primary = t.primaryOwner || owners[0];
+      const record = t.record?.overall || {};
+      const managers: TeamManager[] | undefined = owners.length > 1
+        ? owners.map(id => ({ managerId: id, isPrimary: id === primary }))
+        : undefined;
+
+      return {
+        managerId: primary,
+        teamKey: toTeamKey(leagueId, year, t.id),
+        teamId: String(t.id),
+        managers,
+        divisionId: hasDivisions && t.divisionId !== undefined ? String(t.divisionId) : undefined,
+        stats: {
+          rank: t.rankCalculatedFinal || t.playoffSeed || 0,
+          wins: record.wins || 0,
+          losses: record.losses || 0,
+          ties: record.ties || 0,
+          pointsFor: record.pointsFor || 0,
+          pointsAgainst: record.pointsAgainst || 0,
+          isChampion: false,
+          isPlayoff: false,
+          playoffSeed: t.playoffSeed || undefined
+        }
+      };
+    });
+
+  standings.sort((a, b) => (a.stats.rank || 99) - (b.stats.rank || 99));
+  standings.forEach((s, i) => { if (!s.stats.rank) s.stats.rank = i + 1; });
+  return standings;
+};
+
+// Unplayed matchups (winner UNDECIDED) and byes (no away team) are left out
+const parseGames = (schedule: any[], teamKeys: Map<number, string>, managers: Map<number, string>): Game[] => {
+  const games: Game[] = [];
+  (schedule || []).forEach(m => {
+    if (!m?.home || !m?.away || m.winner === 'UNDECIDED') return;
+    if (!managers.has(m.home.teamId) || !managers.has(m.away.teamId)) return;
+
+    const tier = m.playoffTierType || 'NONE';
+    const home = { managerId: managers.get(m.home.teamId)!, teamKey: teamKeys.get(m.home.teamId)!, points: m.home.totalPoints || 0 };
+    const away = { managerId: managers.get(m.away.teamId)!, teamKey: teamKeys.get(m.away.teamId)!, points: m.away.totalPoints || 0 };
+
+    games.push({
+      week: m.matchupPeriodId,
+      isPlayoffs: tier !== 'NONE',
+      isConsolation: tier !== 'NONE' && tier !== 'WINNERS_BRACKET',
+      isTie: m.winner === 'TIE',
+      winnerTeamKey: m.winner === 'HOME' ? home.teamKey : m.winner === 'AWAY' ? away.teamKey : undefined,
+      teamA: home,
+      teamB: away
+    });
+  });
+  return games.sort((a, b) => a.week - b.week);
+};
+
+const parseDraft = (picks: any[], teamKeys: Map<number, string>, managers: Map<number, string>): DraftPick[] => {
+  return (picks || [])
+    .filter(p => p?.playerId > 0)
+    .map(p => ({
+      round: p.roundId,
+      pick: p.overallPickNumber || p.id,
+      player: 'Unknown Player',
+      playerKey: toPlayerKey(p.playerId),
+      managerId: managers.get(p.teamId) || 'unknown',
+      teamKey: teamKeys.get(p.teamId) || '',
+      cost: p.bidAmount ? p.bidAmount : undefined,
+      isKeeper: p.keeper || undefined
+    }))
+    .sort((a, b) => a.pick - b.pick);
+};
+
+const parseTransaction = (txn: any, teamKeys: Map<number, string>, managers: Map<number, string>): Transaction | null => {
+  if (txn?.status !== 'EXECUTED') return null;
+  const isTrade = String(txn.type).startsWith('TRADE');
+  if (!isTrade && txn.type !== 'FREEAGENT' && txn.type !== 'WAIVER') return null;
+
+  const managerOf = (teamId: number) => managers.get(teamId) || '';
+  const source = txn.type === 'WAIVER' ? 'waivers' : txn.type === 'FREEAGENT' ? 'freeagents' : 'team';
+
+  const players: TransactionPlayer[] = [];
+  const sides = new Map<number, TradeSide>();
+  (txn.items || []).forEach((item: any) => {
+    const playerKey = toPlayerKey(item.playerId);
+    if (item.type === 'ADD') {
+      players.push({ name: 'Unknown', playerKey, type: 'add', managerId: managerOf(item.toTeamId), source });
+    } else if (item.type === 'DROP') {
+      players.push({ name: 'Unknown', playerKey, type: 'drop', managerId: managerOf(item.fromTeamId) });
+    } else if (item.type === 'TRADE') {
+      players.push({ name: 'Unknown', playerKey, type: 'trade', managerId: managerOf(item.toTeamId), fromManagerId: managerOf(item.fromTeamId), source: 'team' });
+      if (!sides.has(item.toTeamId)) sides.set(item.toTeamId, { managerId: managerOf(item.toTeamId), teamKey: teamKeys.get(item.toTeamId) || '', received: [] });
+      sides.get(item.toTeamId)!.received.push({ name: 'Unknown', playerKey });
+    }
+  });
+  if (players.length === 0) return null;
+
+  const hasAdd = players.some(p => p.type === 'add');
+  const hasDrop = players.some(p => p.type === 'drop');
+
+  return {
+    id: String(txn.id),
+    type: isTrade ? 'trade' : hasAdd && hasDrop ? 'add/drop' : hasAdd ? 'add' : 'drop',
+    date: txn.processDate || txn.proposedDate,
+    managerIds: Array.from(new Set(players.flatMap(p => [p.managerId, p.fromManagerId || '']).filter(Boolean))),
+    players,
+    status: 'successful',
+    faabBid: txn.type === 'WAIVER' && txn.bidAmount !== undefined ? txn.bidAmount : undefined,
+    origin: source === 'team' ? undefined : source,
+    tradeSides: isTrade ? Array.from(sides.values()) : undefined
+  };
+};
+
+// ESPN's player list for a season, used to name drafted and moved players
+const fetchSeasonPlayers = async (credentials: EspnCredentials, year: number, signal?: AbortSignal): Promise<PlayerInfo[]> => {
+  const json = await getJson(`${ESPN_URL}/seasons/${year}/players?scoringPeriodId=0&view=players_wl`, credentials, signal);
+  return (json || []).filter((p: any) => p?.id && p.fullName).map((p: any) => ({
+    id: toPlayerKey(p.id),
+    name: p.fullName,
+    position: POSITIONS[p.defaultPositionId],
+    nflTeam: PRO_TEAMS[p.proTeamId]
+  }));
+};
+
+// --- SEASON FETCH ---
+
+// Divisions of a stored season, read from its team and settings views
+const readStoredDivisions = (credentials: EspnCredentials, signal?: AbortSignal) => async (season: Season): Promise<SeasonDivisions> => {
+  const { leagueId, year } = parseLeagueKey(season.key);
+  const league = await fetchLeagueSeason({ ...credentials, leagueId }, year, ['mTeam', 'mSettings'], signal);
+  const divisions = parseDivisions(league.settings?.scheduleSettings);
+  return { divisions, teams: parseStandings(leagueId, year, league.teams, !!divisions) };
+};
+
+export const fetchEspnData = async (credentials: EspnCredentials, leagueKeys: string[], log?: Logger, options: SyncOptions = {}): Promise<LeagueData> => {
+  const safeLog = (type: LogType, msg: string) => {
+    console.log(`[${type}] ${msg}`);
+    if (log) log(type, msg);
+  };
+
+  const storedLeague = options.fullRefresh ? null : options.existing;
+  const existing = options.resumeFrom ? mergeLeagueData(storedLeague || null, options.resumeFrom).data : storedLeague;
+  const storedSeasons = new Map<string, Season>((existing?.seasons || []).map(s => [s.key, s]));
+  const signal = options.signal;
+
+  const managers = new Map<string, Manager>();
+  const players = new Map<string, PlayerInfo>((existing?.players || []).map(p => [p.id, p]));
+  const seasons: Season[] = [];
+
+  const progress = createProgressReporter(options.onProgress);
+  progress.setSeasonCount(leagueKeys.filter(key => {
+    const stored = storedSeasons.get(key);
+    return !(stored && isSeasonComplete(stored));
+  }).length);
+  progress.report();
+
+  for (const key of leagueKeys) {
+    if (signal?.aborted) break;
+    const stored = storedSeasons.get(key);
+    if (stored && isSeasonComplete(stored)) {
+      safeLog('INFO', `Skipping ${stored.year}: season complete with ${stored.games!.length} games stored.`);
+      seasons.push(await fillStoredDivisions(stored, readStoredDivisions(credentials, signal), safeLog, signal));
+      continue;
+    }
+
+    const { leagueId, year } = parseLeagueKey(key);
+    const seasonCredentials = { ...credentials, leagueId };
+    try {
+      safeLog('INFO', `Fetching ESPN ${year}...`);
+      progress.report(year);
+      const league = await fetchLeagueSeason(seasonCredentials, year, ['mTeam', 'mMatchupScore', 'mSettings', 'mDraftDetail', 'mStatus'], signal);
+
+      parseManagers(league.members).forEach(m => managers.set(m.id, m));
+      const teams: any[] = league.teams || [];
+      const teamKeys = new Map<number, string>(teams.map(t => [t.id, toTeamKey(leagueId, year, t.id)]));
+      const teamManagers = new Map<number, string>(teams.filter(t => t.primaryOwner || t.owners?.length).map(t => [t.id, t.primaryOwner || t.owners[0]]));
+
+      const schedule = league.settings?.scheduleSettings || {};
+      const divisions = parseDivisions(schedule);
+      const standings = parseStandings(leagueId, year, teams, !!divisions);
+      const games = parseGames(league.schedule, teamKeys, teamManagers);
+      const draft = parseDraft(league.draftDetail?.picks, teamKeys, teamManagers);
+
+      const draftSettings = league.settings?.draftSettings || {};
+      const regularSeasonWeeks = parseInt(schedule.matchupPeriodCount) || 0;
+      const numPlayoffTeams = parseInt(schedule.playoffTeamCount) || 0;
+      const endWeek = Math.max(regularSeasonWeeks, ...(league.schedule || []).map((m: any) => m.matchupPeriodId || 0));
+      const isFinished = league.status?.isActive === false;
+
+      // Transactions are only returned per scoring period
+      const transactions: Transaction[] = [];
+      for (let week = 1; week <= endWeek; week++) {
+        if (signal?.aborted) break;
+        try {
+          const moves = await fetchLeagueSeason(seasonCredentials, year, ['mTransactions2'], signal, `&scoringPeriodId=${week}`);
+          (moves?.transactions || []).forEach((t: any) => {
+            const parsed = parseTransaction(t, teamKeys, teamManagers);
+            if (parsed) transactions.push(parsed);
+          });
+        } catch (e: any) {
+          if (isAbortError(e)) throw e;
+          safeLog('WARN', `Could not load ${year} week ${week} transactions: ${e.message}`);
+        }
+        progress.report(year, week, endWeek);
+      }
+      if (signal?.aborted) break;
+
+      // Name players from the season's player list when any are new to the dictionary
+      const referenced = [...draft.map(p => p.playerKey!), ...transactions.flatMap(t => t.players.map(p => p.playerKey!))];
+      if (referenced.some(k => !players.has(k))) {
+        try {
+          (await fetchSeasonPlayers(seasonCredentials, year, signal)).forEach(p => {
+            if (!players.has(p.id)) players.set(p.id, p);
+          });
+        } catch (e: any) {
+          if (isAbortError(e)) throw e;
+          safeLog('WARN', `Could not load ESPN players for ${year}: ${e.message}`);
+        }
+      }
+      const nameOf = (playerKey?: string) => (playerKey && players.get(playerKey)?.name) || 'Unknown Player';
+      draft.forEach(p => { p.player = nameOf(p.playerKey); });
+      transactions.forEach(t => {
+        t.players.forEach(p => { p.name = nameOf(p.playerKey); });
+        t.tradeSides?.forEach(side => side.received.forEach(r => { r.name = nameOf(r.playerKey); }));
+      });
+
+      const season: Season = {
+        year,
+        key,
+        championId: '',
+        standings,
+        draft,
+        transactions: Array.from(new Map(transactions.map(t => [t.id, t])).values()).sort((a, b) => b.date - a.date),
+        games,
+        startWeek: 1,
+        endWeek: endWeek || undefined,
+        currentWeek: isFinished ? undefined : league.status?.currentMatchupPeriod,
+        isFinished,
+        playoffs: numPlayoffTeams && regularSeasonWeeks ? { numPlayoffTeams, playoffStartWeek: regularSeasonWeeks + 1, hasConsolation: false } : undefined,
+        divisions,
+        divisionsRead: true,
+        draftType: draftSettings.type === 'AUCTION' ? 'auction' : draftSettings.type ? 'snake' : undefined,
+        auctionBudget: draftSettings.type === 'AUCTION' ? draftSettings.auctionBudget || DEFAULT_AUCTION_BUDGET : undefined
+      };
+
+      applyPlayoffResults(season);
+      seasons.push(season);
+      options.onCheckpoint?.({ managers: Array.from(managers.values()), seasons: [...seasons], players: Array.from(players.values()) });
+      progress.seasonDone();
+      progress.report(year);
+      safeLog('SUCCESS', `Loaded ${year}: ${games.length} games, ${draft.length} picks, ${season.transactions!.length} transactions.`);
+    } catch (e: any) {
+      if (isAbortError(e)) break;
+      safeLog('ERROR', `Failed to fetch ESPN ${year}: ${e.message}`);
+      if (stored) seasons.push(stored);
+      progress.seasonDone();
+      progress.report();
+    }
+  }
+
+  if (signal?.aborted) safeLog('WARN', `Sync cancelled. Keeping ${seasons.length} ESPN season(s).`);
+
+  return { managers: Array.from(managers.values()), seasons: seasons.sort((a, b) => a.year - b.year), players: Array.from(players.values()) };
+};
@@ -1,6 +1,6 @@
 import firebase from 'firebase/compat/app';
-import { getDatabase, ref, set, get, child, update } from 'firebase/database';
-import { LeagueData } from '../types';
+import { getDatabase, ref, set, get, child, update, push } from 'firebase/database';
+import { LeagueData, LeagueOverride, ManagerAliasMap, OverrideAuditEntry, SeasonRosters, TeamWeekRoster } from '../types';
 
 export interface FirebaseConfig {
   apiKey: string;
@@ -81,4 +81,102 @@ export const fetchLeagueList = async () => {
     })).sort((a,b) => b.lastUpdated - a.lastUpdated);
   }
   return [];
-};
\ No newline at end of file
+};
+
+// Manager aliases sit next to the league data so syncs, which overwrite `data`, never touch them
+export const saveManagerAliases = async (leagueId: string, aliases: ManagerAliasMap) => {
+  if (!db) throw new Error("Database not initialized");
+
+  const cleanId = leagueId.replace(/\./g, '_');
+  await set(ref(db, `leagues/${cleanId}/aliases`), sanitizeData(aliases));
+};
+
+export const fetchManagerAliases = async (leagueId: string): Promise<ManagerAliasMap> => {
+  if (!db) throw new Error("Database not initialized");
+
+  const cleanId = leagueId.replace(/\./g, '_');
+  const snapshot = await get(child(ref(db), `leagues/${cleanId}/aliases`));
+  return snapshot.exists() ? snapshot.val() as ManagerAliasMap : {};
+};
+
+// Commissioner overrides are kept out of `leagues/` like roster snapshots, since the append-only
+// audit trail only grows and the library load reads all of `leagues/`. Every change is written
+// together with its audit entry.
+const overridePath = (leagueId: string) => `overrides/${leagueId.replace(/\./g, '_')}`;
+const overrideAuditPath = (leagueId: string) => `overrideAudit/${leagueId.replace(/\./g, '_')}`;
+
+export const saveLeagueOverrides = async (leagueId: string, changes: { id: string; override: LeagueOverride | null }[], audit: OverrideAuditEntry[]) => {
+  if (!db) throw new Error("Database not initialized");
+
+  const updates: Record<string, any> = {};
+  changes.forEach(({ id, override }) => {
+    updates[`${overridePath(leagueId)}/${id}`] = override ? sanitizeData(override) : null;
+  });
+  audit.forEach(entry => {
+    updates[`${overrideAuditPath(leagueId)}/${push(child(ref(db), overrideAuditPath(leagueId))).key}`] = sanitizeData(entry);
+  });
+  await update(ref(db), updates);
+};
+
+export const fetchLeagueOverrides = async (leagueId: string): Promise<{ overrides: Record<string, LeagueOverride>; audit: OverrideAuditEntry[] }> => {
+  if (!db) throw new Error("Database not initialized");
+
+  const [itemsSnapshot, auditSnapshot] = await Promise.all([
+    get(child(ref(db), overridePath(leagueId))),
+    get(child(ref(db), overrideAuditPath(leagueId)))
+  ]);
+  let items = itemsSnapshot.exists() ? itemsSnapshot.val() : null;
+  let audit = auditSnapshot.exists() ? auditSnapshot.val() : null;
+
+  // Overrides saved under `leagues/{id}/overrides` by earlier versions are moved out on first read
+  const legacyPath = `leagues/${leagueId.replace(/\./g, '_')}/overrides`;
+  if (!items && !audit) {
+    const legacy = await get(child(ref(db), legacyPath));
+    if (legacy.exists()) {
+      items = legacy.val().items || null;
+      audit = legacy.val().audit || null;
+      await update(ref(db), { [overridePath(leagueId)]: items, [overrideAuditPath(leagueId)]: audit, [legacyPath]: null });
+    }
+  }
+
+  return {
+    overrides: items || {},
+    audit: (Object.values(audit || {}) as OverrideAuditEntry[]).sort((a, b) => b.at - a.at)
+  };
+};
+
+// Roster snapshots live outside `leagues/` so loading the library or a league never downloads them
+const leagueRosterPath = (leagueId: string) => `rosters/${leagueId.replace(/\./g, '_')}`;
+const rosterPath = (leagueId: string, seasonKey: string) => `${leagueRosterPath(leagueId)}/${seasonKey.replace(/\./g, '_')}`;
+
+// Removes every season's snapshots, for syncs that replace the stored league
+export const clearLeagueRosters = async (leagueId: string) => {
+  if (!db) throw new Error("Database not initialized");
+
+  await set(ref(db, leagueRosterPath(leagueId)), null);
+};
+
+export const saveSeasonRosters = async (leagueId: string, seasonKey: string, rosters: SeasonRosters) => {
+  if (!db) throw new Error("Database not initialized");
+
+  // Weeks are merged in, so an incremental sync only writes the weeks it fetched
+  const updates: Record<string, TeamWeekRoster[]> = {};
+  Object.entries(rosters).forEach(([week, teams]) => {
+    updates[`week_${week}`] = sanitizeData(teams);
+  });
+  await update(ref(db, rosterPath(leagueId, seasonKey)), updates);
+};
+
+export const fetchSeasonRosters = async (leagueId: string, seasonKey: string): Promise<SeasonRosters> => {
+  if (!db) throw new Error("Database not initialized");
+
+  const snapshot = await get(child(ref(db), rosterPath(leagueId, seasonKey)));
+  const rosters: SeasonRosters = {};
+  if (snapshot.exists()) {
+    Object.entries(snapshot.val() as Record<string, TeamWeekRoster[]>).forEach(([key, teams]) => {
+      const week = parseInt(key.replace('week_', ''));
+      if (week && teams) rosters[week] = teams;
+    });
+  }
+  return rosters;
+};
@@ -0,0 +1,102 @@
+import { LeagueData, Manager, Season } from '../types';
+import { mergePlayers } from './players';
+
+// Merging a sync into the stored league: seasons are upserted by Season.key,
+// managers are unioned by id, and seasons that weren't part of the sync are kept untouched.
+
+export interface SeasonRef {
+  key: string;
+  year: number;
+}
+
+export interface SeasonUpdate extends SeasonRef {
+  changes: string[];
+}
+
+export interface MergePreview {
+  added: SeasonRef[];
+  updated: SeasonUpdate[];
+  unchanged: SeasonRef[];
+  preserved: SeasonRef[]; // Stored seasons that weren't part of this sync
+  newManagers: Manager[];
+}
+
+const countDiff = (label: string, before: number, after: number): string | null => {
+  if (before === after) return null;
+  const delta = after - before;
+  return `${delta > 0 ? '+' : ''}${delta} ${label}`;
+};
+
+const describeSeasonChanges = (before: Season, after: Season, managers: Map<string, Manager>): string[] => {
+  const changes = [
+    countDiff('games', before.games?.length || 0, after.games?.length || 0),
+    countDiff('draft picks', before.draft?.length || 0, after.draft?.length || 0),
+    countDiff('transactions', before.transactions?.length || 0, after.transactions?.length || 0),
+    countDiff('teams', before.standings.length, after.standings.length)
+  ].filter((c): c is string => c !== null);
+
+  if (before.championId !== after.championId) {
+    changes.push(`Champion: ${managers.get(after.championId)?.name || 'TBD'}`);
+  }
+
+  const standingsChanged = after.standings.some(s => {
+    const prev = before.standings.find(p => p.managerId === s.managerId);
+    return !prev || prev.stats.wins !== s.stats.wins || prev.stats.losses !== s.stats.losses || prev.stats.rank !== s.stats.rank;
+  });
+  if (standingsChanged) changes.push('Standings updated');
+  if (!before.divisions && after.divisions) changes.push(`${after.divisions.length} divisions`);
+
+  return changes;
+};
+
+const toRef = (s: Season): SeasonRef => ({ key: s.key, year: s.year });
+
+export const mergeLeagueData = (existing: LeagueData | null, incoming: LeagueData): { data: LeagueData; preview: MergePreview } => {
+  const preview: MergePreview = { added: [], updated: [], unchanged: [], preserved: [], newManagers: [] };
+
+  // Managers: stored first, synced values win for the same id (they're the freshest names/avatars)
+  const managers = new Map<string, Manager>();
+  (existing?.managers || []).forEach(m => managers.set(m.id, m));
+  incoming.managers.forEach(m => {
+    if (!managers.has(m.id)) preview.newManagers.push(m);
+    managers.set(m.id, { ...managers.get(m.id), ...m });
+  });
+
+  const seasons = new Map<string, Season>();
+  (existing?.seasons || []).forEach(s => seasons.set(s.key, s));
+  const incomingKeys = new Set(incoming.seasons.map(s => s.key));
+
+  incoming.seasons.forEach(season => {
+    const stored = seasons.get(season.key);
+    if (!stored) {
+      preview.added.push(toRef(season));
+    } else {
+      const changes = describeSeasonChanges(stored, season, managers);
+      if (changes.length > 0) preview.updated.push({ ...toRef(season), changes });
+      else preview.unchanged.push(toRef(season));
+    }
+    // Roster snapshots are stored separately; keep the stored index when this sync didn't fetch any
+    seasons.set(season.key, !season.rosterWeeks && stored?.rosterWeeks ? { ...season, rosterWeeks: stored.rosterWeeks } : season);
+  });
+
+  (existing?.seasons || []).forEach(s => {
+    if (!incomingKeys.has(s.key)) preview.preserved.push(toRef(s));
+  });
+
+  const sortByYear = (a: SeasonRef, b: SeasonRef) => a.year - b.year;
+  preview.added.sort(sortByYear);
+  preview.updated.sort(sortByYear);
+  preview.unchanged.sort(sortByYear);
+  preview.preserved.sort(sortByYear);
+
+  return {
+    data: {
+      ...existing,
+      ...incoming,
+      managers: Array.from(managers.values()),
+      players: mergePlayers(existing?.players, incoming.players),
+      seasons: Array.from(seasons.values()).sort((a, b) => a.year - b.year)
+    },
+    preview
+  };
+};
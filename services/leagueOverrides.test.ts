@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { LeagueData, LeagueOverride, ManagerSeason } from '../types';
+import { applyLeagueOverrides, overrideId } from './leagueOverrides';
+
+const team = (id: number, rank: number, playoffFinish?: 1 | 2 | 3): ManagerSeason => ({
+  managerId: `m${id}`,
+  teamKey: `t.${id}`,
+  stats: { rank, wins: 10 - rank, losses: rank, ties: 0, pointsFor: 1000, pointsAgainst: 900, isChampion: playoffFinish === 1, isPlayoff: rank <= 4, playoffFinish }
+});
+
+const league = (): LeagueData => ({
+  managers: [1, 2, 3, 4].map(id => ({ id: `m${id}`, name: `Manager ${id}`, avatar: '' })),
+  seasons: [{ year: 2024, key: 's', championId: 'm1', standings: [team(1, 1, 1), team(2, 2, 2), team(3, 3, 3), team(4, 4)] }]
+});
+
+const apply = (...overrides: LeagueOverride[]) =>
+  applyLeagueOverrides(league(), Object.fromEntries(overrides.map(o => [o.id, o]))).seasons[0];
+
+const finishes = (standings: ManagerSeason[]) => Object.fromEntries(standings.map(st => [st.managerId, st.stats.playoffFinish]));
+
+describe('champion overrides', () => {
+  it('makes the dethroned champion the runner-up', () => {
+    const season = apply({ id: overrideId('champion', 's'), kind: 'champion', seasonKey: 's', changes: { managerId: 'm2' } });
+    expect(season.championId).toBe('m2');
+    expect(finishes(season.standings)).toEqual({ m1: 2, m2: 1, m3: 3, m4: undefined });
+    expect(season.standings.filter(st => st.stats.isChampion).map(st => st.managerId)).toEqual(['m2']);
+  });
+
+  it('clears the old runner-up when a team outside the final is named champion', () => {
+    const season = apply({ id: overrideId('champion', 's'), kind: 'champion', seasonKey: 's', changes: { managerId: 'm4' } });
+    expect(finishes(season.standings)).toEqual({ m1: 2, m2: undefined, m3: 3, m4: 1 });
+  });
+
+  it('leaves the finishes alone when the champion is unchanged', () => {
+    const season = apply({ id: overrideId('champion', 's'), kind: 'champion', seasonKey: 's', changes: { managerId: 'm1' } });
+    expect(finishes(season.standings)).toEqual({ m1: 1, m2: 2, m3: 3, m4: undefined });
+  });
+});
+
+describe('standing overrides', () => {
+  it('re-sorts the standings after rank edits', () => {
+    const season = apply(
+      { id: overrideId('standing', 's', 't.4'), kind: 'standing', seasonKey: 's', target: 't.4', changes: { rank: 2 } },
+      { id: overrideId('standing', 's', 't.2'), kind: 'standing', seasonKey: 's', target: 't.2', changes: { rank: 4 } }
+    );
+    expect(season.standings.map(st => [st.managerId, st.stats.rank])).toEqual([['m1', 1], ['m4', 2], ['m3', 3], ['m2', 4]]);
+  });
+
+  it('keeps the stored order when no rank changed', () => {
+    const season = apply({ id: overrideId('standing', 's', 't.3'), kind: 'standing', seasonKey: 's', target: 't.3', changes: { wins: 12 } });
+    expect(season.standings.map(st => st.managerId)).toEqual(['m1', 'm2', 'm3', 'm4']);
+    expect(season.standings[2].stats.wins).toBe(12);
+  });
+});
@@ -0,0 +1,118 @@
+import { Game, LeagueData, LeagueOverride, OverrideKind, OverrideValue, Season } from '../types';
+
+// Commissioner corrections (a forfeit, a collusion ruling, a tiebreaker the platform didn't know)
+// are stored as an override layer next to the league data. Syncs overwrite the synced data but
+// never the overrides, which are applied on every load after manager aliases.
+
+export const STANDING_FIELDS = ['rank', 'wins', 'losses', 'ties', 'pointsFor', 'pointsAgainst'] as const;
+
+// Firebase keys can't contain . # $ / [ ]
+export const overrideId = (kind: OverrideKind, seasonKey: string, target = ''): string =>
+  [kind, seasonKey, target].filter(Boolean).join('_').replace(/[.#$/[\]|]/g, '_');
+
+export const gameTarget = (game: Game): string => `${game.week}|${game.teamA.teamKey}|${game.teamB.teamKey}`;
+
+const applyGameOverride = (game: Game, changes: Record<string, OverrideValue>) => {
+  if (typeof changes.pointsA === 'number') game.teamA = { ...game.teamA, points: changes.pointsA };
+  if (typeof changes.pointsB === 'number') game.teamB = { ...game.teamB, points: changes.pointsB };
+
+  // An explicit winner covers forfeits, where the scoreboard and the result disagree
+  const byScore = game.teamA.points === game.teamB.points ? 'tie' : game.teamA.points > game.teamB.points ? 'A' : 'B';
+  const winner = changes.winner === 'A' || changes.winner === 'B' || changes.winner === 'tie' ? changes.winner : byScore;
+  game.isTie = winner === 'tie';
+  game.winnerTeamKey = winner === 'A' ? game.teamA.teamKey : winner === 'B' ? game.teamB.teamKey : undefined;
+};
+
+const applySeasonOverrides = (season: Season, overrides: LeagueOverride[]): Season => {
+  const next: Season = {
+    ...season,
+    standings: season.standings.map(st => ({ ...st, stats: { ...st.stats } })),
+    games: season.games?.map(g => ({ ...g })),
+    draft: season.draft?.map(p => ({ ...p }))
+  };
+
+  let rankChanged = false;
+  overrides.forEach(o => {
+    if (o.kind === 'standing') {
+      const team = next.standings.find(st => st.teamKey === o.target);
+      if (!team) return;
+      STANDING_FIELDS.forEach(field => {
+        if (typeof o.changes[field] === 'number') team.stats[field] = o.changes[field] as number;
+      });
+      if (typeof o.changes.rank === 'number') rankChanged = true;
+    } else if (o.kind === 'game') {
+      const game = next.games?.find(g => gameTarget(g) === o.target);
+      if (game) applyGameOverride(game, o.changes);
+    } else if (o.kind === 'draftPick') {
+      const pick = next.draft?.find(p => String(p.pick) === o.target);
+      if (!pick) return;
+      if (typeof o.changes.player === 'string' && o.changes.player !== pick.player) {
+        pick.player = o.changes.player;
+        delete pick.playerKey; // The synced key belongs to the old player
+      }
+      if (typeof o.changes.managerId === 'string') {
+        pick.managerId = o.changes.managerId;
+        pick.teamKey = next.standings.find(st => st.managerId === pick.managerId)?.teamKey || pick.teamKey;
+      }
+      if (typeof o.changes.cost === 'number') pick.cost = o.changes.cost;
+      if (typeof o.changes.isKeeper === 'boolean') pick.isKeeper = o.changes.isKeeper;
+    }
+  });
+
+  // Standings are listed in rank order
+  if (rankChanged) next.standings.sort((a, b) => a.stats.rank - b.stats.rank);
+
+  // Champion last, so it wins over any standings edits. The dethroned champion lost the final,
+  // so it becomes the runner-up and the old runner-up's finish is cleared.
+  const champion = overrides.find(o => o.kind === 'champion');
+  if (typeof champion?.changes.managerId === 'string') {
+    const championId = champion.changes.managerId;
+    const championTeam = next.standings.find(st => st.managerId === championId)?.teamKey;
+    const previous = next.standings.find(st => st.stats.playoffFinish === 1)?.teamKey;
+    const dethroned = previous !== championTeam ? previous : undefined;
+    next.championId = championId;
+    next.standings.forEach(st => {
+      const isChampion = st.teamKey === championTeam;
+      if (isChampion) st.stats.playoffFinish = 1;
+      else if (dethroned && st.teamKey === dethroned) st.stats.playoffFinish = 2;
+      else if (dethroned && st.stats.playoffFinish === 2) delete st.stats.playoffFinish;
+      st.stats.isChampion = isChampion;
+    });
+  }
+
+  return next;
+};
+
+export const applyLeagueOverrides = (data: LeagueData, overrides: Record<string, LeagueOverride>): LeagueData => {
+  const list = Object.values(overrides || {});
+  if (list.length === 0) return data;
+
+  return {
+    ...data,
+    seasons: data.seasons.map(season => {
+      const own = list.filter(o => o.seasonKey === season.key);
+      return own.length > 0 ? applySeasonOverrides(season, own) : season;
+    })
+  };
+};
+
+// One-line description for the audit trail
+export const describeOverride = (data: LeagueData, kind: OverrideKind, seasonKey: string, target?: string): string => {
+  const season = data.seasons.find(s => s.key === seasonKey);
+  const year = season?.year ?? seasonKey;
+  const managerName = (id?: string) => data.managers.find(m => m.id === id)?.name || id || 'Unknown';
+  const teamName = (teamKey?: string) => managerName(season?.standings.find(st => st.teamKey === teamKey)?.managerId);
+
+  switch (kind) {
+    case 'standing':
+      return `${year} standings: ${teamName(target)}`;
+    case 'champion':
+      return `${year} champion`;
+    case 'game': {
+      const [week, teamA, teamB] = (target || '').split('|');
+      return `${year} week ${week}: ${teamName(teamA)} vs ${teamName(teamB)}`;
+    }
+    case 'draftPick':
+      return `${year} draft: pick ${target}`;
+  }
+};
@@ -0,0 +1,77 @@
+import { readFileSync } from 'fs';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { SyncProgress } from './yahooService';
+
+// The request scheduler and proxy settings read localStorage when their modules load
+vi.hoisted(() => {
+  const store = new Map<string, string>();
+  (globalThis as any).localStorage = {
+    getItem: (key: string) => store.get(key) ?? null,
+    setItem: (key: string, value: string) => { store.set(key, value); },
+    removeItem: (key: string) => { store.delete(key); }
+  };
+});
+
+import { fetchLeagueHistory, groupKeysByProvider, providerForKey } from './leagueProvider';
+import { parseFixtureBundle, startReplay, stopTransport } from './yahooTransport';
+
+// A finished two-week Sleeper season with two teams
+const SLEEPER_RESPONSES: Record<string, any> = {
+  '/league/777': { league_id: '777', name: 'Sleeper League', season: '2025', status: 'complete', settings: { start_week: 1, last_scored_leg: 2 } },
+  '/league/777/users': [{ user_id: 'u1', display_name: 'One' }, { user_id: 'u2', display_name: 'Two' }],
+  '/league/777/rosters': [
+    { roster_id: 1, owner_id: 'u1', settings: { wins: 2, losses: 0 } },
+    { roster_id: 2, owner_id: 'u2', settings: { wins: 0, losses: 2 } }
+  ],
+  '/league/777/drafts': [],
+  '/league/777/matchups/1': [{ roster_id: 1, matchup_id: 1, points: 100 }, { roster_id: 2, matchup_id: 1, points: 90 }],
+  '/league/777/matchups/2': [{ roster_id: 1, matchup_id: 1, points: 110 }, { roster_id: 2, matchup_id: 1, points: 95 }],
+  '/league/777/transactions/1': [],
+  '/league/777/transactions/2': []
+};
+
+describe('fetchLeagueHistory progress', () => {
+  beforeAll(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    startReplay(parseFixtureBundle(readFileSync(new URL('../fixtures/yahoo/sample-league.json', import.meta.url), 'utf8')));
+    vi.stubGlobal('fetch', async (url: string) => {
+      const body = SLEEPER_RESPONSES[new URL(url).pathname.replace(/^\/v1/, '')];
+      return body === undefined ? new Response('{}', { status: 404 }) : new Response(JSON.stringify(body), { status: 200 });
+    });
+  });
+
+  afterAll(() => {
+    stopTransport();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('reports one count across platforms, including Sleeper', async () => {
+    const events: SyncProgress[] = [];
+    // The imported season has no platform, so it is neither fetched nor counted
+    const data = await fetchLeagueHistory({ yahoo: { token: 'fixture-token' } }, ['449.l.100', 'sleeper.777', 'manual.2009'], undefined, {
+      onProgress: p => events.push(p)
+    });
+
+    expect(data.seasons.map(s => s.key).sort()).toEqual(['449.l.100', 'sleeper.777']);
+    expect(events.every(p => p.seasonCount === 2)).toBe(true);
+
+    // Sleeper's season is reported as the second of two, with its weeks
+    const sleeperWeeks = events.filter(p => p.year === 2025 && p.week);
+    expect(sleeperWeeks.map(p => [p.season, p.week, p.weekCount])).toEqual([[2, 1, 2], [2, 2, 2]]);
+
+    const fractions = events.map(p => p.fraction);
+    expect(fractions).toEqual([...fractions].sort((a, b) => a - b));
+    expect(events[events.length - 1]).toMatchObject({ completed: 2, fraction: 1 });
+  });
+});
+
+describe('providerForKey', () => {
+  it('tells platforms and imported seasons apart by key prefix', () => {
+    expect(['449.l.100', 'sleeper.777', 'espn.123.2020', 'manual.2009'].map(providerForKey)).toEqual(['yahoo', 'sleeper', 'espn', 'manual']);
+  });
+
+  it('leaves imported seasons out of the sync groups', () => {
+    expect(Array.from(groupKeysByProvider(['manual.2009', '449.l.100', 'manual.2010']).entries())).toEqual([['yahoo', ['449.l.100']]]);
+  });
+});
@@ -0,0 +1,128 @@
+import { LeagueData, LeagueSummary, ProviderId } from '../types';
+import { estimateRemainingMs, fetchUserLeagues, fetchYahooData, Logger, SyncOptions, SyncProgress } from './yahooService';
+import { discoverSleeperLeagues, fetchSleeperData, SLEEPER_KEY_PREFIX } from './sleeperService';
+import { discoverEspnLeagues, fetchEspnData, ESPN_KEY_PREFIX } from './espnService';
+import { mergeLeagueData } from './leagueMerge';
+import { MANUAL_KEY_PREFIX } from './manualImport';
+
+// Every platform we import from does the same two things: list the leagues a user can reach,
+// and fetch selected seasons into LeagueData. Non-Yahoo season keys carry a platform prefix
+// ("sleeper.", "espn."), so one stored history can hold seasons from several platforms.
+// Imported seasons ("manual.") live in the same history but have no platform to sync from.
+
+export interface ProviderCredentials {
+  token?: string; // Yahoo access token
+  username?: string; // Sleeper username
+  leagueId?: string; // ESPN league id
+  espnS2?: string; // ESPN cookies, private leagues only
+  swid?: string;
+}
+
+export interface LeagueProvider {
+  id: ProviderId;
+  name: string;
+  discoverLeagues: (credentials: ProviderCredentials, log?: Logger) => Promise<LeagueSummary[]>;
+  fetchLeagueData: (credentials: ProviderCredentials, leagueKeys: string[], log?: Logger, options?: SyncOptions) => Promise<LeagueData>;
+}
+
+const yahooProvider: LeagueProvider = {
+  id: 'yahoo',
+  name: 'Yahoo',
+  discoverLeagues: (credentials, log) => fetchUserLeagues(credentials.token || '', log),
+  fetchLeagueData: (credentials, leagueKeys, log, options) => fetchYahooData(credentials.token || '', leagueKeys, log, options)
+};
+
+const sleeperProvider: LeagueProvider = {
+  id: 'sleeper',
+  name: 'Sleeper',
+  discoverLeagues: (credentials, log) => discoverSleeperLeagues(credentials.username || '', log),
+  fetchLeagueData: (credentials, leagueKeys, log, options) => fetchSleeperData(leagueKeys, log, options)
+};
+
+const espnProvider: LeagueProvider = {
+  id: 'espn',
+  name: 'ESPN',
+  discoverLeagues: (credentials, log) => discoverEspnLeagues({ leagueId: credentials.leagueId || '', espnS2: credentials.espnS2, swid: credentials.swid }, log),
+  fetchLeagueData: (credentials, leagueKeys, log, options) => fetchEspnData({ leagueId: credentials.leagueId || '', espnS2: credentials.espnS2, swid: credentials.swid }, leagueKeys, log, options)
+};
+
+export const LEAGUE_PROVIDERS: Record<ProviderId, LeagueProvider> = {
+  yahoo: yahooProvider,
+  sleeper: sleeperProvider,
+  espn: espnProvider
+};
+
+// Works for league keys and season keys alike; bare keys are Yahoo's
+export const providerForKey = (key: string): ProviderId | 'manual' => {
+  if (key.startsWith(SLEEPER_KEY_PREFIX)) return 'sleeper';
+  if (key.startsWith(ESPN_KEY_PREFIX)) return 'espn';
+  if (key.startsWith(MANUAL_KEY_PREFIX)) return 'manual';
+  return 'yahoo';
+};
+
+// Imported seasons are left out, since there's nothing to fetch them from
+export const groupKeysByProvider = (leagueKeys: string[]): Map<ProviderId, string[]> => {
+  const groups = new Map<ProviderId, string[]>();
+  leagueKeys.forEach(key => {
+    const id = providerForKey(key);
+    if (id === 'manual') return;
+    groups.set(id, [...(groups.get(id) || []), key]);
+  });
+  return groups;
+};
+
+// Fetches the selected seasons from each platform in turn and stitches them into one league.
+// Checkpoints include what earlier platforms already returned, so a resumed sync keeps them.
+// Progress is reported over the whole sync: platforms not reached yet count with every season
+// selected from them until they report how many actually need fetching.
+export const fetchLeagueHistory = async (
+  credentials: Partial<Record<ProviderId, ProviderCredentials>>,
+  leagueKeys: string[],
+  log?: Logger,
+  options: SyncOptions = {}
+): Promise<LeagueData> => {
+  let stitched: LeagueData = { managers: [], seasons: [] };
+  const startedAt = Date.now();
+  let seasonsBefore = 0; // Seasons fetched by earlier platforms
+  let requestsBefore = 0;
+  const groups = groupKeysByProvider(leagueKeys);
+  let keysAfter = Array.from(groups.values()).reduce((sum, keys) => sum + keys.length, 0);
+
+  for (const [id, keys] of groups) {
+    if (options.signal?.aborted) break;
+    const provider = LEAGUE_PROVIDERS[id];
+    log?.('INFO', `Fetching ${keys.length} season(s) from ${provider.name}...`);
+    keysAfter -= keys.length;
+
+    let last: SyncProgress | null = null;
+    const onProgress = options.onProgress && ((p: SyncProgress) => {
+      last = p;
+      const seasonCount = seasonsBefore + p.seasonCount + keysAfter;
+      const fraction = seasonCount > 0 ? Math.min(1, (seasonsBefore + p.fraction * p.seasonCount) / seasonCount) : 1;
+      const elapsedMs = Date.now() - startedAt;
+      options.onProgress!({
+        ...p,
+        season: Math.min(seasonsBefore + p.season, seasonCount),
+        seasonCount,
+        completed: seasonsBefore + p.completed,
+        fraction,
+        requests: requestsBefore + p.requests,
+        elapsedMs,
+        etaMs: estimateRemainingMs(elapsedMs, fraction)
+      });
+    });
+
+    const fetched = await provider.fetchLeagueData(credentials[id] || {}, keys, log, {
+      ...options,
+      onProgress,
+      onCheckpoint: options.onCheckpoint && (partial => options.onCheckpoint!(mergeLeagueData(stitched, partial).data))
+    });
+    stitched = mergeLeagueData(stitched, fetched).data;
+
+    const reported = last as SyncProgress | null;
+    seasonsBefore += reported?.seasonCount || 0;
+    requestsBefore += reported?.requests || 0;
+  }
+
+  return stitched;
+};
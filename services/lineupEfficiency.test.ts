@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { PlayerWeekScore, TeamWeekRoster } from '../types';
+import { analyzeLineup, computeOptimalLineup } from './lineupEfficiency';
+
+const player = (name: string, position: string, points: number, slot = 'BN'): PlayerWeekScore => ({
+  playerKey: `p.${name}`, name, position, slot, points
+});
+
+describe('computeOptimalLineup', () => {
+  it('fills a standard lineup with the top scorers at each position', () => {
+    const players = [
+      player('qb1', 'QB', 20), player('qb2', 'QB', 25),
+      player('rb1', 'RB', 12), player('rb2', 'RB', 8), player('rb3', 'RB', 15),
+      player('wr1', 'WR', 18), player('wr2', 'WR', 3),
+      player('te1', 'TE', 7)
+    ];
+    const result = computeOptimalLineup(players, ['QB', 'RB', 'WR', 'TE', 'W/R/T']);
+    expect(result.points).toBe(25 + 15 + 18 + 7 + 12);
+    expect(result.starters.map(p => p.name).sort()).toEqual(['qb2', 'rb1', 'rb3', 'te1', 'wr1']);
+  });
+
+  it('moves a multi-position player to the slot only they can fill', () => {
+    const players = [player('flex', 'WR,TE', 20), player('wr', 'WR', 10), player('te', 'TE', 2)];
+    const result = computeOptimalLineup(players, ['WR', 'TE']);
+    expect(result.points).toBe(30);
+    expect(result.starters.map(p => p.name).sort()).toEqual(['flex', 'wr']);
+  });
+
+  it('fills overlapping W/R/T and W/T slots', () => {
+    const players = [player('rb', 'RB', 30), player('wr', 'WR', 20), player('te', 'TE', 15), player('rb2', 'RB', 25)];
+    const result = computeOptimalLineup(players, ['W/R/T', 'W/T', 'W/T']);
+    expect(result.points).toBe(30 + 20 + 15);
+  });
+
+  it('leaves slots empty when nobody is eligible', () => {
+    expect(computeOptimalLineup([player('k', 'K', 9)], ['QB', 'K']).points).toBe(9);
+  });
+});
+
+describe('analyzeLineup', () => {
+  it('compares the started lineup with the best one', () => {
+    const roster: TeamWeekRoster = {
+      week: 1,
+      managerId: 'm',
+      teamKey: 't.1',
+      players: [player('wr1', 'WR', 10, 'WR'), player('wr2', 'WR', 20, 'BN'), player('ir', 'WR', 0, 'IR')]
+    };
+    expect(analyzeLineup(roster, [{ position: 'WR', count: 1 }, { position: 'BN', count: 1 }])).toMatchObject({
+      actual: 10, optimal: 20, benchPoints: 20, pointsLeft: 10, efficiency: 50
+    });
+  });
+});
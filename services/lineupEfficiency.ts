@@ -0,0 +1,137 @@
+import { PlayerWeekScore, RosterPosition, Season, SeasonRosters, TeamWeekRoster } from '../types';
+
+// Lineup efficiency: how many points a team scored compared to the best legal lineup
+// it could have started from the same roster that week.
+
+const NON_STARTING_SLOTS = ['BN', 'IR', 'IR+', 'NA'];
+
+// Flex slots are written as abbreviations joined by '/', e.g. 'W/R/T' or 'Q/W/R/T'
+const FLEX_ABBREVIATIONS: Record<string, string> = { Q: 'QB', W: 'WR', R: 'RB', T: 'TE', K: 'K' };
+
+export const isStartingSlot = (slot: string) => !NON_STARTING_SLOTS.includes(slot);
+
+const eligiblePositions = (slot: string): string[] => {
+  if (!slot.includes('/')) return [slot];
+  return slot.split('/').map(part => FLEX_ABBREVIATIONS[part] || part);
+};
+
+const canPlay = (player: PlayerWeekScore, slot: string) => {
+  const positions = player.position.split(',').map(p => p.trim());
+  return eligiblePositions(slot).some(p => positions.includes(p));
+};
+
+// Starting slots from league settings, or the slots the team actually used when settings are missing
+const startingSlots = (roster: TeamWeekRoster, positions?: RosterPosition[]): string[] => {
+  if (positions && positions.length > 0) {
+    return positions
+      .filter(p => isStartingSlot(p.position))
+      .flatMap(p => Array.from({ length: p.count }, () => p.position));
+  }
+  return roster.players.map(p => p.slot).filter(isStartingSlot);
+};
+
+const withFilled = (open: number[], slotType: number): number[] => open.map((c, i) => i === slotType ? c - 1 : c);
+
+// Best lineup by exact search: each player is benched or put into an eligible open slot type.
+// Only the open count per slot type matters, so the memoized states stay few even with
+// overlapping flex slots (W/R/T plus W/T) and multi-position players.
+export const computeOptimalLineup = (players: PlayerWeekScore[], slots: string[]): { points: number; starters: PlayerWeekScore[] } => {
+  const slotTypes = Array.from(new Set(slots));
+  const eligibleTypes = players.map(p => slotTypes.flatMap((slot, i) => canPlay(p, slot) ? [i] : []));
+  const memo = new Map<string, number>();
+
+  const best = (index: number, open: number[]): number => {
+    if (index === players.length || open.every(c => c === 0)) return 0;
+    const key = `${index}|${open.join(',')}`;
+    const cached = memo.get(key);
+    if (cached !== undefined) return cached;
+
+    let result = best(index + 1, open);
+    eligibleTypes[index].forEach(t => {
+      if (open[t] > 0) result = Math.max(result, players[index].points + best(index + 1, withFilled(open, t)));
+    });
+    memo.set(key, result);
+    return result;
+  };
+
+  // Walk the memoized choices back to the starters
+  const starters: PlayerWeekScore[] = [];
+  let open = slotTypes.map(slot => slots.filter(s => s === slot).length);
+  const points = best(0, open);
+  for (let i = 0; i < players.length; i++) {
+    const total = best(i, open);
+    if (total === best(i + 1, open)) continue;
+    const t = eligibleTypes[i].find(t => open[t] > 0 && players[i].points + best(i + 1, withFilled(open, t)) === total);
+    if (t === undefined) continue;
+    starters.push(players[i]);
+    open = withFilled(open, t);
+  }
+
+  return { points, starters };
+};
+
+export interface LineupResult {
+  actual: number;
+  optimal: number;
+  benchPoints: number; // Everything scored on the bench
+  pointsLeft: number; // optimal - actual
+  efficiency: number; // actual / optimal, 0-100
+}
+
+export const analyzeLineup = (roster: TeamWeekRoster, positions?: RosterPosition[]): LineupResult => {
+  const round = (n: number) => Math.round(n * 100) / 100;
+  const actual = roster.players.filter(p => isStartingSlot(p.slot)).reduce((sum, p) => sum + p.points, 0);
+  const benchPoints = roster.players.filter(p => p.slot === 'BN').reduce((sum, p) => sum + p.points, 0);
+  const optimal = Math.max(actual, computeOptimalLineup(roster.players, startingSlots(roster, positions)).points);
+
+  return {
+    actual: round(actual),
+    optimal: round(optimal),
+    benchPoints: round(benchPoints),
+    pointsLeft: round(optimal - actual),
+    efficiency: optimal > 0 ? (actual / optimal) * 100 : 100
+  };
+};
+
+export interface ManagerEfficiency {
+  managerId: string;
+  weeks: number;
+  actual: number;
+  optimal: number;
+  benchPoints: number;
+  pointsLeft: number;
+  efficiency: number;
+  worstWeek?: { year: number; week: number; pointsLeft: number };
+}
+
+// Season or career totals per manager across the given seasons' roster snapshots
+export const summarizeEfficiency = (seasons: Season[], rosters: Record<string, SeasonRosters>): ManagerEfficiency[] => {
+  const totals = new Map<string, ManagerEfficiency>();
+
+  seasons.forEach(season => {
+    Object.values(rosters[season.key] || {}).forEach(weekRosters => {
+      weekRosters.forEach(roster => {
+        const result = analyzeLineup(roster, season.rosterPositions);
+        const entry = totals.get(roster.managerId) || { managerId: roster.managerId, weeks: 0, actual: 0, optimal: 0, benchPoints: 0, pointsLeft: 0, efficiency: 0 };
+
+        entry.weeks++;
+        entry.actual += result.actual;
+        entry.optimal += result.optimal;
+        entry.benchPoints += result.benchPoints;
+        entry.pointsLeft += result.pointsLeft;
+        if (!entry.worstWeek || result.pointsLeft > entry.worstWeek.pointsLeft) {
+          entry.worstWeek = { year: season.year, week: roster.week, pointsLeft: result.pointsLeft };
+        }
+        totals.set(roster.managerId, entry);
+      });
+    });
+  });
+
+  return Array.from(totals.values())
+    .map(e => ({ ...e, efficiency: e.optimal > 0 ? (e.actual / e.optimal) * 100 : 100 }))
+    .sort((a, b) => b.efficiency - a.efficiency);
+};
+
+export const findTeamWeek = (rosters: SeasonRosters | undefined, week: number, managerId: string): TeamWeekRoster | undefined => {
+  return rosters?.[week]?.find(r => r.managerId === managerId);
+};
@@ -0,0 +1,93 @@
+import { LeagueData, ManagerAliasMap, Season, TeamManager } from '../types';
+
+// Manager aliases let the commissioner fold several Yahoo accounts into one person and pick
+// their display name and avatar. The stored league keeps the raw ids; the alias map is applied
+// whenever a league is loaded, so it carries over to every future sync.
+
+// Merged id -> canonical id
+export const buildAliasLookup = (aliases: ManagerAliasMap): Map<string, string> => {
+  const lookup = new Map<string, string>();
+  Object.entries(aliases).forEach(([canonicalId, identity]) => {
+    (identity.merged || []).forEach(m => {
+      if (m.id !== canonicalId) lookup.set(m.id, canonicalId);
+    });
+  });
+  return lookup;
+};
+
+export const resolveManagerId = (data: LeagueData, managerId: string): string => {
+  return data.managerAliases?.[managerId] || managerId;
+};
+
+const dedupeTeamManagers = (managers: TeamManager[]): TeamManager[] => {
+  const byId = new Map<string, TeamManager>();
+  managers.forEach(m => {
+    const prev = byId.get(m.managerId);
+    byId.set(m.managerId, { managerId: m.managerId, isPrimary: m.isPrimary || !!prev?.isPrimary });
+  });
+  return Array.from(byId.values());
+};
+
+const aliasSeason = (season: Season, resolve: (id: string) => string): Season => ({
+  ...season,
+  championId: season.championId ? resolve(season.championId) : season.championId,
+  standings: season.standings.map(st => ({
+    ...st,
+    managerId: resolve(st.managerId),
+    managers: st.managers ? dedupeTeamManagers(st.managers.map(m => ({ ...m, managerId: resolve(m.managerId) }))) : undefined
+  })),
+  games: season.games?.map(g => ({
+    ...g,
+    teamA: { ...g.teamA, managerId: resolve(g.teamA.managerId) },
+    teamB: { ...g.teamB, managerId: resolve(g.teamB.managerId) }
+  })),
+  draft: season.draft?.map(pick => ({ ...pick, managerId: resolve(pick.managerId) })),
+  transactions: season.transactions?.map(txn => ({
+    ...txn,
+    managerIds: Array.from(new Set(txn.managerIds.map(resolve))),
+    players: txn.players.map(p => ({ ...p, managerId: resolve(p.managerId), fromManagerId: p.fromManagerId ? resolve(p.fromManagerId) : undefined })),
+    tradeSides: txn.tradeSides?.map(side => ({ ...side, managerId: resolve(side.managerId) }))
+  }))
+});
+
+export const applyManagerAliases = (data: LeagueData, aliases: ManagerAliasMap): LeagueData => {
+  const lookup = buildAliasLookup(aliases);
+  if (lookup.size === 0 && Object.keys(aliases).length === 0) return data;
+
+  const resolve = (id: string) => lookup.get(id) || id;
+
+  const managers = data.managers
+    .filter(m => !lookup.has(m.id))
+    .map(m => {
+      const identity = aliases[m.id];
+      return identity ? { ...m, name: identity.name || m.name, avatar: identity.avatar || m.avatar } : m;
+    });
+
+  return {
+    ...data,
+    managers,
+    seasons: data.seasons.map(s => aliasSeason(s, resolve)),
+    managerAliases: Object.fromEntries(lookup)
+  };
+};
+
+// Folds `source` (and anything already merged into it) into `target`
+export const mergeManagerInto = (aliases: ManagerAliasMap, targetId: string, source: { id: string; name: string }): ManagerAliasMap => {
+  if (targetId === source.id) return aliases;
+  const next = { ...aliases };
+  const sourceIdentity = next[source.id];
+  delete next[source.id];
+
+  const target = next[targetId] || {};
+  next[targetId] = {
+    ...target,
+    merged: [...(target.merged || []), source, ...(sourceIdentity?.merged || [])]
+  };
+  return next;
+};
+
+export const unmergeManager = (aliases: ManagerAliasMap, targetId: string, mergedId: string): ManagerAliasMap => {
+  const target = aliases[targetId];
+  if (!target) return aliases;
+  return { ...aliases, [targetId]: { ...target, merged: (target.merged || []).filter(m => m.id !== mergedId) } };
+};
@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { LeagueData } from '../types';
+import { buildManualSeasons, collectManagerNames, matchManagerNames, newManagerId, parseImportFile } from './manualImport';
+import { mergeLeagueData } from './leagueMerge';
+
+const csv = (text: string) => parseImportFile(text, 'rows.csv');
+
+describe('manual import manager ids', () => {
+  it('creates ids that are valid Firebase keys, since the alias map is keyed by them', () => {
+    expect(newManagerId('Greg O. Smith')).toBe('manual-greg-o-smith');
+
+    const standings = csv('year,manager,wins,losses\n2009,Greg,8,5\n2009,Dana,5,8\n');
+    const { data, issues } = buildManualSeasons({ standings }, {}, null);
+    expect(issues).toEqual([]);
+    expect(data.managers.map(m => m.id).sort()).toEqual(['manual-dana', 'manual-greg']);
+    data.managers.forEach(m => expect(m.id).not.toMatch(/[.#$/[\]]/));
+  });
+
+  it('keeps names that slug alike apart instead of merging their records', () => {
+    const standings = csv('year,manager,wins,losses\n2009,Bob O.,8,5\n2009,Bob O,5,8\n2009,???,6,7\n2009,!!!,7,6\n');
+    const { data, issues } = buildManualSeasons({ standings }, {}, null);
+    expect(issues).toEqual([]);
+    expect(data.managers.map(m => [m.name, m.id])).toEqual([
+      ['Bob O.', 'manual-bob-o'],
+      ['Bob O', 'manual-bob-o-2'],
+      ['???', 'manual-manager'],
+      ['!!!', 'manual-manager-2']
+    ]);
+    expect(new Set(data.seasons[0].standings.map(st => st.managerId)).size).toBe(4);
+  });
+
+  it('does not reuse the id of an existing manager with a different name', () => {
+    const existing: LeagueData = { managers: [{ id: 'manual-bob-o', name: 'Bob O.', avatar: '' }], seasons: [] };
+    const standings = csv('year,manager\n2008,Bob O\n2008,Dana\n');
+    const { data } = buildManualSeasons({ standings }, {}, existing);
+    expect(data.managers.find(m => m.name === 'Bob O')!.id).toBe('manual-bob-o-2');
+  });
+});
+
+describe('malformed rows', () => {
+  it('reports each bad row with its kind and row number and builds nothing', () => {
+    const standings = csv('year,manager,wins,points_for\n2009,Greg,eight,100\n,Dana,5,90\n2009,Greg,6,abc\n');
+    const results = csv('year,week,manager_a,points_a,manager_b,points_b\n2009,1,Greg,100,Zed,90\n2010,1,Greg,100,Dana,90\n');
+    const draft = csv('year,round,pick,manager,player\n2009,1,1,Greg,\n');
+    const { data, issues } = buildManualSeasons({ standings, results, draft }, {}, null);
+
+    expect(issues).toEqual([
+      { kind: 'standings', row: 1, message: 'wins must be a whole number, got "eight"' },
+      { kind: 'standings', row: 2, message: 'Missing year' },
+      { kind: 'standings', row: 3, message: 'points_for must be a number, got "abc"' },
+      { kind: 'standings', row: 3, message: 'Greg is listed twice in 2009' },
+      { kind: 'results', row: 1, message: "Zed isn't in the 2009 standings" },
+      { kind: 'results', row: 2, message: 'No standings were imported for 2010' },
+      { kind: 'results', row: 2, message: 'No standings were imported for 2010' },
+      { kind: 'draft', row: 1, message: 'Missing player' }
+    ]);
+    expect(data.seasons).toEqual([]);
+  });
+
+  it('rejects JSON that is not an array of rows', () => {
+    expect(() => parseImportFile('{"year": 2009}', 'rows.json')).toThrow('JSON imports must be an array of rows.');
+  });
+});
+
+describe('merging into an existing league', () => {
+  const existing: LeagueData = {
+    managers: [{ id: '{GUID-A}', name: 'Alice', avatar: '' }, { id: '{GUID-B}', name: 'Bea', avatar: '' }],
+    seasons: [{ year: 2015, key: '352.l.1', championId: '{GUID-A}', standings: [] }]
+  };
+
+  it('matches names to stored managers and keeps the synced seasons', () => {
+    const standings = csv('year,manager,wins,losses\n2009,alice,9,4\n2009,Carl,4,9\n');
+    const results = csv('year,week,manager_a,points_a,manager_b,points_b\n2009,1,Alice,120,Carl,100\n');
+    const names = collectManagerNames({ standings, results });
+    const mapping = matchManagerNames(names, existing.managers);
+    expect(mapping).toEqual({ alice: '{GUID-A}' });
+
+    const { data: incoming, issues } = buildManualSeasons({ standings, results }, mapping, existing);
+    expect(issues).toEqual([]);
+    expect(incoming.managers.map(m => m.id)).toEqual(['manual-carl']);
+
+    const { data, preview } = mergeLeagueData(existing, incoming);
+    expect(data.seasons.map(s => s.key)).toEqual(['manual.2009', '352.l.1']);
+    expect(preview.added.map(s => s.key)).toEqual(['manual.2009']);
+    expect(data.managers.map(m => m.id)).toEqual(['{GUID-A}', '{GUID-B}', 'manual-carl']);
+    expect(data.seasons[0].games![0].teamA.managerId).toBe('{GUID-A}');
+    expect(data.seasons[0].championId).toBe('{GUID-A}');
+  });
+
+  it('refuses a year that already has a synced season', () => {
+    const standings = csv('year,manager\n2015,Alice\n');
+    const { issues } = buildManualSeasons({ standings }, { Alice: '{GUID-A}' }, existing);
+    expect(issues).toEqual([{ kind: 'standings', row: 1, message: '2015 already has a synced season' }]);
+  });
+
+  it('replaces an earlier import of the same year', () => {
+    const first = buildManualSeasons({ standings: csv('year,manager,wins\n2009,Alice,9\n') }, { Alice: '{GUID-A}' }, existing).data;
+    const stored = mergeLeagueData(existing, first).data;
+    const second = buildManualSeasons({ standings: csv('year,manager,wins\n2009,Alice,11\n') }, { Alice: '{GUID-A}' }, stored).data;
+
+    const { data, preview } = mergeLeagueData(stored, second);
+    expect(data.seasons.filter(s => s.key === 'manual.2009')).toHaveLength(1);
+    expect(data.seasons[0].standings[0].stats.wins).toBe(11);
+    expect(preview.updated.map(s => s.key)).toEqual(['manual.2009']);
+  });
+});
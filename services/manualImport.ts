@@ -0,0 +1,352 @@
+import { DraftPick, Game, LeagueData, Manager, ManagerAliasMap, ManagerSeason, PlayerInfo, Season } from '../types';
+import { playoffRounds } from './playoffs';
+
+// Seasons from before any platform (paper leagues, spreadsheets) are imported from CSV or JSON.
+// Each file holds one kind of row and names managers as they were written down; names are
+// matched to existing managers before anything is built. Imported seasons are keyed "manual.<year>",
+// so importing a year again replaces it.
+
+export type ImportKind = 'standings' | 'results' | 'draft';
+export type ImportRow = Record<string, string>;
+
+export const MANUAL_KEY_PREFIX = 'manual.';
+// Manager ids key the alias map in Firebase, where keys can't contain '.'
+const MANUAL_MANAGER_PREFIX = 'manual-';
+const DEFAULT_AVATAR = 'https://s.yimg.com/dh/ap/fantasy/img/profile/icon_user_default.png';
+
+export const IMPORT_COLUMNS: Record<ImportKind, { required: string[]; optional: string[] }> = {
+  standings: { required: ['year', 'manager'], optional: ['team', 'rank', 'wins', 'losses', 'ties', 'points_for', 'points_against', 'playoffs', 'champion'] },
+  results: { required: ['year', 'week', 'manager_a', 'points_a', 'manager_b', 'points_b'], optional: ['playoffs', 'consolation'] },
+  draft: { required: ['year', 'round', 'pick', 'manager', 'player'], optional: ['position', 'cost', 'keeper'] }
+};
+
+const MANAGER_COLUMNS: Record<ImportKind, string[]> = {
+  standings: ['manager'],
+  results: ['manager_a', 'manager_b'],
+  draft: ['manager']
+};
+
+export interface ImportIssue {
+  kind: ImportKind;
+  row: number; // 1-based data row (the CSV header isn't counted)
+  message: string;
+}
+
+// --- FILE PARSING ---
+
+// "Points For", "points-for" and "pointsFor" all become "points_for"
+const normalizeColumn = (name: string) => name
+  .trim()
+  .replace(/([a-z])([A-Z])/g, '$1_$2')
+  .toLowerCase()
+  .replace(/[\s-]+/g, '_');
+
+// RFC 4180 style: quoted fields may contain commas, newlines and doubled quotes
+export const parseCsv = (text: string): ImportRow[] => {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (c === '"') quoted = false;
+      else field += c;
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === ',') {
+      record.push(field);
+      field = '';
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += c;
+    }
+  }
+  if (field || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  const nonEmpty = records.filter(r => r.some(f => f.trim() !== ''));
+  if (nonEmpty.length === 0) return [];
+  const header = nonEmpty[0].map(normalizeColumn);
+  return nonEmpty.slice(1).map(r => Object.fromEntries(header.map((col, i) => [col, (r[i] || '').trim()])));
+};
+
+// JSON files are an array of row objects using the same column names as the CSV
+export const parseImportFile = (text: string, fileName: string): ImportRow[] => {
+  const trimmed = text.trim();
+  if (!fileName.toLowerCase().endsWith('.json') && !trimmed.startsWith('[')) return parseCsv(text);
+
+  const parsed = JSON.parse(trimmed);
+  if (!Array.isArray(parsed)) throw new Error("JSON imports must be an array of rows.");
+  return parsed.map((row: any) => Object.fromEntries(
+    Object.entries(row || {}).map(([key, value]) => [normalizeColumn(key), value === null || value === undefined ? '' : String(value).trim()])
+  ));
+};
+
+// --- MANAGER NAMES ---
+
+const nameKey = (name: string) => name.trim().toLowerCase().replace(/\s+/g, ' ');
+
+const slugify = (text: string) => text.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+export const newManagerId = (name: string) => `${MANUAL_MANAGER_PREFIX}${slugify(name) || 'manager'}`;
+
+export const collectManagerNames = (rows: Partial<Record<ImportKind, ImportRow[]>>): string[] => {
+  const names = new Map<string, string>();
+  (Object.keys(MANAGER_COLUMNS) as ImportKind[]).forEach(kind => {
+    (rows[kind] || []).forEach(row => MANAGER_COLUMNS[kind].forEach(col => {
+      const name = row[col];
+      if (name && !names.has(nameKey(name))) names.set(nameKey(name), name.trim());
+    }));
+  });
+  return Array.from(names.values()).sort((a, b) => a.localeCompare(b));
+};
+
+// Matches on the current display name, or on any name a manager had before being merged
+export const matchManagerNames = (names: string[], managers: Manager[], aliases: ManagerAliasMap = {}): Record<string, string> => {
+  const byName = new Map<string, string>();
+  Object.entries(aliases).forEach(([id, identity]) => (identity.merged || []).forEach(m => byName.set(nameKey(m.name), id)));
+  managers.forEach(m => byName.set(nameKey(m.name), m.id));
+
+  const mapping: Record<string, string> = {};
+  names.forEach(name => {
+    const id = byName.get(nameKey(name));
+    if (id) mapping[name] = id;
+  });
+  return mapping;
+};
+
+// --- SEASON BUILDING ---
+
+const TRUE_VALUES = ['1', 'y', 'yes', 'true', 'x'];
+const isTruthy = (value?: string) => !!value && TRUE_VALUES.includes(value.trim().toLowerCase());
+
+export const buildManualSeasons = (
+  rows: Partial<Record<ImportKind, ImportRow[]>>,
+  mapping: Record<string, string>, // Imported name -> manager id; unmapped names become new managers
+  existing: LeagueData | null
+): { data: LeagueData; issues: ImportIssue[] } => {
+  const issues: ImportIssue[] = [];
+  const managerNames = new Map<string, string>(); // id -> name, for new managers
+  const newIds = new Map<string, string>(); // name key -> id, for new managers
+
+  // Names that slug alike ("Bob O." and "Bob O") are different people, so a taken id gets a numeric suffix
+  const takenIds = new Set([...(existing?.managers || []).map(m => m.id), ...Object.values(mapping)]);
+  const newIdFor = (name: string) => {
+    const key = nameKey(name);
+    if (!newIds.has(key)) {
+      const base = newManagerId(name);
+      let id = base;
+      for (let n = 2; takenIds.has(id); n++) id = `${base}-${n}`;
+      takenIds.add(id);
+      newIds.set(key, id);
+    }
+    return newIds.get(key)!;
+  };
+
+  const resolve = (name: string) => {
+    const mapped = Object.entries(mapping).find(([n]) => nameKey(n) === nameKey(name))?.[1];
+    const id = mapped || newIdFor(name);
+    if (!mapped) managerNames.set(id, name.trim());
+    return id;
+  };
+
+  // Field readers record an issue and return null for anything that doesn't fit the Season shapes
+  const reader = (kind: ImportKind, rowNumber: number, row: ImportRow) => {
+    const fail = (message: string) => { issues.push({ kind, row: rowNumber, message }); return null; };
+    return {
+      text: (col: string) => row[col] ? row[col] : fail(`Missing ${col}`),
+      int: (col: string, min = 0, required = true): number | null => {
+        if (!row[col]) return required ? fail(`Missing ${col}`) : null;
+        const value = Number(row[col]);
+        return Number.isInteger(value) && value >= min ? value : fail(`${col} must be a whole number, got "${row[col]}"`);
+      },
+      num: (col: string, required = true): number | null => {
+        if (!row[col]) return required ? fail(`Missing ${col}`) : null;
+        const value = Number(row[col]);
+        return Number.isFinite(value) ? value : fail(`${col} must be a number, got "${row[col]}"`);
+      },
+      fail
+    };
+  };
+
+  const syncedYears = new Set((existing?.seasons || []).filter(s => !s.key.startsWith(MANUAL_KEY_PREFIX)).map(s => s.year));
+
+  // Standings define which teams took part in each season
+  const standingsByYear = new Map<number, { managerId: string; row: ImportRow }[]>();
+  (rows.standings || []).forEach((row, i) => {
+    const r = reader('standings', i + 1, row);
+    const year = r.int('year', 1900);
+    const manager = r.text('manager');
+    ['rank', 'wins', 'losses', 'ties'].forEach(col => r.int(col, 0, false));
+    ['points_for', 'points_against'].forEach(col => r.num(col, false));
+    if (year === null || manager === null) return;
+
+    if (syncedYears.has(year)) return r.fail(`${year} already has a synced season`);
+    const teams = standingsByYear.get(year) || [];
+    const managerId = resolve(manager);
+    if (teams.some(t => t.managerId === managerId)) return r.fail(`${manager} is listed twice in ${year}`);
+    standingsByYear.set(year, [...teams, { managerId, row }]);
+  });
+
+  const teamIn = (year: number, name: string, fail: (m: string) => null): string | null => {
+    if (!standingsByYear.has(year)) return fail(`No standings were imported for ${year}`);
+    const managerId = resolve(name);
+    return standingsByYear.get(year)!.some(t => t.managerId === managerId) ? managerId : fail(`${name} isn't in the ${year} standings`);
+  };
+
+  const gamesByYear = new Map<number, { week: number; a: string; b: string; pointsA: number; pointsB: number; playoffs: boolean; consolation: boolean }[]>();
+  (rows.results || []).forEach((row, i) => {
+    const r = reader('results', i + 1, row);
+    const year = r.int('year', 1900);
+    const week = r.int('week', 1);
+    const nameA = r.text('manager_a');
+    const nameB = r.text('manager_b');
+    const pointsA = r.num('points_a');
+    const pointsB = r.num('points_b');
+    if (year === null || week === null || nameA === null || nameB === null || pointsA === null || pointsB === null) return;
+
+    const a = teamIn(year, nameA, r.fail);
+    const b = teamIn(year, nameB, r.fail);
+    if (!a || !b) return;
+    if (a === b) return r.fail(`${nameA} can't play themselves`);
+
+    const games = gamesByYear.get(year) || [];
+    if (games.some(g => g.week === week && [g.a, g.b].some(id => id === a || id === b))) {
+      return r.fail(`${nameA} or ${nameB} already has a week ${week} game in ${year}`);
+    }
+    const playoffs = isTruthy(row.playoffs) || isTruthy(row.consolation);
+    gamesByYear.set(year, [...games, { week, a, b, pointsA, pointsB, playoffs, consolation: isTruthy(row.consolation) }]);
+  });
+
+  const picksByYear = new Map<number, { round: number; pick: number; managerId: string; player: string; row: ImportRow }[]>();
+  (rows.draft || []).forEach((row, i) => {
+    const r = reader('draft', i + 1, row);
+    const year = r.int('year', 1900);
+    const round = r.int('round', 1);
+    const pick = r.int('pick', 1);
+    const manager = r.text('manager');
+    const player = r.text('player');
+    r.int('cost', 0, false);
+    if (year === null || round === null || pick === null || manager === null || player === null) return;
+
+    const managerId = teamIn(year, manager, r.fail);
+    if (!managerId) return;
+    const picks = picksByYear.get(year) || [];
+    if (picks.some(p => p.pick === pick)) return r.fail(`Pick ${pick} appears twice in ${year}`);
+    picksByYear.set(year, [...picks, { round, pick, managerId, player, row }]);
+  });
+
+  if (issues.length > 0) return { data: { managers: [], seasons: [] }, issues };
+
+  const players = new Map<string, PlayerInfo>();
+  const seasons: Season[] = Array.from(standingsByYear.entries()).map(([year, teams]) => {
+    const key = `${MANUAL_KEY_PREFIX}${year}`;
+    const teamKeys = new Map(teams.map((t, i) => [t.managerId, `${key}.t.${i + 1}`]));
+    const rawGames = gamesByYear.get(year) || [];
+
+    const games: Game[] = rawGames.map(g => ({
+      week: g.week,
+      isPlayoffs: g.playoffs,
+      isConsolation: g.consolation || undefined,
+      isTie: g.pointsA === g.pointsB,
+      winnerTeamKey: g.pointsA === g.pointsB ? undefined : teamKeys.get(g.pointsA > g.pointsB ? g.a : g.b),
+      teamA: { managerId: g.a, teamKey: teamKeys.get(g.a)!, points: g.pointsA },
+      teamB: { managerId: g.b, teamKey: teamKeys.get(g.b)!, points: g.pointsB }
+    })).sort((a, b) => a.week - b.week);
+
+    const playoffWeeks = games.filter(g => g.isPlayoffs).map(g => g.week);
+    const playoffStartWeek = playoffWeeks.length > 0 ? Math.min(...playoffWeeks) : undefined;
+    const rounds = playoffRounds(games);
+    games.forEach(g => { if (g.isPlayoffs) g.playoffRound = rounds.get(g.week); });
+
+    // Columns left blank are worked out from the regular-season results
+    const regular = games.filter(g => !g.isPlayoffs);
+    const standings: ManagerSeason[] = teams.map(({ managerId, row }) => {
+      const played = regular.filter(g => g.teamA.managerId === managerId || g.teamB.managerId === managerId);
+      const own = (g: Game) => g.teamA.managerId === managerId ? g.teamA : g.teamB;
+      const opp = (g: Game) => g.teamA.managerId === managerId ? g.teamB : g.teamA;
+      const count = (col: string, fallback: number) => row[col] ? Number(row[col]) : fallback;
+
+      return {
+        managerId,
+        teamKey: teamKeys.get(managerId)!,
+        stats: {
+          rank: count('rank', 0),
+          wins: count('wins', played.filter(g => !g.isTie && g.winnerTeamKey === own(g).teamKey).length),
+          losses: count('losses', played.filter(g => !g.isTie && g.winnerTeamKey === opp(g).teamKey).length),
+          ties: count('ties', played.filter(g => g.isTie).length),
+          pointsFor: count('points_for', played.reduce((sum, g) => sum + own(g).points, 0)),
+          pointsAgainst: count('points_against', played.reduce((sum, g) => sum + opp(g).points, 0)),
+          isChampion: isTruthy(row.champion),
+          isPlayoff: isTruthy(row.playoffs)
+        }
+      };
+    });
+
+    // Unranked teams are ordered by record, then points
+    const ranked = [...standings].sort((a, b) => {
+      if (a.stats.rank && b.stats.rank) return a.stats.rank - b.stats.rank;
+      if (a.stats.rank || b.stats.rank) return a.stats.rank ? -1 : 1;
+      const pctA = (a.stats.wins + a.stats.ties / 2) / (a.stats.wins + a.stats.losses + a.stats.ties || 1);
+      const pctB = (b.stats.wins + b.stats.ties / 2) / (b.stats.wins + b.stats.losses + b.stats.ties || 1);
+      return pctB - pctA || b.stats.pointsFor - a.stats.pointsFor;
+    });
+    ranked.forEach((s, i) => { if (!s.stats.rank) s.stats.rank = i + 1; });
+
+    // Without champion / playoff columns the final rank decides, as it does for old Yahoo data
+    if (!ranked.some(s => s.stats.isChampion)) ranked[0].stats.isChampion = true;
+    if (!teams.some(t => t.row.playoffs)) ranked.forEach(s => { s.stats.isPlayoff = s.stats.rank <= 4; });
+    const champion = ranked.find(s => s.stats.isChampion)!;
+    ranked.forEach(s => {
+      if (s === champion) s.stats.playoffFinish = 1;
+      else if (champion.stats.rank === 1 && s.stats.isPlayoff && (s.stats.rank === 2 || s.stats.rank === 3)) s.stats.playoffFinish = s.stats.rank as 2 | 3;
+    });
+
+    const draft: DraftPick[] = (picksByYear.get(year) || []).map(p => {
+      const playerKey = `${MANUAL_KEY_PREFIX}player.${slugify(p.player)}`;
+      const position = p.row.position ? p.row.position.toUpperCase() : undefined;
+      players.set(playerKey, { ...players.get(playerKey), id: playerKey, name: p.player, position: position || players.get(playerKey)?.position });
+      return {
+        round: p.round,
+        pick: p.pick,
+        player: p.player,
+        playerKey,
+        managerId: p.managerId,
+        teamKey: teamKeys.get(p.managerId)!,
+        cost: p.row.cost ? Number(p.row.cost) : undefined,
+        isKeeper: isTruthy(p.row.keeper) || undefined
+      };
+    }).sort((a, b) => a.pick - b.pick);
+
+    const weeks = games.map(g => g.week);
+    return {
+      year,
+      key,
+      championId: champion.managerId,
+      standings: ranked,
+      draft,
+      transactions: [],
+      games,
+      startWeek: weeks.length > 0 ? Math.min(...weeks) : 1,
+      endWeek: weeks.length > 0 ? Math.max(...weeks) : undefined,
+      isFinished: true,
+      playoffs: playoffStartWeek
+        ? { numPlayoffTeams: ranked.filter(s => s.stats.isPlayoff).length, playoffStartWeek, hasConsolation: games.some(g => g.isConsolation) }
+        : undefined,
+      draftType: draft.length === 0 ? undefined : draft.some(p => p.cost !== undefined) ? 'auction' : 'snake'
+    };
+  });
+
+  const managers: Manager[] = Array.from(managerNames.entries()).map(([id, name]) => ({ id, name, avatar: DEFAULT_AVATAR }));
+  return { data: { managers, seasons: seasons.sort((a, b) => a.year - b.year), players: Array.from(players.values()) }, issues };
+};
@@ -0,0 +1,48 @@
+import { LeagueData, PlayerInfo } from '../types';
+
+// The league's player dictionary, filled in during sync and reused across seasons so a
+// player is only ever looked up once.
+
+export const PLAYER_POSITIONS = ['QB', 'RB', 'WR', 'TE', 'K', 'DEF'];
+
+// "390.p.30123" -> "30123"; anything that isn't a player key is returned as-is
+export const playerIdFromKey = (playerKey: string): string => {
+  const match = playerKey.match(/\.p\.(\d+)$/);
+  return match ? match[1] : playerKey;
+};
+
+export const buildPlayerIndex = (players?: PlayerInfo[]): Map<string, PlayerInfo> => {
+  return new Map((players || []).map(p => [p.id, p]));
+};
+
+export const lookupPlayer = (index: Map<string, PlayerInfo>, playerKey?: string): PlayerInfo | undefined => {
+  return playerKey ? index.get(playerIdFromKey(playerKey)) : undefined;
+};
+
+// Multi-position players ('WR,RB') match any of their positions
+export const playsPosition = (player: PlayerInfo | undefined, position: string): boolean => {
+  if (position === 'all') return true;
+  return !!player?.position && player.position.split(',').map(p => p.trim()).includes(position);
+};
+
+// Every player key referenced by drafts and transactions, newest season first so the
+// freshest key wins when the same player shows up in several years
+export const collectPlayerKeys = (data: LeagueData): Map<string, string> => {
+  const keys = new Map<string, string>();
+  const add = (key?: string) => {
+    if (key && !keys.has(playerIdFromKey(key))) keys.set(playerIdFromKey(key), key);
+  };
+
+  [...data.seasons].sort((a, b) => b.year - a.year).forEach(season => {
+    (season.draft || []).forEach(pick => add(pick.playerKey));
+    (season.transactions || []).forEach(txn => (txn.players || []).forEach(p => add(p.playerKey)));
+  });
+  return keys;
+};
+
+// Incoming entries win for the same id; stored players nobody referenced this sync are kept
+export const mergePlayers = (existing: PlayerInfo[] = [], incoming: PlayerInfo[] = []): PlayerInfo[] => {
+  const merged = buildPlayerIndex(existing);
+  incoming.forEach(p => merged.set(p.id, { ...merged.get(p.id), ...p }));
+  return Array.from(merged.values());
+};
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { Game, ManagerSeason, Season } from '../types';
+import { applyPlayoffResults, gameResult } from './playoffs';
+
+const team = (id: number): ManagerSeason => ({
+  managerId: `m${id}`,
+  teamKey: `t.${id}`,
+  stats: { rank: id, wins: 14 - id, losses: id, ties: 0, pointsFor: 1500 - id * 10, pointsAgainst: 1300, isChampion: false, isPlayoff: false, playoffSeed: id }
+});
+
+const game = (week: number, a: number, pointsA: number, b: number, pointsB: number): Game => ({
+  week,
+  isPlayoffs: false,
+  isTie: false,
+  winnerTeamKey: `t.${pointsA > pointsB ? a : b}`,
+  teamA: { managerId: `m${a}`, teamKey: `t.${a}`, points: pointsA },
+  teamB: { managerId: `m${b}`, teamKey: `t.${b}`, points: pointsB }
+});
+
+const season = (games: Game[]): Season => applyPlayoffResults({
+  year: 2024,
+  key: 's',
+  championId: '',
+  standings: [1, 2, 3, 4, 5, 6].map(team),
+  games,
+  isFinished: true,
+  playoffs: { numPlayoffTeams: 4, playoffStartWeek: 15, hasConsolation: true }
+});
+
+const rounds = (s: Season) => s.games!.map(g => [g.week, g.teamA.teamKey, g.playoffRound, !!g.isConsolation]);
+const finishes = (s: Season) => Object.fromEntries(s.standings.filter(st => st.stats.playoffFinish).map(st => [st.managerId, st.stats.playoffFinish]));
+
+describe('playoff rounds', () => {
+  it('numbers one-week rounds by week', () => {
+    const s = season([
+      game(15, 1, 120, 4, 100), game(15, 2, 110, 3, 90), game(15, 5, 80, 6, 70),
+      game(16, 1, 100, 2, 130), game(16, 3, 95, 4, 85), game(16, 5, 60, 6, 90)
+    ]);
+    expect(rounds(s)).toEqual([
+      [15, 't.1', 1, false], [15, 't.2', 1, false], [15, 't.5', 1, true],
+      [16, 't.1', 2, false], [16, 't.3', 2, false], [16, 't.5', 2, true]
+    ]);
+    expect(s.championId).toBe('m2');
+    expect(finishes(s)).toEqual({ m1: 2, m2: 1, m3: 3 });
+  });
+
+  it('keeps a two-week round together and decides it on total points', () => {
+    // Team 4 wins the first week of the semifinal, but team 1 advances on the two-week total
+    const s = season([
+      game(15, 1, 90, 4, 100), game(15, 2, 110, 3, 90), game(15, 5, 80, 6, 70),
+      game(16, 1, 120, 4, 95), game(16, 2, 105, 3, 100), game(16, 5, 75, 6, 85),
+      game(17, 1, 100, 2, 130), game(17, 3, 95, 4, 85), game(17, 5, 60, 6, 90)
+    ]);
+    expect(rounds(s)).toEqual([
+      [15, 't.1', 1, false], [15, 't.2', 1, false], [15, 't.5', 1, true],
+      [16, 't.1', 1, false], [16, 't.2', 1, false], [16, 't.5', 1, true],
+      [17, 't.1', 2, false], [17, 't.3', 2, false], [17, 't.5', 2, true]
+    ]);
+    expect(s.championId).toBe('m2');
+    expect(finishes(s)).toEqual({ m1: 2, m2: 1, m3: 3 });
+  });
+
+  it('decides a two-week final on total points', () => {
+    const s = season([
+      game(15, 1, 120, 4, 100), game(15, 2, 110, 3, 90),
+      game(16, 1, 140, 2, 100), game(16, 3, 95, 4, 85),
+      game(17, 1, 80, 2, 110), game(17, 3, 90, 4, 92)
+    ]);
+    expect(s.games!.map(g => g.playoffRound)).toEqual([1, 1, 2, 2, 2, 2]);
+    expect(s.championId).toBe('m1');
+    expect(finishes(s)).toEqual({ m1: 1, m2: 2, m3: 3 });
+  });
+});
+
+describe('game results', () => {
+  it('takes the platform winner over the points, e.g. after a tie-break', () => {
+    const tieBreak = { ...game(3, 1, 100, 2, 100), winnerTeamKey: 't.2' };
+    expect(gameResult(tieBreak, 't.1')).toBe('L');
+    expect(gameResult(tieBreak, 't.2')).toBe('W');
+  });
+
+  it('falls back to the points when no winner is stored', () => {
+    const { winnerTeamKey, ...unflagged } = game(3, 1, 110, 2, 100);
+    expect(gameResult(unflagged, 't.1')).toBe('W');
+    expect(gameResult(unflagged, 't.2')).toBe('L');
+  });
+
+  it('counts ties for both teams', () => {
+    const tie = { ...game(3, 1, 100, 2, 100), isTie: true, winnerTeamKey: undefined };
+    expect(gameResult(tie, 't.1')).toBe('T');
+    expect(gameResult(tie, 't.2')).toBe('T');
+    const { winnerTeamKey, ...evenPoints } = game(3, 1, 95, 2, 95);
+    expect(gameResult(evenPoints, 't.1')).toBe('T');
+  });
+});
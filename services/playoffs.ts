@@ -0,0 +1,233 @@
+import { Game, ManagerSeason, PlayoffSettings, Season } from '../types';
+
+// Playoff results are derived from the bracket itself rather than Yahoo's final rank,
+// which doesn't always reflect who won the championship game.
+
+// Parses the playoff fields of a league's `settings` node
+export const readPlayoffSettings = (settings: any): PlayoffSettings | undefined => {
+  if (!settings || settings.uses_playoff === '0' || settings.uses_playoff === 0) return undefined;
+
+  const numPlayoffTeams = parseInt(settings.num_playoff_teams);
+  const playoffStartWeek = parseInt(settings.playoff_start_week);
+  if (!numPlayoffTeams || !playoffStartWeek) return undefined;
+
+  const hasConsolation = settings.has_playoff_consolation_games === true || settings.has_playoff_consolation_games === '1' || settings.has_playoff_consolation_games === 1;
+  const numConsolationTeams = parseInt(settings.num_playoff_consolation_teams);
+
+  return {
+    numPlayoffTeams,
+    playoffStartWeek,
+    hasConsolation,
+    numConsolationTeams: hasConsolation && numConsolationTeams ? numConsolationTeams : undefined
+  };
+};
+
+// Yahoo's playoff_seed when present, otherwise regular-season record then points
+export const seedTeams = (standings: ManagerSeason[]): ManagerSeason[] => {
+  return [...standings].sort((a, b) => {
+    if (a.stats.playoffSeed && b.stats.playoffSeed) return a.stats.playoffSeed - b.stats.playoffSeed;
+    if (a.stats.playoffSeed) return -1;
+    if (b.stats.playoffSeed) return 1;
+    const pctA = (a.stats.wins + a.stats.ties / 2) / (a.stats.wins + a.stats.losses + a.stats.ties || 1);
+    const pctB = (b.stats.wins + b.stats.ties / 2) / (b.stats.wins + b.stats.losses + b.stats.ties || 1);
+    return pctB - pctA || b.stats.pointsFor - a.stats.pointsFor;
+  });
+};
+
+export const winnerOf = (game: Game): string | null => {
+  if (game.isTie) return null;
+  if (game.winnerTeamKey) return game.winnerTeamKey;
+  if (game.teamA.points === game.teamB.points) return null;
+  return game.teamA.points > game.teamB.points ? game.teamA.teamKey : game.teamB.teamKey;
+};
+
+// A game's result for one of its teams. The platform's winner decides (it settles tie-breaks),
+// falling back to the points; every view counts wins and losses this way.
+export const gameResult = (game: Game, teamKey: string): 'W' | 'L' | 'T' => {
+  const winner = winnerOf(game);
+  if (!winner) return 'T';
+  return winner === teamKey ? 'W' : 'L';
+};
+
+const loserOf = (game: Game): string | null => {
+  const winner = winnerOf(game);
+  if (!winner) return null;
+  return winner === game.teamA.teamKey ? game.teamB.teamKey : game.teamA.teamKey;
+};
+
+// Championship bracket games only; consolation / toilet-bowl games don't count as playoff games.
+// Data synced before consolation games were flagged treats every playoff-week game as bracket play.
+export const isChampionshipGame = (game: Game): boolean => game.isPlayoffs && !game.isConsolation;
+
+// Same set of matchups, regardless of home/away or order
+const pairingKey = (games: Game[]): string =>
+  games.map(g => [g.teamA.teamKey, g.teamB.teamKey].sort().join('|')).sort().join(',');
+
+// Winner of a matchup over a whole round: the game itself for a one-week round, otherwise the
+// higher points total across the round's weeks
+const roundWinner = (games: Game[]): string | null => {
+  if (games.length === 1) return winnerOf(games[0]);
+  const [a, b] = [games[0].teamA.teamKey, games[0].teamB.teamKey];
+  const total = (teamKey: string) => games.reduce((sum, g) => sum + (g.teamA.teamKey === teamKey ? g.teamA.points : g.teamB.points), 0);
+  const margin = total(a) - total(b);
+  if (margin === 0) return null;
+  return margin > 0 ? a : b;
+};
+
+const roundLoser = (games: Game[]): string | null => {
+  const winner = roundWinner(games);
+  if (!winner) return null;
+  return winner === games[0].teamA.teamKey ? games[0].teamB.teamKey : games[0].teamA.teamKey;
+};
+
+// The round's games grouped by matchup
+const matchupsOf = (games: Game[]): Game[][] => {
+  const byPair = new Map<string, Game[]>();
+  games.forEach(g => {
+    const key = pairingKey([g]);
+    byPair.set(key, [...(byPair.get(key) || []), g]);
+  });
+  return Array.from(byPair.values());
+};
+
+// Playoff round of each playoff week. A round lasts as long as the same championship matchups
+// keep playing, so two-week rounds (and two-week finals) count once.
+export const playoffRounds = (games: Game[]): Map<number, number> => {
+  const weeks = Array.from(new Set(games.filter(g => g.isPlayoffs).map(g => g.week))).sort((a, b) => a - b);
+  const rounds = new Map<number, number>();
+  let round = 0;
+  let previousKey = '';
+  weeks.forEach(week => {
+    const key = pairingKey(games.filter(g => g.week === week && isChampionshipGame(g)));
+    if (!key || key !== previousKey) round++;
+    rounds.set(week, round);
+    previousKey = key;
+  });
+  return rounds;
+};
+
+export interface BracketResult {
+  playoffTeams: string[]; // Team keys in the championship bracket
+  bracketGames: Set<Game>; // Championship bracket games, including the third-place game
+  champion?: string;
+  runnerUp?: string;
+  third?: string;
+}
+
+// Walks the championship bracket round by round. A round runs while the same teams keep meeting
+// each other, so multi-week rounds are decided on total points. A team is eliminated when it loses
+// a round to another team still alive; games against teams already out (consolation) don't count.
+export const resolveBracket = (season: Season): BracketResult | null => {
+  const settings = season.playoffs;
+  if (!settings) return null;
+
+  const playoffTeams = seedTeams(season.standings).slice(0, settings.numPlayoffTeams).map(s => s.teamKey);
+  const result: BracketResult = { playoffTeams, bracketGames: new Set() };
+
+  const playoffGames = (season.games || []).filter(g => g.week >= settings.playoffStartWeek);
+  const weeks = Array.from(new Set(playoffGames.map(g => g.week))).sort((a, b) => a - b);
+  if (weeks.length === 0) return result;
+
+  const alive = new Set(playoffTeams);
+  let previousRoundLosers: string[] = [];
+  const bracketGamesIn = (week: number) =>
+    playoffGames.filter(g => g.week === week && alive.has(g.teamA.teamKey) && alive.has(g.teamB.teamKey));
+
+  // Final: the last two teams standing
+  const resolveFinal = (finalGames: Game[], roundWeeks: number[]) => {
+    const champion = roundWinner(finalGames);
+    if (champion) {
+      result.champion = champion;
+      result.runnerUp = roundLoser(finalGames) || undefined;
+    }
+
+    // Third place goes to whichever semifinal loser won their game that round,
+    // or to the better final rank if they didn't play each other
+    const thirdGames = playoffGames.filter(g => roundWeeks.includes(g.week) && previousRoundLosers.includes(g.teamA.teamKey) && previousRoundLosers.includes(g.teamB.teamKey));
+    thirdGames.forEach(g => result.bracketGames.add(g));
+    const thirdByGame = thirdGames.length > 0 ? roundWinner(thirdGames) : null;
+    if (thirdByGame) {
+      result.third = thirdByGame;
+    } else if (champion && previousRoundLosers.length > 0 && season.isFinished) {
+      const ranked = season.standings.filter(s => previousRoundLosers.includes(s.teamKey)).sort((a, b) => a.stats.rank - b.stats.rank);
+      result.third = ranked[0]?.teamKey;
+    }
+  };
+
+  const eliminate = (roundGames: Game[]) => {
+    previousRoundLosers = [];
+    matchupsOf(roundGames).forEach(matchup => {
+      const loser = roundLoser(matchup);
+      if (loser) {
+        alive.delete(loser);
+        previousRoundLosers.push(loser);
+      }
+    });
+  };
+
+  let round: { key: string; weeks: number[]; games: Game[] } | null = null;
+  for (const week of weeks) {
+    let bracketGames = bracketGamesIn(week);
+    if (bracketGames.length === 0) continue;
+    if (round && pairingKey(bracketGames) === round.key) {
+      round.weeks.push(week);
+      round.games.push(...bracketGames);
+      bracketGames.forEach(g => result.bracketGames.add(g));
+      continue;
+    }
+
+    // New matchups: the previous round is over
+    if (round) {
+      if (alive.size === 2) break;
+      eliminate(round.games);
+      bracketGames = bracketGamesIn(week);
+      if (bracketGames.length === 0) continue;
+    }
+    round = { key: pairingKey(bracketGames), weeks: [week], games: bracketGames };
+    bracketGames.forEach(g => result.bracketGames.add(g));
+  }
+
+  if (round && alive.size === 2 && matchupsOf(round.games).length === 1) resolveFinal(round.games, round.weeks);
+  return result;
+};
+
+// Sets isPlayoff / isChampion / playoffFinish and the season champion from the bracket, and tags
+// playoff-week games with their round and whether they were consolation games.
+// Without playoff settings (older data) the flags from the standings parse are left alone.
+export const applyPlayoffResults = (season: Season): Season => {
+  const bracket = resolveBracket(season);
+  if (!bracket) return season;
+
+  const startWeek = season.playoffs!.playoffStartWeek;
+  (season.games || []).forEach(g => {
+    if (g.week < startWeek) return;
+    g.isPlayoffs = true;
+    g.isConsolation = !!g.isConsolation || !bracket.bracketGames.has(g);
+  });
+  const rounds = playoffRounds(season.games || []);
+  (season.games || []).forEach(g => { if (g.isPlayoffs) g.playoffRound = rounds.get(g.week); });
+
+  const finishes = new Map<string, 1 | 2 | 3>();
+  if (bracket.champion) {
+    finishes.set(bracket.champion, 1);
+    if (bracket.runnerUp) finishes.set(bracket.runnerUp, 2);
+    if (bracket.third) finishes.set(bracket.third, 3);
+  } else if (season.isFinished && !(season.games || []).some(g => g.week >= season.playoffs!.playoffStartWeek)) {
+    // Finished season without stored playoff games: Yahoo's final rank is the best we have
+    season.standings.forEach(s => {
+      if (s.stats.rank >= 1 && s.stats.rank <= 3) finishes.set(s.teamKey, s.stats.rank as 1 | 2 | 3);
+    });
+  }
+
+  season.standings.forEach(s => {
+    const finish = finishes.get(s.teamKey);
+    s.stats.isPlayoff = bracket.playoffTeams.includes(s.teamKey);
+    s.stats.isChampion = finish === 1;
+    if (finish) s.stats.playoffFinish = finish;
+    else delete s.stats.playoffFinish;
+  });
+
+  const champion = season.standings.find(s => s.stats.isChampion);
+  season.championId = champion ? champion.managerId : '';
+  return season;
+};
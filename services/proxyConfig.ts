@@ -0,0 +1,58 @@
+// Where Yahoo API requests are routed. Yahoo doesn't send CORS headers, so the browser
+// normally needs a proxy: our bundled one (api/yahoo/proxy.ts), or a custom one.
+// 'direct' is for environments that don't enforce CORS (extensions, tests).
+
+export type ProxyMode = 'direct' | 'bundled' | 'custom';
+
+export interface ProxyConfig {
+  mode: ProxyMode;
+  customUrl?: string; // Prefix the encoded target is appended to, or a template containing {url}
+}
+
+const PROXY_CONFIG_KEY = 'yahoo_proxy_config';
+const BUNDLED_PROXY_URL = '/api/yahoo/proxy?url=';
+const PROXY_MODES: ProxyMode[] = ['direct', 'bundled', 'custom'];
+
+// Default comes from the build environment (YAHOO_PROXY_MODE / YAHOO_PROXY_URL)
+export const getDefaultProxyConfig = (): ProxyConfig => {
+  const envMode = (process.env.YAHOO_PROXY_MODE || '').trim() as ProxyMode;
+  const envUrl = (process.env.YAHOO_PROXY_URL || '').trim();
+
+  if (PROXY_MODES.includes(envMode)) return { mode: envMode, customUrl: envUrl || undefined };
+  if (envUrl) return { mode: 'custom', customUrl: envUrl };
+  return { mode: 'bundled' };
+};
+
+// A setting saved from the UI wins over the environment default
+export const getProxyConfig = (): ProxyConfig => {
+  try {
+    const saved = localStorage.getItem(PROXY_CONFIG_KEY);
+    if (saved) {
+      const parsed = JSON.parse(saved) as ProxyConfig;
+      if (PROXY_MODES.includes(parsed.mode)) return parsed;
+    }
+  } catch (e) {
+    console.warn("Ignoring invalid proxy config", e);
+  }
+  return getDefaultProxyConfig();
+};
+
+export const saveProxyConfig = (config: ProxyConfig | null) => {
+  if (config) localStorage.setItem(PROXY_CONFIG_KEY, JSON.stringify(config));
+  else localStorage.removeItem(PROXY_CONFIG_KEY);
+};
+
+export const buildProxiedUrl = (url: string, config: ProxyConfig = getProxyConfig()): string => {
+  const encoded = encodeURIComponent(url);
+
+  switch (config.mode) {
+    case 'direct':
+      return url;
+    case 'custom':
+      if (!config.customUrl) throw new Error("Custom proxy selected but no proxy URL is configured.");
+      return config.customUrl.includes('{url}') ? config.customUrl.replace('{url}', encoded) : `${config.customUrl}${encoded}`;
+    case 'bundled':
+    default:
+      return `${BUNDLED_PROXY_URL}${encoded}`;
+  }
+};
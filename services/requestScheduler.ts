@@ -0,0 +1,118 @@
+// Paces provider API requests; Yahoo, Sleeper and ESPN share one scheduler. At most
+// `requestsPerMinute` requests start in any rolling minute, no more than `concurrency` are in
+// flight at once, and nothing starts while Yahoo has asked us to back off (429 / 503 with Retry-After).
+
+export interface SchedulerConfig {
+  requestsPerMinute: number;
+  concurrency: number;
+}
+
+const SCHEDULER_CONFIG_KEY = 'yahoo_request_scheduler';
+const WINDOW_MS = 60 * 1000;
+
+export const DEFAULT_SCHEDULER_CONFIG: SchedulerConfig = { requestsPerMinute: 60, concurrency: 2 };
+
+const clampConfig = (config: SchedulerConfig): SchedulerConfig => ({
+  requestsPerMinute: Math.max(1, Math.floor(config.requestsPerMinute) || DEFAULT_SCHEDULER_CONFIG.requestsPerMinute),
+  concurrency: Math.max(1, Math.floor(config.concurrency) || DEFAULT_SCHEDULER_CONFIG.concurrency)
+});
+
+export const getSchedulerConfig = (): SchedulerConfig => {
+  try {
+    const saved = localStorage.getItem(SCHEDULER_CONFIG_KEY);
+    if (saved) return clampConfig({ ...DEFAULT_SCHEDULER_CONFIG, ...JSON.parse(saved) });
+  } catch (e) {
+    console.warn("Ignoring invalid request scheduler config", e);
+  }
+  return DEFAULT_SCHEDULER_CONFIG;
+};
+
+export const saveSchedulerConfig = (config: SchedulerConfig | null) => {
+  if (config) localStorage.setItem(SCHEDULER_CONFIG_KEY, JSON.stringify(clampConfig(config)));
+  else localStorage.removeItem(SCHEDULER_CONFIG_KEY);
+};
+
+// Retry-After is either a number of seconds or an HTTP date
+export const parseRetryAfter = (value: string | null): number | null => {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+};
+
+export interface RequestScheduler {
+  schedule: <T>(task: () => Promise<T>, signal?: AbortSignal) => Promise<T>; // Aborting drops a request that hasn't started
+  requestCount: () => number; // Requests started since the scheduler was created
+  backOff: (ms: number) => void; // Hold every request until `ms` from now
+  configure: (config: SchedulerConfig) => void;
+}
+
+export const createRequestScheduler = (initial: SchedulerConfig = getSchedulerConfig()): RequestScheduler => {
+  let config = clampConfig(initial);
+  let active = 0;
+  let count = 0;
+  let pausedUntil = 0;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  const started: number[] = []; // Start times within the current window
+  const queue: (() => void)[] = [];
+
+  const pump = () => {
+    timer = null;
+    while (queue.length > 0 && active < config.concurrency) {
+      const now = Date.now();
+      while (started.length > 0 && now - started[0] >= WINDOW_MS) started.shift();
+
+      let delay = pausedUntil - now;
+      if (started.length >= config.requestsPerMinute) delay = Math.max(delay, started[0] + WINDOW_MS - now);
+      if (delay > 0) {
+        timer = setTimeout(pump, delay);
+        return;
+      }
+
+      started.push(now);
+      active++;
+      count++;
+      queue.shift()!();
+    }
+  };
+
+  // A pending timer will pump anyway; otherwise pump now
+  const wake = () => {
+    if (!timer) pump();
+  };
+
+  return {
+    schedule: <T>(task: () => Promise<T>, signal?: AbortSignal) => new Promise<T>((resolve, reject) => {
+      const abortError = () => new DOMException('Request cancelled', 'AbortError');
+      if (signal?.aborted) return reject(abortError());
+
+      const start = () => {
+        signal?.removeEventListener('abort', onAbort);
+        task().then(resolve, reject).finally(() => {
+          active--;
+          wake();
+        });
+      };
+      const onAbort = () => {
+        const idx = queue.indexOf(start);
+        if (idx !== -1) {
+          queue.splice(idx, 1);
+          reject(abortError());
+        }
+      };
+
+      signal?.addEventListener('abort', onAbort);
+      queue.push(start);
+      wake();
+    }),
+    requestCount: () => count,
+    backOff: (ms: number) => {
+      pausedUntil = Math.max(pausedUntil, Date.now() + ms);
+    },
+    configure: (next: SchedulerConfig) => {
+      config = clampConfig(next);
+      wake();
+    }
+  };
+};
@@ -0,0 +1,403 @@
+import { LeagueData, Manager, Season, ManagerSeason, DraftPick, Transaction, TransactionPlayer, TradeSide, LeagueSummary, Game, PlayerInfo, TeamManager, Division } from '../types';
+import { applyPlayoffResults } from './playoffs';
+import { fillStoredDivisions, SeasonDivisions } from './divisions';
+import { mergeLeagueData } from './leagueMerge';
+import { createProgressReporter, DEFAULT_AUCTION_BUDGET, fetchScheduledJson, isAbortError, isSeasonComplete, Logger, LogType, SyncOptions } from './yahooService';
+
+// Sleeper's public API needs no login and allows browser requests, so it's called directly
+// (still paced by the shared request scheduler).
+// League and season keys are prefixed ("sleeper.<league_id>") so they can't collide with Yahoo keys,
+// and player keys ("sleeper.player.<id>") stay out of the way of Yahoo's numeric player ids.
+
+const SLEEPER_URL = 'https://api.sleeper.app/v1';
+const SLEEPER_AVATAR_URL = 'https://sleepercdn.com/avatars/thumbs';
+const DEFAULT_AVATAR = 'https://s.yimg.com/dh/ap/fantasy/img/profile/icon_user_default.png';
+const FIRST_SLEEPER_SEASON = 2017;
+
+export const SLEEPER_KEY_PREFIX = 'sleeper.';
+
+const toLeagueKey = (leagueId: string) => `${SLEEPER_KEY_PREFIX}${leagueId}`;
+const toPlayerKey = (playerId: string) => `${SLEEPER_KEY_PREFIX}player.${playerId}`;
+const toTeamKey = (leagueId: string, rosterId: number) => `${SLEEPER_KEY_PREFIX}${leagueId}.t.${rosterId}`;
+const leagueIdFromKey = (key: string) => key.slice(SLEEPER_KEY_PREFIX.length);
+
+const getJson = (path: string, signal?: AbortSignal): Promise<any> =>
+  fetchScheduledJson(`${SLEEPER_URL}${path}`, status => `Sleeper API Error (${status}) for ${path}`, {}, signal);
+
+const toLeagueSummary = (league: any): LeagueSummary => ({
+  key: toLeagueKey(league.league_id),
+  name: league.name,
+  year: parseInt(league.season),
+  logo: league.avatar ? `${SLEEPER_AVATAR_URL}/${league.avatar}` : undefined,
+  renew: league.previous_league_id && league.previous_league_id !== '0' ? toLeagueKey(league.previous_league_id) : undefined,
+  provider: 'sleeper'
+});
+
+// --- LEAGUE DISCOVERY ---
+
+// Every league the user played in, plus earlier seasons reached through previous_league_id
+export const discoverSleeperLeagues = async (username: string, log?: Logger): Promise<LeagueSummary[]> => {
+  const user = await getJson(`/user/${encodeURIComponent(username.trim())}`);
+  if (!user?.user_id) throw new Error(`No Sleeper user named "${username}".`);
+
+  const state = await getJson('/state/nfl');
+  const lastSeason = parseInt(state?.league_season || state?.season) || new Date().getFullYear();
+
+  const byKey = new Map<string, LeagueSummary>();
+  for (let year = lastSeason; year >= FIRST_SLEEPER_SEASON; year--) {
+    const leagues: any[] = (await getJson(`/user/${user.user_id}/leagues/nfl/${year}`)) || [];
+    leagues.filter(l => l?.league_id).forEach(l => byKey.set(toLeagueKey(l.league_id), toLeagueSummary(l)));
+  }
+
+  const queue = Array.from(byKey.values()).map(l => l.renew).filter((k): k is string => !!k);
+  while (queue.length > 0) {
+    const key = queue.shift()!;
+    if (byKey.has(key)) continue;
+    try {
+      const league = await getJson(`/league/${leagueIdFromKey(key)}`);
+      if (!league?.league_id) continue;
+      const summary = toLeagueSummary(league);
+      byKey.set(key, summary);
+      if (summary.renew) queue.push(summary.renew);
+    } catch (e: any) {
+      log?.('WARN', `Could not look up earlier Sleeper season ${key}: ${e.message}`);
+    }
+  }
+
+  // Fill in the forward links so lineages can be walked from either end
+  byKey.forEach(l => {
+    const previous = l.renew ? byKey.get(l.renew) : undefined;
+    if (previous) previous.renewed = l.key;
+  });
+
+  log?.('SUCCESS', `Found ${byKey.size} Sleeper seasons for ${user.display_name || username}.`);
+  return Array.from(byKey.values()).sort((a, b) => b.year - a.year);
+};
+
+// --- SEASON PARSING ---
+
+const toPoints = (whole: any, decimal: any) => (parseInt(whole) || 0) + (parseInt(decimal) || 0) / 100;
+
+const parseManagers = (users: any[]): Manager[] => {
+  return (users || []).filter(u => u?.user_id).map(u => ({
+    id: u.user_id,
+    name: u.display_name || u.metadata?.team_name || 'Unknown Manager',
+    avatar: u.avatar ? `${SLEEPER_AVATAR_URL}/${u.avatar}` : DEFAULT_AVATAR
+  }));
+};
+
+// Division names live in league metadata as division_1, division_2, ...
+const parseDivisions = (league: any): Division[] | undefined => {
+  const count = parseInt(league.settings?.divisions) || 0;
+  if (count < 2) return undefined;
+  return Array.from({ length: count }, (_, i) => ({ id: String(i + 1), name: league.metadata?.[`division_${i + 1}`] || `Division ${i + 1}` }));
+};
+
+// Sleeper doesn't report a final rank, so teams are ordered by record and then points
+const parseStandings = (leagueId: string, rosters: any[], hasDivisions = false): ManagerSeason[] => {
+  const standings: ManagerSeason[] = (rosters || [])
+    .filter(r => r?.owner_id)
+    .map(r => {
+      const s = r.settings || {};
+      const coOwners: string[] = (r.co_owners || []).filter((id: string) => id && id !== r.owner_id);
+      const managers: TeamManager[] | undefined = coOwners.length > 0
+        ? [{ managerId: r.owner_id, isPrimary: true }, ...coOwners.map(id => ({ managerId: id, isPrimary: false }))]
+        : undefined;
+
+      return {
+        managerId: r.owner_id,
+        teamKey: toTeamKey(leagueId, r.roster_id),
+        teamId: String(r.roster_id),
+        managers,
+        divisionId: hasDivisions && s.division ? String(s.division) : undefined,
+        stats: {
+          rank: 0,
+          wins: parseInt(s.wins) || 0,
+          losses: parseInt(s.losses) || 0,
+          ties: parseInt(s.ties) || 0,
+          pointsFor: toPoints(s.fpts, s.fpts_decimal),
+          pointsAgainst: toPoints(s.fpts_against, s.fpts_against_decimal),
+          isChampion: false,
+          isPlayoff: false
+        }
+      };
+    });
+
+  standings.sort((a, b) => {
+    const pctA = (a.stats.wins + a.stats.ties / 2) / (a.stats.wins + a.stats.losses + a.stats.ties || 1);
+    const pctB = (b.stats.wins + b.stats.ties / 2) / (b.stats.wins + b.stats.losses + b.stats.ties || 1);
+    return pctB - pctA || b.stats.pointsFor - a.stats.pointsFor;
+  });
+  standings.forEach((s, i) => { s.stats.rank = i + 1; });
+  return standings;
+};
+
+// Teams sharing a matchup_id played each other; a null matchup_id is a bye
+const parseWeekGames = (week: number, matchups: any[], teamKeys: Map<number, string>, managers: Map<number, string>, playoffStartWeek?: number): Game[] => {
+  const pairs = new Map<number, any[]>();
+  (matchups || []).forEach(m => {
+    if (m?.matchup_id === null || m?.matchup_id === undefined) return;
+    pairs.set(m.matchup_id, [...(pairs.get(m.matchup_id) || []), m]);
+  });
+
+  const games: Game[] = [];
+  pairs.forEach(([a, b]) => {
+    if (!a || !b || !managers.has(a.roster_id) || !managers.has(b.roster_id)) return;
+    const pointsA = parseFloat(a.points) || 0;
+    const pointsB = parseFloat(b.points) || 0;
+    const teamA = { managerId: managers.get(a.roster_id)!, teamKey: teamKeys.get(a.roster_id)!, points: pointsA };
+    const teamB = { managerId: managers.get(b.roster_id)!, teamKey: teamKeys.get(b.roster_id)!, points: pointsB };
+
+    games.push({
+      week,
+      isPlayoffs: !!playoffStartWeek && week >= playoffStartWeek,
+      isTie: pointsA === pointsB && pointsA > 0,
+      winnerTeamKey: pointsA === pointsB ? undefined : (pointsA > pointsB ? teamA.teamKey : teamB.teamKey),
+      teamA,
+      teamB
+    });
+  });
+  return games;
+};
+
+const parseDraft = (picks: any[], teamKeys: Map<number, string>, managers: Map<number, string>): { draft: DraftPick[], players: PlayerInfo[] } => {
+  const draft: DraftPick[] = [];
+  const players: PlayerInfo[] = [];
+
+  (picks || []).forEach(p => {
+    if (!p?.player_id) return;
+    const meta = p.metadata || {};
+    const name = [meta.first_name, meta.last_name].filter(Boolean).join(' ') || 'Unknown Player';
+    const playerKey = toPlayerKey(p.player_id);
+    const cost = parseInt(meta.amount);
+
+    draft.push({
+      round: p.round,
+      pick: p.pick_no,
+      player: name,
+      playerKey,
+      managerId: managers.get(p.roster_id) || p.picked_by || 'unknown',
+      teamKey: teamKeys.get(p.roster_id) || '',
+      cost: Number.isNaN(cost) ? undefined : cost,
+      isKeeper: p.is_keeper || undefined
+    });
+    players.push({ id: playerKey, name, position: meta.position || undefined, nflTeam: meta.team || undefined });
+  });
+
+  return { draft: draft.sort((a, b) => a.pick - b.pick), players };
+};
+
+const TRANSACTION_TYPES: Record<string, Transaction['origin'] | 'team'> = { waiver: 'waivers', free_agent: 'freeagents', trade: 'team' };
+
+const parseTransaction = (txn: any, teamKeys: Map<number, string>, managers: Map<number, string>, playerName: (id: string) => string): Transaction | null => {
+  if (txn?.status !== 'complete') return null;
+
+  const adds: Record<string, number> = txn.adds || {};
+  const drops: Record<string, number> = txn.drops || {};
+  const isTrade = txn.type === 'trade';
+  const source = TRANSACTION_TYPES[txn.type];
+  const managerOf = (rosterId: number) => managers.get(rosterId) || '';
+
+  const players: TransactionPlayer[] = [];
+  Object.entries(adds).forEach(([playerId, rosterId]) => {
+    players.push({
+      name: playerName(playerId),
+      playerKey: toPlayerKey(playerId),
+      type: isTrade ? 'trade' : 'add',
+      managerId: managerOf(rosterId),
+      fromManagerId: isTrade && drops[playerId] !== undefined ? managerOf(drops[playerId]) : undefined,
+      source
+    });
+  });
+  if (!isTrade) {
+    Object.entries(drops).forEach(([playerId, rosterId]) => {
+      players.push({ name: playerName(playerId), playerKey: toPlayerKey(playerId), type: 'drop', managerId: managerOf(rosterId) });
+    });
+  }
+  if (players.length === 0) return null;
+
+  const tradeSides: TradeSide[] | undefined = isTrade
+    ? (txn.roster_ids || []).map((rosterId: number) => ({
+        managerId: managerOf(rosterId),
+        teamKey: teamKeys.get(rosterId) || '',
+        received: Object.entries(adds).filter(([, to]) => to === rosterId).map(([playerId]) => ({ name: playerName(playerId), playerKey: toPlayerKey(playerId) }))
+      }))
+    : undefined;
+
+  const type: Transaction['type'] = isTrade ? 'trade'
+    : txn.type === 'commissioner' ? 'commish'
+    : Object.keys(adds).length > 0 && Object.keys(drops).length > 0 ? 'add/drop'
+    : Object.keys(adds).length > 0 ? 'add' : 'drop';
+  const faabBid = parseInt(txn.settings?.waiver_bid);
+
+  return {
+    id: String(txn.transaction_id),
+    type,
+    date: txn.status_updated || txn.created,
+    managerIds: Array.from(new Set((txn.roster_ids || []).map(managerOf).filter(Boolean))) as string[],
+    players,
+    status: 'successful',
+    faabBid: Number.isNaN(faabBid) ? undefined : faabBid,
+    origin: source === 'waivers' || source === 'freeagents' ? source : undefined,
+    tradeSides
+  };
+};
+
+// --- SEASON FETCH ---
+
+// Divisions of a stored season, read from the league settings and rosters
+const readStoredDivisions = (signal?: AbortSignal) => async (season: Season): Promise<SeasonDivisions> => {
+  const leagueId = leagueIdFromKey(season.key);
+  const [league, rosters] = await Promise.all([
+    getJson(`/league/${leagueId}`, signal),
+    getJson(`/league/${leagueId}/rosters`, signal)
+  ]);
+  const divisions = parseDivisions(league);
+  return { divisions, teams: parseStandings(leagueId, rosters, !!divisions) };
+};
+
+export const fetchSleeperData = async (leagueKeys: string[], log?: Logger, options: SyncOptions = {}): Promise<LeagueData> => {
+  const safeLog = (type: LogType, msg: string) => {
+    console.log(`[${type}] ${msg}`);
+    if (log) log(type, msg);
+  };
+
+  const storedLeague = options.fullRefresh ? null : options.existing;
+  const existing = options.resumeFrom ? mergeLeagueData(storedLeague || null, options.resumeFrom).data : storedLeague;
+  const storedSeasons = new Map<string, Season>((existing?.seasons || []).map(s => [s.key, s]));
+  const signal = options.signal;
+
+  const managers = new Map<string, Manager>();
+  const players = new Map<string, PlayerInfo>((existing?.players || []).map(p => [p.id, p]));
+  const seasons: Season[] = [];
+  let allPlayers: Record<string, any> | null = null;
+
+  const progress = createProgressReporter(options.onProgress);
+  progress.setSeasonCount(leagueKeys.filter(key => {
+    const stored = storedSeasons.get(key);
+    return !(stored && isSeasonComplete(stored));
+  }).length);
+  progress.report();
+
+  for (const key of leagueKeys) {
+    if (signal?.aborted) break;
+    const stored = storedSeasons.get(key);
+    if (stored && isSeasonComplete(stored)) {
+      safeLog('INFO', `Skipping ${stored.year}: season complete with ${stored.games!.length} games stored.`);
+      seasons.push(await fillStoredDivisions(stored, readStoredDivisions(signal), safeLog, signal));
+      continue;
+    }
+
+    const leagueId = leagueIdFromKey(key);
+    try {
+      const [league, users, rosters, drafts] = await Promise.all([
+        getJson(`/league/${leagueId}`, signal),
+        getJson(`/league/${leagueId}/users`, signal),
+        getJson(`/league/${leagueId}/rosters`, signal),
+        getJson(`/league/${leagueId}/drafts`, signal)
+      ]);
+      const year = parseInt(league.season);
+      safeLog('INFO', `Fetching Sleeper ${year}: ${league.name}...`);
+      progress.report(year);
+
+      parseManagers(users).forEach(m => managers.set(m.id, m));
+      const divisions = parseDivisions(league);
+      const standings = parseStandings(leagueId, rosters, !!divisions);
+      const teamKeys = new Map<number, string>((rosters || []).map((r: any) => [r.roster_id, toTeamKey(leagueId, r.roster_id)]));
+      const rosterManagers = new Map<number, string>((rosters || []).filter((r: any) => r.owner_id).map((r: any) => [r.roster_id, r.owner_id]));
+
+      const settings = league.settings || {};
+      const startWeek = parseInt(settings.start_week) || 1;
+      const lastWeek = parseInt(settings.last_scored_leg) || 0;
+      const playoffStartWeek = parseInt(settings.playoff_week_start) || undefined;
+      const numPlayoffTeams = parseInt(settings.playoff_teams) || 0;
+      const isFinished = league.status === 'complete';
+
+      // Draft: Sleeper includes player names with each pick, which seeds the player dictionary
+      const draftMeta = (drafts || []).find((d: any) => d.status === 'complete') || (drafts || [])[0];
+      let draft: DraftPick[] = [];
+      if (draftMeta?.draft_id) {
+        const parsed = parseDraft(await getJson(`/draft/${draftMeta.draft_id}/picks`, signal), teamKeys, rosterManagers);
+        draft = parsed.draft;
+        parsed.players.forEach(p => players.set(p.id, { ...players.get(p.id), ...p }));
+      }
+
+      // Games and transactions are both listed per week
+      const games: Game[] = [];
+      const rawTransactions: any[] = [];
+      for (let week = startWeek; week <= lastWeek; week++) {
+        if (signal?.aborted) break;
+        const [matchups, transactions] = await Promise.all([
+          getJson(`/league/${leagueId}/matchups/${week}`, signal),
+          getJson(`/league/${leagueId}/transactions/${week}`, signal)
+        ]);
+        games.push(...parseWeekGames(week, matchups, teamKeys, rosterManagers, playoffStartWeek));
+        rawTransactions.push(...(transactions || []));
+        progress.report(year, week - startWeek + 1, lastWeek - startWeek + 1);
+      }
+      if (signal?.aborted) break;
+
+      // Players only seen in transactions need Sleeper's full player list (one large request per sync)
+      const missing = rawTransactions.some(t => Object.keys({ ...t.adds, ...t.drops }).some(id => !players.has(toPlayerKey(id))));
+      if (missing && !allPlayers) {
+        safeLog('INFO', "Loading Sleeper's player list for transaction names...");
+        try {
+          allPlayers = await getJson('/players/nfl', signal);
+        } catch (e: any) {
+          if (isAbortError(e)) break;
+          allPlayers = {};
+          safeLog('WARN', `Could not load Sleeper players: ${e.message}`);
+        }
+      }
+      const playerName = (id: string): string => {
+        const known = players.get(toPlayerKey(id));
+        if (known) return known.name;
+        const info = allPlayers?.[id];
+        if (!info) return `Player ${id}`;
+        const name = info.full_name || [info.first_name, info.last_name].filter(Boolean).join(' ') || `${id} D/ST`;
+        players.set(toPlayerKey(id), { id: toPlayerKey(id), name, position: info.position || undefined, nflTeam: info.team || undefined });
+        return name;
+      };
+
+      const transactions = rawTransactions
+        .map(t => parseTransaction(t, teamKeys, rosterManagers, playerName))
+        .filter((t): t is Transaction => t !== null);
+
+      const season: Season = {
+        year,
+        key,
+        championId: '',
+        standings,
+        draft,
+        transactions: Array.from(new Map(transactions.map(t => [t.id, t])).values()).sort((a, b) => b.date - a.date),
+        games,
+        startWeek,
+        endWeek: lastWeek || undefined,
+        currentWeek: isFinished ? undefined : lastWeek + 1,
+        isFinished,
+        playoffs: playoffStartWeek && numPlayoffTeams ? { numPlayoffTeams, playoffStartWeek, hasConsolation: false } : undefined,
+        divisions,
+        divisionsRead: true,
+        draftType: draftMeta?.type === 'auction' ? 'auction' : draftMeta ? 'snake' : undefined,
+        auctionBudget: draftMeta?.type === 'auction' ? parseInt(draftMeta.settings?.budget) || DEFAULT_AUCTION_BUDGET : undefined
+      };
+
+      applyPlayoffResults(season);
+      seasons.push(season);
+      options.onCheckpoint?.({ managers: Array.from(managers.values()), seasons: [...seasons], players: Array.from(players.values()) });
+      progress.seasonDone();
+      progress.report(year);
+      safeLog('SUCCESS', `Loaded ${year}: ${games.length} games, ${draft.length} picks, ${season.transactions!.length} transactions.`);
+    } catch (e: any) {
+      if (isAbortError(e)) break;
+      safeLog('ERROR', `Failed to fetch Sleeper league ${leagueId}: ${e.message}`);
+      if (stored) seasons.push(stored);
+      progress.seasonDone();
+      progress.report();
+    }
+  }
+
+  if (signal?.aborted) safeLog('WARN', `Sync cancelled. Keeping ${seasons.length} Sleeper season(s).`);
+
+  return { managers: Array.from(managers.values()), seasons: seasons.sort((a, b) => a.year - b.year), players: Array.from(players.values()) };
+};
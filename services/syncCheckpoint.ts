@@ -0,0 +1,41 @@
+import { LeagueData } from '../types';
+
+// Progress of a running sync, saved after every season and scoreboard week so a sync that was
+// interrupted (closed tab, crash, failed season) can pick up where it stopped. A checkpoint only
+// applies to a sync of the exact same set of leagues and is dropped once the sync is saved.
+
+export interface SyncCheckpoint {
+  leagueKeys: string[];
+  updatedAt: number;
+  data: LeagueData;
+}
+
+const CHECKPOINT_KEY = 'yahoo_sync_checkpoint';
+
+const sameLeagues = (a: string[], b: string[]) => {
+  return a.length === b.length && [...a].sort().join(',') === [...b].sort().join(',');
+};
+
+export const saveSyncCheckpoint = (leagueKeys: string[], data: LeagueData) => {
+  const checkpoint: SyncCheckpoint = { leagueKeys, updatedAt: Date.now(), data };
+  try {
+    localStorage.setItem(CHECKPOINT_KEY, JSON.stringify(checkpoint));
+  } catch (e) {
+    // Usually the storage quota; the sync itself carries on without a checkpoint
+    console.warn("Could not save sync checkpoint", e);
+  }
+};
+
+export const loadSyncCheckpoint = (leagueKeys: string[]): SyncCheckpoint | null => {
+  try {
+    const saved = localStorage.getItem(CHECKPOINT_KEY);
+    if (!saved) return null;
+    const checkpoint = JSON.parse(saved) as SyncCheckpoint;
+    return sameLeagues(checkpoint.leagueKeys, leagueKeys) ? checkpoint : null;
+  } catch (e) {
+    console.warn("Ignoring invalid sync checkpoint", e);
+    return null;
+  }
+};
+
+export const clearSyncCheckpoint = () => localStorage.removeItem(CHECKPOINT_KEY);
@@ -0,0 +1,122 @@
+import { exchangeAuthCode } from './yahooService';
+import { YahooSession } from '../types';
+
+// Redirect-based Yahoo login (authorization code + PKCE).
+// The login popup returns to CALLBACK_PATH, which relays the code to the opening window.
+// If the popup was blocked we redirect the whole tab instead and hand the finished session back via storage.
+
+export const CALLBACK_PATH = '/auth/callback';
+export const CALLBACK_MESSAGE = 'yahoo-oauth-callback';
+
+const AUTH_URL = 'https://api.login.yahoo.com/oauth2/request_auth';
+const PENDING_KEY = 'yahoo_oauth_pending';
+const COMPLETED_KEY = 'yahoo_oauth_session';
+const PENDING_TTL_MS = 10 * 60 * 1000;
+
+interface PendingAuth {
+  state: string;
+  redirectUri: string;
+  codeVerifier?: string;
+  createdAt: number;
+}
+
+export interface CallbackParams {
+  code: string | null;
+  state: string | null;
+  error: string | null;
+}
+
+const base64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...Array.from(bytes)))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+
+const randomString = (byteLength = 32) => base64Url(crypto.getRandomValues(new Uint8Array(byteLength)));
+
+// S256 challenge; returns null where SubtleCrypto is unavailable (plain http on a LAN address)
+const createCodeChallenge = async (verifier: string): Promise<string | null> => {
+  if (!crypto.subtle) return null;
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(verifier));
+  return base64Url(new Uint8Array(digest));
+};
+
+export const getRedirectUri = () => `${window.location.origin}${CALLBACK_PATH}`;
+
+export const isAuthCallback = () => window.location.pathname === CALLBACK_PATH;
+
+export const readCallbackParams = (): CallbackParams => {
+  const params = new URLSearchParams(window.location.search);
+  return {
+    code: params.get('code'),
+    state: params.get('state'),
+    error: params.get('error_description') || params.get('error')
+  };
+};
+
+// Builds the authorize URL and remembers the state/verifier pair for the callback
+export const createAuthRequest = async (clientId: string): Promise<string> => {
+  const state = randomString(16);
+  const codeVerifier = randomString(48);
+  const codeChallenge = await createCodeChallenge(codeVerifier);
+  const redirectUri = getRedirectUri();
+
+  const pending: PendingAuth = {
+    state,
+    redirectUri,
+    codeVerifier: codeChallenge ? codeVerifier : undefined,
+    createdAt: Date.now()
+  };
+  // localStorage (not sessionStorage) so the popup and the opener see the same entry
+  localStorage.setItem(PENDING_KEY, JSON.stringify(pending));
+
+  const params = new URLSearchParams();
+  params.append('client_id', clientId);
+  params.append('redirect_uri', redirectUri);
+  params.append('response_type', 'code');
+  params.append('state', state);
+  params.append('language', 'en-us');
+  if (codeChallenge) {
+    params.append('code_challenge', codeChallenge);
+    params.append('code_challenge_method', 'S256');
+  }
+
+  return `${AUTH_URL}?${params.toString()}`;
+};
+
+const consumePendingAuth = (state: string | null): PendingAuth => {
+  const raw = localStorage.getItem(PENDING_KEY);
+  localStorage.removeItem(PENDING_KEY);
+
+  if (!raw) throw new Error("No login in progress. Please start the Yahoo login again.");
+  const pending: PendingAuth = JSON.parse(raw);
+
+  if (!state || pending.state !== state) throw new Error("Login state mismatch. Please start the Yahoo login again.");
+  if (Date.now() - pending.createdAt > PENDING_TTL_MS) throw new Error("Login request expired. Please start the Yahoo login again.");
+  return pending;
+};
+
+export const completeAuthRequest = async (params: CallbackParams): Promise<YahooSession> => {
+  if (params.error) throw new Error(`Yahoo Login Failed: ${params.error}`);
+  if (!params.code) throw new Error("Yahoo did not return an authorization code.");
+
+  const pending = consumePendingAuth(params.state);
+  return exchangeAuthCode(params.code, pending.redirectUri, pending.codeVerifier);
+};
+
+// --- FULL-PAGE REDIRECT HANDOFF ---
+
+export const storeCompletedSession = (session: YahooSession) => {
+  sessionStorage.setItem(COMPLETED_KEY, JSON.stringify(session));
+};
+
+export const takeCompletedSession = (): YahooSession | null => {
+  const raw = sessionStorage.getItem(COMPLETED_KEY);
+  if (!raw) return null;
+  sessionStorage.removeItem(COMPLETED_KEY);
+  try {
+    return JSON.parse(raw) as YahooSession;
+  } catch (e) {
+    return null;
+  }
+};
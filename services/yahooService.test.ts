@@ -0,0 +1,191 @@
+import { readFileSync } from 'fs';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { Game, LeagueData, Season } from '../types';
+
+// The request scheduler reads its config from localStorage when the module loads
+vi.hoisted(() => {
+  const store = new Map<string, string>();
+  (globalThis as any).localStorage = {
+    getItem: (key: string) => store.get(key) ?? null,
+    setItem: (key: string, value: string) => { store.set(key, value); },
+    removeItem: (key: string) => { store.delete(key); }
+  };
+});
+
+import { fetchYahooData, isSeasonComplete } from './yahooService';
+import { parseFixtureBundle, startReplay, stopTransport } from './yahooTransport';
+
+// fixtures/yahoo/sample-league.json: one 4-team season whose scoreboards use each shape Yahoo
+// returns matchups in. Week 1 is a plain array, week 2 is wrapped in a "0" key, and week 3 is a
+// single matchup object rather than a list.
+const FIXTURE = new URL('../fixtures/yahoo/sample-league.json', import.meta.url);
+const LEAGUE_KEY = '449.l.100';
+const team = (id: number) => `${LEAGUE_KEY}.t.${id}`;
+
+describe('fetchYahooData (replayed fixture)', () => {
+  let data: LeagueData;
+
+  beforeAll(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    startReplay(parseFixtureBundle(readFileSync(FIXTURE, 'utf8')));
+    data = await fetchYahooData('fixture-token', [LEAGUE_KEY]);
+  });
+
+  afterAll(() => {
+    stopTransport();
+    vi.restoreAllMocks();
+  });
+
+  const season = () => data.seasons.find(s => s.key === LEAGUE_KEY)!;
+  const weekGames = (week: number) => season().games!.filter(g => g.week === week);
+
+  it('parses the season and its standings', () => {
+    expect(data.seasons).toHaveLength(1);
+    expect(season().year).toBe(2024);
+    expect(season().standings.map(st => [st.teamKey, st.managerId, st.stats.rank, st.stats.wins])).toEqual([
+      [team(1), '{GUID-A}', 1, 10],
+      [team(2), '{GUID-B}', 2, 8],
+      [team(3), '{GUID-C}', 3, 5],
+      [team(4), '{GUID-D}', 4, 1]
+    ]);
+    expect(season().standings[0].stats.pointsFor).toBe(1402.5);
+  });
+
+  it('credits co-managed teams to the primary manager and lists every manager', () => {
+    const coManaged = season().standings.find(st => st.teamKey === team(4))!;
+    expect(coManaged.managerId).toBe('{GUID-D}');
+    expect(coManaged.managers).toEqual([
+      { managerId: '{GUID-D}', isPrimary: true },
+      { managerId: '{GUID-E}', isPrimary: false }
+    ]);
+    expect(data.managers.map(m => m.id).sort()).toEqual(['{GUID-A}', '{GUID-B}', '{GUID-C}', '{GUID-D}', '{GUID-E}']);
+    expect(season().standings.filter(st => st.teamKey !== team(4)).every(st => !st.managers)).toBe(true);
+  });
+
+  it('reads matchups from an array scoreboard (week 1)', () => {
+    expect(weekGames(1).map(g => [g.teamA.teamKey, g.teamA.points, g.teamB.teamKey, g.teamB.points, g.winnerTeamKey])).toEqual([
+      [team(1), 121.4, team(4), 98.2, team(1)],
+      [team(2), 110.0, team(3), 115.6, team(3)]
+    ]);
+    expect(weekGames(1)[0].teamA.managerId).toBe('{GUID-A}');
+    expect(weekGames(1)[0].teamB.managerId).toBe('{GUID-D}');
+  });
+
+  it('reads matchups from a "0"-wrapped scoreboard (week 2)', () => {
+    expect(weekGames(2).map(g => [g.teamA.teamKey, g.teamA.points, g.teamB.teamKey, g.teamB.points, g.winnerTeamKey])).toEqual([
+      [team(1), 130.2, team(3), 101.1, team(1)],
+      [team(2), 99.8, team(4), 97.5, team(2)]
+    ]);
+  });
+
+  it('reads a single-matchup scoreboard (week 3)', () => {
+    expect(weekGames(3).map(g => [g.teamA.teamKey, g.teamA.points, g.teamB.teamKey, g.teamB.points, g.winnerTeamKey])).toEqual([
+      [team(1), 88.8, team(2), 140.3, team(2)]
+    ]);
+    expect(weekGames(3)[0].isPlayoffs).toBe(false);
+  });
+
+  it('names draft picks from the players response', () => {
+    expect(season().draft!.length).toBeGreaterThan(0);
+    expect(season().draft!.every(p => p.player !== 'Unknown Player')).toBe(true);
+  });
+
+  it('flags keeper picks from the league player records', () => {
+    expect(season().draft!.filter(p => p.isKeeper).map(p => [p.pick, p.player])).toEqual([[3, 'Josh Allen']]);
+  });
+});
+
+describe('resuming an interrupted sync', () => {
+  beforeAll(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    startReplay(parseFixtureBundle(readFileSync(FIXTURE, 'utf8')));
+  });
+
+  afterAll(() => {
+    stopTransport();
+    vi.restoreAllMocks();
+  });
+
+  it('fetches the weeks a checkpointed season was still missing', async () => {
+    // Cancel as soon as the first scoreboard week has been checkpointed
+    const controller = new AbortController();
+    let checkpoint: LeagueData | null = null;
+    await fetchYahooData('fixture-token', [LEAGUE_KEY], undefined, {
+      signal: controller.signal,
+      onCheckpoint: partial => {
+        checkpoint = partial;
+        if (partial.seasons.some(s => s.games?.length)) controller.abort();
+      }
+    });
+
+    const saved = checkpoint!.seasons.find(s => s.key === LEAGUE_KEY)!;
+    expect(saved.games!.map(g => g.week)).toEqual([1, 1]);
+    expect(saved.isFinished).toBe(false);
+    expect(isSeasonComplete(saved)).toBe(false);
+
+    const resumed = await fetchYahooData('fixture-token', [LEAGUE_KEY], undefined, { resumeFrom: checkpoint });
+    const season = resumed.seasons.find(s => s.key === LEAGUE_KEY)!;
+    expect(season.games!.map(g => g.week)).toEqual([1, 1, 2, 2, 3]);
+    expect(season.isFinished).toBe(true);
+  });
+});
+
+describe('stored seasons synced before divisions were read', () => {
+  beforeAll(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    startReplay(parseFixtureBundle(readFileSync(FIXTURE, 'utf8')));
+  });
+
+  afterAll(() => {
+    stopTransport();
+    vi.restoreAllMocks();
+  });
+
+  it('reads their divisions without refetching the season', async () => {
+    const fresh = await fetchYahooData('fixture-token', [LEAGUE_KEY]);
+    const { divisions, divisionsRead, ...withoutDivisions } = fresh.seasons[0];
+    expect(divisions).toHaveLength(2);
+    expect(divisionsRead).toBe(true);
+
+    // A stored complete season as an older sync saved it, with a marker game to show it wasn't refetched
+    const stored: Season = {
+      ...withoutDivisions,
+      standings: withoutDivisions.standings.map(({ divisionId, ...st }) => st),
+      games: withoutDivisions.games!.map(g => ({ ...g, teamA: { ...g.teamA, points: 1 } }))
+    };
+    const synced = await fetchYahooData('fixture-token', [LEAGUE_KEY], undefined, { existing: { ...fresh, seasons: [stored] } });
+    const season = synced.seasons[0];
+    expect(season.divisions).toEqual(divisions);
+    expect(season.divisionsRead).toBe(true);
+    expect(season.standings.map(st => st.divisionId)).toEqual(fresh.seasons[0].standings.map(st => st.divisionId));
+    expect(season.games!.every(g => g.teamA.points === 1)).toBe(true);
+  });
+});
+
+describe('isSeasonComplete', () => {
+  const game = (week: number): Game => ({
+    week,
+    isPlayoffs: false,
+    isTie: false,
+    teamA: { managerId: 'a', teamKey: 't.1', points: 100 },
+    teamB: { managerId: 'b', teamKey: 't.2', points: 90 }
+  });
+  const season = (weeks: number[], isFinished?: boolean): Season => ({
+    year: 2024, key: 'k', championId: '', standings: [], startWeek: 1, endWeek: 3, isFinished, games: weeks.map(game)
+  });
+
+  it('needs games for every week of a finished season', () => {
+    expect(isSeasonComplete(season([1, 2, 3], true))).toBe(true);
+    expect(isSeasonComplete(season([1, 3], true))).toBe(false);
+    expect(isSeasonComplete(season([], true))).toBe(false);
+  });
+
+  it('never treats an unfinished season as complete', () => {
+    expect(isSeasonComplete(season([1, 2, 3], false))).toBe(false);
+  });
+
+  it('falls back to the last week for seasons stored before isFinished was tracked', () => {
+    expect(isSeasonComplete(season([1, 2, 3]))).toBe(true);
+    expect(isSeasonComplete(season([1, 2]))).toBe(false);
+  });
+});
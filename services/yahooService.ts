@@ -1,27 +1,38 @@
 
-import { LeagueData, Manager, Season, ManagerSeason, DraftPick, Transaction, LeagueSummary, Game } from '../types';
+import { LeagueData, Manager, Season, ManagerSeason, DraftPick, Transaction, LeagueSummary, LeagueLineage, Game, YahooSession, PlayoffSettings, TransactionPlayer, TradeSide, PlayerWeekScore, TeamWeekRoster, SeasonRosters, RosterPosition, PlayerInfo, TeamManager, Division } from '../types';
+import { buildProxiedUrl } from './proxyConfig';
+import { readPlayoffSettings, applyPlayoffResults } from './playoffs';
+import { fillStoredDivisions, readDivisionSettings, SeasonDivisions } from './divisions';
+import { buildPlayerIndex, collectPlayerKeys, lookupPlayer, playerIdFromKey } from './players';
+import { createRequestScheduler, getSchedulerConfig, parseRetryAfter, saveSchedulerConfig, SchedulerConfig } from './requestScheduler';
+import { mergeLeagueData } from './leagueMerge';
+import { getTransportMode, recordResponse, replayResponse } from './yahooTransport';
 
-const PROXY_URL = 'https://corsproxy.io/?';
 const BASE_URL = 'https://fantasysports.yahooapis.com/fantasy/v2';
 
-// Game IDs for NFL Fantasy Football from 2011 to 2025
-const NFL_GAME_KEYS = [
-  461, // 2025 (Future/Current)
-  449, // 2024
-  423, // 2023
-  414, // 2022
-  406, // 2021
-  399, // 2020
-  390, // 2019
-  380, // 2018
-  371, // 2017
-  359, // 2016
-  348, // 2015
-  331, // 2014
-  314, // 2013
-  273, // 2012
-  257  // 2011
-];
+// Known NFL game keys by season, used when Yahoo's games collection can't be reached.
+// Current keys are discovered at runtime (see fetchNflGameKeys), so this doesn't need updating each year.
+const FALLBACK_NFL_GAME_KEYS: Record<number, string> = {
+  2025: '461',
+  2024: '449',
+  2023: '423',
+  2022: '414',
+  2021: '406',
+  2020: '399',
+  2019: '390',
+  2018: '380',
+  2017: '371',
+  2016: '359',
+  2015: '348',
+  2014: '331',
+  2013: '314',
+  2012: '273',
+  2011: '257'
+};
+
+const FIRST_NFL_SEASON = 2001;
+const GAME_KEYS_CACHE_KEY = 'yahoo_nfl_game_keys';
+const GAME_KEYS_RECHECK_MS = 24 * 60 * 60 * 1000;
 
 export type LogType = 'INFO' | 'SUCCESS' | 'WARN' | 'ERROR';
 export type Logger = (type: LogType, message: string) => void;
@@ -29,66 +40,181 @@ export type Logger = (type: LogType, message: string) => void;
 // Utility to pause execution
 const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
+// Every provider request goes through one scheduler, so parallel work still respects the budget
+const scheduler = createRequestScheduler();
+
+export const configureRequestScheduler = (config: SchedulerConfig | null) => {
+  saveSchedulerConfig(config);
+  scheduler.configure(getSchedulerConfig());
+};
+
+// JSON GET for the Sleeper and ESPN services, paced by the shared scheduler.
+// `errorFor` turns a failed status into the message the user sees.
+export const fetchScheduledJson = async (url: string, errorFor: (status: number) => string, headers: Record<string, string> = {}, signal?: AbortSignal): Promise<any> => {
+  const response = await scheduler.schedule(() => fetch(url, { headers, signal }), signal);
+  if (!response.ok) throw new Error(errorFor(response.status));
+  return response.json();
+};
+
+// --- SESSION STATE ---
+// The active session lets fetchWithRetry refresh an expired access token in the middle of a sync.
+// Tokens that were replaced by a refresh are remembered so callers still holding the old string keep working.
+
+const EXPIRY_MARGIN_MS = 60 * 1000;
+
+let activeSession: YahooSession | null = null;
+let sessionListener: ((session: YahooSession) => void) | null = null;
+let refreshInFlight: Promise<YahooSession> | null = null;
+const replacedTokens = new Map<string, string>();
+
+export const setYahooSession = (session: YahooSession | null, onRefresh?: (session: YahooSession) => void) => {
+  activeSession = session;
+  sessionListener = onRefresh || null;
+};
+
+export const getYahooSession = () => activeSession;
+
+// Follow the refresh chain so a stale token resolves to the newest one
+const resolveToken = (token: string): string => {
+  let current = token;
+  while (replacedTokens.has(current)) current = replacedTokens.get(current)!;
+  return current;
+};
+
+const canRefresh = (token: string) => !!(activeSession?.refreshToken && activeSession.accessToken === token);
+
+const refreshSession = async (): Promise<YahooSession> => {
+  if (!refreshInFlight) {
+    const previous = activeSession!;
+    refreshInFlight = refreshAccessToken(previous.refreshToken!)
+      .then(next => {
+        replacedTokens.set(previous.accessToken, next.accessToken);
+        activeSession = next;
+        if (sessionListener) sessionListener(next);
+        return next;
+      })
+      .finally(() => { refreshInFlight = null; });
+  }
+  return refreshInFlight;
+};
+
 // Robust fetch with retry logic
-const fetchWithRetry = async (url: string, accessToken: string, retries = 5, backoff = 2000): Promise<Response> => {
-  try {
-    const response = await fetch(`${PROXY_URL}${encodeURIComponent(url)}`, {
-      headers: { 'Authorization': `Bearer ${accessToken}` }
-    });
+const fetchWithRetry = async (url: string, accessToken: string, retries = 5, backoff = 2000, allowRefresh = true, signal?: AbortSignal): Promise<Response> => {
+  let token = resolveToken(accessToken);
 
-    if (!response.ok) {
-      // If 429 (Too Many Requests) or 5xx (Server Error), retry
-      if ((response.status === 429 || response.status >= 500) && retries > 0) {
-        console.warn(`Request failed (${response.status}), retrying in ${backoff}ms...`);
-        await wait(backoff);
-        return fetchWithRetry(url, accessToken, retries - 1, backoff * 2);
-      }
-      return response; // Return the error response if not retriable or out of retries
+  // Refresh ahead of time if we already know the token is about to expire
+  if (canRefresh(token) && activeSession!.expiresAt && Date.now() > activeSession!.expiresAt - EXPIRY_MARGIN_MS) {
+    try {
+      token = (await refreshSession()).accessToken;
+    } catch (e) {
+      console.warn("Proactive token refresh failed, trying existing token...", e);
     }
-    return response;
+  }
+
+  // Replayed fixtures never touch the network, so they skip the scheduler too
+  if (getTransportMode() === 'replay') {
+    if (signal?.aborted) throw new DOMException('Request cancelled', 'AbortError');
+    return replayResponse(url);
+  }
+
+  let response: Response;
+  try {
+    response = await scheduler.schedule(() => fetch(buildProxiedUrl(url), {
+      headers: { 'Authorization': `Bearer ${token}` },
+      signal
+    }), signal);
+    await recordResponse(url, response);
   } catch (error) {
-    if (retries > 0) {
+    if (retries > 0 && !signal?.aborted) {
       console.warn(`Network error, retrying in ${backoff}ms...`, error);
       await wait(backoff);
-      return fetchWithRetry(url, accessToken, retries - 1, backoff * 2);
+      return fetchWithRetry(url, accessToken, retries - 1, backoff * 2, allowRefresh, signal);
     }
     throw error;
   }
+
+  if (!response.ok) {
+    // If 401 (Expired Token) and we hold a refresh token, refresh once and replay the request
+    if (response.status === 401 && allowRefresh && canRefresh(token)) {
+      try {
+        await refreshSession();
+      } catch (e) {
+        console.warn("Token refresh failed", e);
+        return response;
+      }
+      return fetchWithRetry(url, accessToken, retries, backoff, false, signal);
+    }
+    // If 429 (Too Many Requests) or 5xx (Server Error), retry
+    if ((response.status === 429 || response.status >= 500) && retries > 0) {
+      // Retry-After pauses every queued request, not just this one
+      const retryAfter = parseRetryAfter(response.headers.get('Retry-After'));
+      if (retryAfter !== null) {
+        console.warn(`Request failed (${response.status}), Yahoo asked to wait ${retryAfter}ms...`);
+        scheduler.backOff(retryAfter);
+      } else {
+        console.warn(`Request failed (${response.status}), retrying in ${backoff}ms...`);
+        await wait(backoff);
+      }
+      return fetchWithRetry(url, accessToken, retries - 1, backoff * 2, allowRefresh, signal);
+    }
+    return response; // Return the error response if not retriable or out of retries
+  }
+  return response;
 };
 
 // --- AUTH HELPER ---
+// Code exchange and refresh go through our own server endpoint (api/yahoo/token.ts),
+// which holds the client secret. The browser never talks to api.login.yahoo.com directly.
 
-export const exchangeAuthCode = async (clientId: string, clientSecret: string, code: string): Promise<string> => {
-  const url = 'https://api.login.yahoo.com/oauth2/get_token';
-  const creds = btoa(`${clientId}:${clientSecret}`);
-  
-  const body = new URLSearchParams();
-  body.append('grant_type', 'authorization_code');
-  body.append('redirect_uri', 'oob');
-  body.append('code', code);
+const TOKEN_ENDPOINT = process.env.YAHOO_TOKEN_ENDPOINT || '/api/yahoo/token';
 
-  try {
-    const response = await fetch(`${PROXY_URL}${encodeURIComponent(url)}`, {
-      method: 'POST',
-      headers: {
-          'Authorization': `Basic ${creds}`,
-          'Content-Type': 'application/x-www-form-urlencoded'
-      },
-      body: body.toString()
-    });
+const requestToken = async (payload: Record<string, string>, previous?: YahooSession): Promise<YahooSession> => {
+  const response = await fetch(TOKEN_ENDPOINT, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(payload)
+  });
 
-    const json = await response.json();
-    
-    if (json.error) {
-       throw new Error(`Yahoo API Error: ${json.error_description || json.error}`);
-    }
-    
-    return json.access_token;
+  const json = await response.json().catch(() => ({ error: `Token endpoint returned ${response.status}` }));
+
+  if (json.error) {
+     throw new Error(`Yahoo API Error: ${json.error_description || json.error}`);
+  }
+
+  return {
+    accessToken: json.access_token,
+    // Yahoo normally rotates the refresh token, but keep the old one if it doesn't
+    refreshToken: json.refresh_token || previous?.refreshToken,
+    expiresAt: json.expires_in ? Date.now() + parseInt(json.expires_in) * 1000 : undefined
+  };
+};
+
+export const exchangeAuthCode = async (code: string, redirectUri = 'oob', codeVerifier?: string): Promise<YahooSession> => {
+  const payload: Record<string, string> = {
+    grant_type: 'authorization_code',
+    redirect_uri: redirectUri,
+    code
+  };
+  if (codeVerifier) payload.code_verifier = codeVerifier;
+
+  try {
+    return await requestToken(payload);
   } catch (e: any) {
     throw new Error(`Token Exchange Failed: ${e.message}`);
   }
 };
 
+export const refreshAccessToken = async (refreshToken: string): Promise<YahooSession> => {
+  try {
+    return await requestToken({
+      grant_type: 'refresh_token',
+      refresh_token: refreshToken
+    }, { accessToken: '', refreshToken });
+  } catch (e: any) {
+    throw new Error(`Token Refresh Failed: ${e.message}`);
+  }
+};
+
 // --- HELPER FUNCTIONS FOR ROBUST PARSING ---
 
 // Safely extracts a property from a node, handling Objects, Arrays, and "0" wrappers
@@ -178,11 +304,95 @@ const getTeamPoints = (teamData: any): number => {
     return 0;
 }
 
+// Extract projected points (team_projected_points sits next to team_points)
+const getTeamProjectedPoints = (teamData: any): number | undefined => {
+    const projected = safeExtract(teamData, 'team_projected_points');
+    if (projected && projected.total !== undefined && projected.total !== '') return parseFloat(projected.total);
+    return undefined;
+}
+
+// Extract win probability (0-1); Yahoo only includes it for seasons where it offered projections
+const getTeamWinProbability = (teamData: any): number | undefined => {
+    const probability = safeExtract(teamData, 'win_probability');
+    if (probability === undefined || probability === null || probability === '') return undefined;
+    const value = parseFloat(probability);
+    return Number.isNaN(value) ? undefined : value;
+}
+
+// Yahoo links seasons of the same league through `renew` (previous) and `renewed` (next),
+// written as "{game_key}_{league_id}" instead of a league key
+const toLeagueKey = (link: any): string | undefined => {
+  if (!link || typeof link !== 'string') return undefined;
+  const [gameKey, leagueId] = link.split('_');
+  return gameKey && leagueId ? `${gameKey}.l.${leagueId}` : undefined;
+};
+
+const toLeagueSummary = (meta: any, year?: number): LeagueSummary => ({
+  key: meta.league_key,
+  name: meta.name,
+  year: year ?? parseInt(meta.season),
+  logo: meta.logo_url,
+  renew: toLeagueKey(meta.renew),
+  renewed: toLeagueKey(meta.renewed)
+});
+
+// --- GAME KEY DISCOVERY ---
+
+interface GameKeyCache {
+  fetchedAt: number;
+  keys: Record<number, string>; // season -> game key
+}
+
+const readGameKeyCache = (): GameKeyCache | null => {
+  try {
+    const saved = localStorage.getItem(GAME_KEYS_CACHE_KEY);
+    return saved ? JSON.parse(saved) : null;
+  } catch (e) {
+    return null;
+  }
+};
+
+// Game keys never change once assigned, so the cache is only refreshed while the
+// current season's key is still missing (checked at most once a day)
+export const fetchNflGameKeys = async (accessToken: string, log?: Logger): Promise<Record<number, string>> => {
+  const currentYear = new Date().getFullYear();
+  const cached = readGameKeyCache();
+  if (cached && (cached.keys[currentYear] || Date.now() - cached.fetchedAt < GAME_KEYS_RECHECK_MS)) {
+    return cached.keys;
+  }
+
+  const seasons: number[] = [];
+  for (let year = FIRST_NFL_SEASON; year <= currentYear; year++) seasons.push(year);
+  const url = `${BASE_URL}/games;game_codes=nfl;seasons=${seasons.join(',')}?format=json`;
+
+  try {
+    const response = await fetchWithRetry(url, accessToken);
+    if (!response.ok) throw new Error(`API Status ${response.status}`);
+
+    const json = await response.json();
+    const gamesNode = json?.fantasy_content?.games;
+    const keys: Record<number, string> = {};
+    for (let i = 0; i < (gamesNode?.count || 0); i++) {
+      const game = gamesNode[i + ""]?.game;
+      const meta = Array.isArray(game) ? game[0] : game;
+      if (meta?.game_key && meta?.season) keys[parseInt(meta.season)] = String(meta.game_key);
+    }
+    if (Object.keys(keys).length === 0) throw new Error("No games returned");
+
+    localStorage.setItem(GAME_KEYS_CACHE_KEY, JSON.stringify({ fetchedAt: Date.now(), keys }));
+    return keys;
+  } catch (e: any) {
+    log?.('WARN', `Could not look up NFL game keys, using known keys: ${e.message}`);
+    return { ...FALLBACK_NFL_GAME_KEYS, ...cached?.keys };
+  }
+};
+
 // ---------------------------------------------
 
-export const fetchUserLeagues = async (accessToken: string): Promise<LeagueSummary[]> => {
-  // Fetch leagues across all known NFL game keys to build a history
-  const keysString = NFL_GAME_KEYS.join(',');
+export const fetchUserLeagues = async (accessToken: string, log?: Logger): Promise<LeagueSummary[]> => {
+  // Fetch leagues across every NFL game key to build a history
+  const gameKeys = await fetchNflGameKeys(accessToken, log);
+  const keysString = Object.values(gameKeys).join(',');
   const url = `${BASE_URL}/users;use_login=1/games;game_keys=${keysString}/leagues?format=json`;
 
   const response = await fetchWithRetry(url, accessToken);
@@ -214,13 +424,7 @@ export const fetchUserLeagues = async (accessToken: string): Promise<LeagueSumma
        const leagueObj = leaguesNode[j + ""]?.league;
        if (!leagueObj) continue;
        
-       const meta = leagueObj[0];
-       leagues.push({
-         key: meta.league_key,
-         name: meta.name,
-         year: seasonYear,
-         logo: meta.logo_url
-       });
+       leagues.push(toLeagueSummary(leagueObj[0], seasonYear));
     }
   }
 
@@ -228,10 +432,207 @@ export const fetchUserLeagues = async (accessToken: string): Promise<LeagueSumma
   return leagues.sort((a, b) => b.year - a.year);
 };
 
+// --- LEAGUE LINEAGE ---
+
+const fetchLeagueSummary = async (accessToken: string, leagueKey: string): Promise<LeagueSummary | null> => {
+  const url = `${BASE_URL}/league/${leagueKey}/metadata?format=json`;
+  const response = await fetchWithRetry(url, accessToken);
+  if (!response.ok) return null;
+
+  const json = await response.json();
+  const meta = json?.fantasy_content?.league?.[0];
+  return meta?.league_key ? toLeagueSummary(meta) : null;
+};
+
+// Walks renew/renewed links in both directions from any one season. Seasons already in `known`
+// are used as-is; missing links (e.g. seasons before the user joined) are looked up on Yahoo.
+export const fetchLeagueLineage = async (
+  accessToken: string,
+  leagueKey: string,
+  known: LeagueSummary[] = [],
+  log?: (type: LogType, msg: string) => void
+): Promise<LeagueSummary[]> => {
+  const byKey = new Map(known.map(l => [l.key, l]));
+  const lineage = new Map<string, LeagueSummary>();
+  const queue = [leagueKey];
+
+  while (queue.length > 0) {
+    const key = queue.shift()!;
+    if (lineage.has(key)) continue;
+
+    let summary = byKey.get(key) || null;
+    if (!summary) {
+      try {
+        summary = await fetchLeagueSummary(accessToken, key);
+      } catch (e: any) {
+        log?.('WARN', `Could not look up linked league ${key}: ${e.message}`);
+      }
+      if (!summary) continue;
+    }
+
+    lineage.set(key, summary);
+    if (summary.renew) queue.push(summary.renew);
+    if (summary.renewed) queue.push(summary.renewed);
+  }
+
+  return Array.from(lineage.values()).sort((a, b) => b.year - a.year);
+};
+
+// Groups a flat league list into lineages using only the links between the given leagues
+export const groupLeagueLineages = (leagues: LeagueSummary[]): LeagueLineage[] => {
+  const byKey = new Map(leagues.map(l => [l.key, l]));
+  const visited = new Set<string>();
+  const lineages: LeagueLineage[] = [];
+
+  [...leagues].sort((a, b) => b.year - a.year).forEach(start => {
+    if (visited.has(start.key)) return;
+
+    const members: LeagueSummary[] = [];
+    const queue = [start.key];
+    while (queue.length > 0) {
+      const key = queue.shift()!;
+      const league = byKey.get(key);
+      if (!league || visited.has(key)) continue;
+      visited.add(key);
+      members.push(league);
+      if (league.renew) queue.push(league.renew);
+      if (league.renewed) queue.push(league.renewed);
+    }
+
+    members.sort((a, b) => b.year - a.year);
+    lineages.push({ id: members[0].key, name: members[0].name, leagues: members });
+  });
+
+  return lineages;
+};
+
+// --- INCREMENTAL SYNC HELPERS ---
+
+export interface SyncOptions {
+  existing?: LeagueData | null; // Previously stored league, used to skip data we already have
+  fullRefresh?: boolean; // Ignore `existing` and re-fetch everything
+  resumeFrom?: LeagueData | null; // Checkpoint of an interrupted sync; reused even on a full refresh
+  onCheckpoint?: (partial: LeagueData) => void; // Called after every season and scoreboard week
+  signal?: AbortSignal; // Cancels the sync; seasons finished before that are still returned
+  onProgress?: (progress: SyncProgress) => void;
+}
+
+export interface SyncProgress {
+  season: number; // 1-based index of the season being worked on
+  seasonCount: number;
+  completed: number; // Seasons fully fetched
+  fraction: number; // Overall progress, 0-1
+  year?: number;
+  week?: number; // Weeks of the current season fetched so far
+  weekCount?: number;
+  requests: number; // Yahoo requests made by this sync
+  elapsedMs: number;
+  etaMs?: number; // Rough estimate, once there's enough progress to go on
+}
+
+export const isAbortError = (e: any) => e?.name === 'AbortError';
+
+// Yahoo, Sleeper and ESPN all start auction teams with $200 unless the league says otherwise
+export const DEFAULT_AUCTION_BUDGET = 200;
+
+// Rough estimate: the rest takes as long on average as what's done so far
+export const estimateRemainingMs = (elapsedMs: number, fraction: number): number | undefined =>
+  fraction > 0.02 && fraction < 1 ? (elapsedMs / fraction) * (1 - fraction) : undefined;
+
+export interface ProgressReporter {
+  setSeasonCount: (count: number) => void;
+  seasonDone: () => void;
+  completed: () => number;
+  report: (year?: number, week?: number, weekCount?: number) => void;
+}
+
+// Shared by every provider. Progress is measured over the seasons that actually need fetching;
+// requests are counted by the shared scheduler.
+export const createProgressReporter = (onProgress: SyncOptions['onProgress']): ProgressReporter => {
+  const startedAt = Date.now();
+  const requestCount = () => scheduler.requestCount();
+  const startRequests = requestCount();
+  let seasonsDone = 0;
+  let seasonsToFetch = 0;
+
+  return {
+    setSeasonCount: count => { seasonsToFetch = count; },
+    seasonDone: () => { seasonsDone++; },
+    completed: () => seasonsDone,
+    report: (year, week, weekCount) => {
+      if (!onProgress) return;
+      const elapsedMs = Date.now() - startedAt;
+      const fraction = seasonsToFetch > 0 ? (seasonsDone + (week && weekCount ? week / weekCount : 0)) / seasonsToFetch : 1;
+      onProgress({
+        season: Math.min(seasonsDone + 1, seasonsToFetch),
+        seasonCount: seasonsToFetch,
+        completed: seasonsDone,
+        fraction: Math.min(1, fraction),
+        year,
+        week,
+        weekCount,
+        requests: requestCount() - startRequests,
+        elapsedMs,
+        etaMs: estimateRemainingMs(elapsedMs, fraction)
+      });
+    }
+  };
+};
+
+// A season is settled when Yahoo marked it finished (or, for data stored before we tracked that,
+// when games run through the final week) and we actually have games for every week. A week
+// missing from a finished season means its fetch failed or was interrupted, so it's fetched again.
+export const isSeasonComplete = (season: Season): boolean => {
+  if (!season.games || season.games.length === 0) return false;
+  const weeks = new Set(season.games.map(g => g.week));
+  const lastWeek = Math.max(...weeks);
+  if (season.isFinished === undefined) return lastWeek >= (season.endWeek || 16);
+  if (!season.isFinished) return false;
+  for (let week = season.startWeek || 1; week <= (season.endWeek || lastWeek); week++) {
+    if (!weeks.has(week)) return false;
+  }
+  return true;
+};
+
+// Seasons per metadata request. Settings carry start_week / end_week; transactions are paged in
+// separately per season (see fetchSeasonTransactions).
+const METADATA_BATCH_SIZE = 10;
+const metadataUrl = (leagueKeys: string[]) => `${BASE_URL}/leagues;league_keys=${leagueKeys.join(',')};out=standings,draftresults,settings?format=json`;
+
+// Divisions of a stored season, from the same metadata request as a fresh fetch
+const readStoredDivisions = (accessToken: string, signal?: AbortSignal) => async (season: Season): Promise<SeasonDivisions> => {
+  const response = await fetchWithRetry(metadataUrl([season.key]), accessToken, 5, 2000, true, signal);
+  if (!response.ok) throw new Error(`API Status: ${response.status}`);
+
+  const json = await response.json();
+  const leagueData = json?.fantasy_content?.leagues?.["0"]?.league;
+  const divisions = readDivisionSettings(leagueData?.find((n: any) => n.settings)?.settings?.[0]);
+  const teamsNode = leagueData?.find((n: any) => n.standings)?.standings?.[0]?.teams;
+  const teams: SeasonDivisions['teams'] = [];
+  for (let t = 0; t < (teamsNode?.count || 0); t++) {
+    const teamWrapper = teamsNode[t + ""]?.team;
+    const teamKey = getTeamKey(teamWrapper);
+    const divisionId = teamWrapper?.[0]?.find?.((x: any) => x?.division_id)?.division_id;
+    if (teamKey) teams.push({ teamKey, divisionId: divisionId !== undefined ? String(divisionId) : undefined });
+  }
+  return { divisions, teams };
+};
+
+// Weeks whose stored games can be reused: everything before the week currently being played
+const getSettledWeeks = (stored: Season | undefined, currentWeek?: number, isFinished?: boolean): Set<number> => {
+  const weeks = new Set<number>();
+  if (!stored?.games) return weeks;
+  stored.games.forEach(g => {
+    if (isFinished || !currentWeek || g.week < currentWeek) weeks.add(g.week);
+  });
+  return weeks;
+};
+
 export const fetchYahooData = async (
   accessToken: string, 
   leagueKeys: string[],
-  log?: Logger
+  log?: Logger,
+  options: SyncOptions = {}
 ): Promise<LeagueData> => {
   if (!leagueKeys || leagueKeys.length === 0) throw new Error("No leagues selected.");
   
@@ -240,24 +641,66 @@ export const fetchYahooData = async (
       if (log) log(type, msg);
   };
 
-  // Batch leagues to initial metadata fetch
-  const BATCH_SIZE = 10; 
-  const chunks = [];
-  for (let i = 0; i < leagueKeys.length; i += BATCH_SIZE) {
-    chunks.push(leagueKeys.slice(i, i + BATCH_SIZE));
-  }
+  const storedLeague = options.fullRefresh ? null : options.existing;
+  const existing = options.resumeFrom ? mergeLeagueData(storedLeague || null, options.resumeFrom).data : storedLeague;
+  const storedSeasons = new Map<string, Season>((existing?.seasons || []).map(s => [s.key, s]));
+  if (options.resumeFrom) safeLog('INFO', `Resuming: ${options.resumeFrom.seasons.length} season(s) saved by the interrupted sync.`);
 
   const allSeasons: Season[] = [];
   const allManagersMap = new Map<string, any>();
+  const signal = options.signal;
+
+  const progress = createProgressReporter(options.onProgress);
+
+  // Seed with stored managers so reused seasons keep their people. Newer synced names still win.
+  (existing?.managers || []).forEach(m => {
+      allManagersMap.set(m.id, { ...m, _lastSeenYear: 0, _isFallback: false });
+  });
+
+  // Everything gathered so far plus the season in progress, for resuming an interrupted sync
+  const checkpoint = (inProgress?: Season) => {
+      if (!options.onCheckpoint) return;
+      const managers = Array.from(allManagersMap.values()).map(({id, name, avatar}) => ({id, name, avatar}));
+      options.onCheckpoint({ managers, seasons: inProgress ? [...allSeasons, inProgress] : [...allSeasons], players: existing?.players });
+  };
+
+  // Completed seasons we already hold are reused as-is without touching the API
+  const keysToFetch = leagueKeys.filter(key => {
+      const stored = storedSeasons.get(key);
+      if (stored && isSeasonComplete(stored)) {
+          safeLog('INFO', `Skipping ${stored.year}: season complete with ${stored.games!.length} games stored.`);
+          allSeasons.push(stored);
+          return false;
+      }
+      return true;
+  });
+  progress.setSeasonCount(keysToFetch.length);
+  progress.report();
+
+  for (let i = 0; i < allSeasons.length; i++) {
+      allSeasons[i] = await fillStoredDivisions(allSeasons[i], readStoredDivisions(accessToken, signal), safeLog, signal);
+  }
+
+  // Batch leagues to initial metadata fetch
+  const chunks = [];
+  for (let i = 0; i < keysToFetch.length; i += METADATA_BATCH_SIZE) {
+    chunks.push(keysToFetch.slice(i, i + METADATA_BATCH_SIZE));
+  }
 
   for (const chunk of chunks) {
+     if (signal?.aborted) break;
      const keysString = chunk.join(',');
-     // ADD settings to output to get start_week / end_week
-     const targetUrl = `${BASE_URL}/leagues;league_keys=${keysString};out=standings,draftresults,transactions,settings?format=json`;
+     const targetUrl = metadataUrl(chunk);
      
      safeLog('INFO', `Fetching metadata for ${chunk.length} league(s)...`);
 
-     const response = await fetchWithRetry(targetUrl, accessToken);
+     let response: Response;
+     try {
+        response = await fetchWithRetry(targetUrl, accessToken, 5, 2000, true, signal);
+     } catch (e) {
+        if (isAbortError(e)) break;
+        throw e;
+     }
 
      if (!response.ok) {
         if (response.status === 401) throw new Error("Unauthorized: Token expired");
@@ -272,9 +715,36 @@ export const fetchYahooData = async (
 
      // Fetch Schedule/Matchups sequentially for each season to avoid timeout/rate-limit
      for (const season of seasons) {
+        if (signal?.aborted) break;
+        progress.report(season.year);
+        const stored = storedSeasons.get(season.key);
+        const settledWeeks = getSettledWeeks(stored, season.currentWeek, season.isFinished);
+        const reusedGames = (stored?.games || []).filter(g => settledWeeks.has(g.week));
+
+        // Transactions: page through the full season, keeping what's stored if Yahoo won't return them
+        try {
+            const teamKeyToManagerId = new Map(season.standings.filter(s => s.teamKey && s.managerId).map(s => [s.teamKey, s.managerId]));
+            const transactions = await fetchSeasonTransactions(season.key, accessToken, teamKeyToManagerId, season.year, safeLog, signal);
+            season.transactions = transactions ?? stored?.transactions ?? [];
+            if (transactions) safeLog('SUCCESS', `Loaded ${transactions.length} transactions for ${season.year}.`);
+        } catch (e: any) {
+            if (!isAbortError(e)) safeLog('WARN', `Failed to fetch transactions for ${season.year}: ${e.message}`);
+            season.transactions = stored?.transactions || [];
+        }
+
+        // Keepers: draft_results has no keeper flag, so it's read from the league's player records
+        if (season.draft && season.draft.length > 0) {
+            try {
+                const keepers = await fetchSeasonKeepers(season.key, accessToken, season.draft.map(p => p.playerKey || ''), signal);
+                season.draft.forEach(pick => {
+                    if (pick.playerKey && keepers.has(pick.playerKey)) pick.isKeeper = true;
+                });
+            } catch (e: any) {
+                if (!isAbortError(e)) safeLog('WARN', `Failed to read keepers for ${season.year}: ${e.message}`);
+            }
+        }
+
         try {
-            safeLog('INFO', `Starting matchup sync for ${season.year}...`);
-            
             // Build Maps: TeamKey -> ManagerID AND TeamID -> ManagerID
             const teamKeyMap = new Map<string, string>();
             const teamIdMap = new Map<string, string>();
@@ -290,43 +760,98 @@ export const fetchYahooData = async (
 
             if (teamKeyCount === 0) {
                 safeLog('WARN', `No team keys found for ${season.year}. Cannot sync matchups.`);
+                season.games = reusedGames;
                 continue;
             }
 
-            // Fetch games week by week
-            season.games = await fetchSeasonGames(
+            // Weeks that haven't been played yet have no scores worth storing
+            const startWeek = season.startWeek || 1;
+            const endWeek = season.endWeek || 16;
+            const lastWeek = (!season.isFinished && season.currentWeek) ? Math.min(endWeek, season.currentWeek) : endWeek;
+
+            if (settledWeeks.size > 0) {
+                safeLog('INFO', `Starting matchup sync for ${season.year} (reusing ${settledWeeks.size} stored weeks)...`);
+            } else {
+                safeLog('INFO', `Starting matchup sync for ${season.year}...`);
+            }
+
+            // Fetch only the missing / in-progress weeks
+            const fetchedGames = await fetchSeasonGames(
                 season.key, 
                 accessToken, 
                 teamKeyMap,
                 teamIdMap,
                 season.year, 
-                season.startWeek || 1,
-                season.endWeek || 16,
-                safeLog
+                startWeek,
+                lastWeek,
+                safeLog,
+                settledWeeks,
+                (games, weekIndex, weekCount) => {
+                    season.games = [...reusedGames, ...games];
+                    // Checkpointed as unfinished, so a resumed sync fetches the weeks still missing
+                    const nextWeek = Math.max(0, ...games.map(g => g.week)) + 1;
+                    checkpoint({ ...season, isFinished: false, currentWeek: nextWeek });
+                    progress.report(season.year, weekIndex, weekCount);
+                },
+                signal
             );
+
+            season.games = [...reusedGames, ...fetchedGames].sort((a, b) => a.week - b.week);
             
             if (season.games.length > 0) {
-                safeLog('SUCCESS', `Loaded ${season.games.length} games for ${season.year}.`);
+                safeLog('SUCCESS', `Loaded ${season.games.length} games for ${season.year} (${fetchedGames.length} new).`);
             } else {
                 safeLog('WARN', `No games found for ${season.year}. This is unexpected.`);
             }
-            
-            // Polite delay between seasons
-            await wait(1500); 
+
 
         } catch (e: any) {
+            // Kept with the weeks we have; the gaps stop it counting as complete, so the next sync retries
             safeLog('ERROR', `Failed to fetch matchups for season ${season.year}: ${e.message}`);
-            season.games = [];
+            season.games = reusedGames;
+        } finally {
+            // A season cut short by cancelling is left out; the stored copy (if any) stays as it was
+            if (!signal?.aborted) {
+                applyPlayoffResults(season);
+                allSeasons.push(season);
+                progress.seasonDone();
+                checkpoint();
+                progress.report(season.year);
+            }
         }
      }
-
-     allSeasons.push(...seasons);
   }
 
+  if (signal?.aborted) safeLog('WARN', `Sync cancelled. Keeping ${progress.completed()} fully fetched season(s).`);
+
   allSeasons.sort((a, b) => a.year - b.year);
   const managers = Array.from(allManagersMap.values()).map(({id, name, avatar}) => ({id, name, avatar}));
 
-  return { managers, seasons: allSeasons };
+  // Player dictionary: only players we haven't looked up before hit the API
+  const players = buildPlayerIndex(existing?.players);
+  const missingKeys = Array.from(collectPlayerKeys({ managers, seasons: allSeasons }).entries())
+      .filter(([id]) => !players.has(id))
+      .map(([, key]) => key);
+
+  if (missingKeys.length > 0 && !signal?.aborted) {
+      safeLog('INFO', `Looking up ${missingKeys.length} new player(s)...`);
+      try {
+          const fetched = await fetchPlayerDetails(accessToken, missingKeys, signal);
+          fetched.forEach(p => players.set(p.id, p));
+          safeLog('SUCCESS', `Added ${fetched.length} players to the league dictionary.`);
+      } catch (e: any) {
+          safeLog('WARN', `Failed to resolve player details: ${e.message}`);
+      }
+  }
+
+  allSeasons.forEach(season => {
+      (season.draft || []).forEach(pick => {
+          const info = lookupPlayer(players, pick.playerKey);
+          if (info) pick.player = info.name;
+      });
+  });
+
+  return { managers, seasons: allSeasons, players: Array.from(players.values()) };
 };
 
 const fetchSeasonGames = async (
@@ -337,7 +862,10 @@ const fetchSeasonGames = async (
     year: number,
     startWeek: number,
     endWeek: number,
-    log: Logger
+    log: Logger,
+    skipWeeks: Set<number> = new Set(),
+    onWeek?: (games: Game[], weekIndex: number, weekCount: number) => void, // Games so far, after every week
+    signal?: AbortSignal
 ): Promise<Game[]> => {
     const games: Game[] = [];
     
@@ -345,15 +873,24 @@ const fetchSeasonGames = async (
     const MAX_WEEKS = endWeek || 18;
     const START_WEEK = startWeek || 1;
     let consecutiveEmptyWeeks = 0;
+    let weekIndex = 0;
+    let weekCount = 0;
+    for (let week = START_WEEK; week <= MAX_WEEKS; week++) {
+        if (!skipWeeks.has(week)) weekCount++;
+    }
     
     for (let week = START_WEEK; week <= MAX_WEEKS; week++) {
+        if (skipWeeks.has(week)) continue;
+        if (signal?.aborted) break;
+        weekIndex++;
+
         const url = `${BASE_URL}/leagues;league_keys=${leagueKey}/scoreboard;week=${week}?format=json`;
         
         log('INFO', `Fetching ${year} Week ${week} scoreboard...`);
 
         try {
             // High retry count, generous backoff
-            const response = await fetchWithRetry(url, accessToken, 5, 2000);
+            const response = await fetchWithRetry(url, accessToken, 5, 2000, true, signal);
             
             if (!response.ok) {
                 if (response.status === 400 || response.status === 404) {
@@ -437,6 +974,7 @@ const fetchSeasonGames = async (
                     // 5. Extract Meta
                     const weekStr = safeExtract(matchupData, 'week');
                     const isPlayoffsStr = safeExtract(matchupData, 'is_playoffs');
+                    const isConsolationStr = safeExtract(matchupData, 'is_consolation');
                     const winnerKey = safeExtract(matchupData, 'winner_team_key');
                     const isTiedStr = safeExtract(matchupData, 'is_tied');
 
@@ -463,6 +1001,9 @@ const fetchSeasonGames = async (
 
                         const t0Pts = getTeamPoints(team0Wrapper);
                         const t1Pts = getTeamPoints(team1Wrapper);
+
+                        const t0Side = { projectedPoints: getTeamProjectedPoints(team0Wrapper), winProbability: getTeamWinProbability(team0Wrapper) };
+                        const t1Side = { projectedPoints: getTeamProjectedPoints(team1Wrapper), winProbability: getTeamWinProbability(team1Wrapper) };
                         
                         // Try matching by Key first, then ID
                         const mgr0 = (t0Key ? teamKeyMap.get(t0Key) : null) || (t0Id ? teamIdMap.get(t0Id) : null);
@@ -472,10 +1013,11 @@ const fetchSeasonGames = async (
                             games.push({
                                 week: weekStr ? parseInt(weekStr) : week,
                                 isPlayoffs: isPlayoffsStr === '1',
+                                isConsolation: isConsolationStr === '1',
                                 winnerTeamKey: winnerKey,
                                 isTie: isTiedStr === '1',
-                                teamA: { managerId: mgr0, teamKey: t0Key || '', points: t0Pts },
-                                teamB: { managerId: mgr1, teamKey: t1Key || '', points: t1Pts }
+                                teamA: { managerId: mgr0, teamKey: t0Key || '', points: t0Pts, ...t0Side },
+                                teamB: { managerId: mgr1, teamKey: t1Key || '', points: t1Pts, ...t1Side }
                             });
                             gamesAddedThisWeek++;
                         } else {
@@ -490,12 +1032,11 @@ const fetchSeasonGames = async (
                     console.error("Error parsing single matchup", err);
                 }
             }
-            
-            // Polite delay to avoid rate limits
-            await wait(1000);
 
         } catch (e: any) {
-            log('ERROR', `Error fetching games for ${year} week ${week}: ${e.message}`);
+            if (!isAbortError(e)) log('ERROR', `Error fetching games for ${year} week ${week}: ${e.message}`);
+        } finally {
+            if (onWeek && !signal?.aborted) onWeek([...games], weekIndex, weekCount);
         }
     }
 
@@ -504,52 +1045,211 @@ const fetchSeasonGames = async (
     return uniqueGames.sort((a: any, b: any) => a.week - b.week);
 };
 
-export const fetchPlayerDetails = async (accessToken: string, playerKeys: string[]) => {
+// --- ROSTER SNAPSHOTS ---
+
+const ROSTER_TEAM_BATCH = 12;
+
+const parseRosterPlayers = (teamWrapper: any): PlayerWeekScore[] => {
+  const playersNode = safeExtract(safeExtract(teamWrapper, 'roster'), 'players');
+  const players: PlayerWeekScore[] = [];
+
+  for (let j = 0; j < (playersNode?.count || 0); j++) {
+    const player = playersNode[j + ""]?.player;
+    if (!Array.isArray(player)) continue;
+
+    const meta = Array.isArray(player[0]) ? player[0] : [];
+    const playerKey = meta.find((x: any) => x?.player_key)?.player_key;
+    if (!playerKey) continue;
+
+    const points = safeExtract(player, 'player_points');
+    players.push({
+      playerKey,
+      name: meta.find((x: any) => x?.name)?.name?.full || 'Unknown',
+      position: meta.find((x: any) => x?.display_position)?.display_position || '',
+      slot: safeExtract(safeExtract(player, 'selected_position'), 'position') || 'BN',
+      points: points?.total ? parseFloat(points.total) : 0
+    });
+  }
+  return players;
+};
+
+// Every team's roster with player points for the given weeks of one season
+export const fetchWeeklyRosters = async (accessToken: string, season: Season, weeks: number[], log: Logger, signal?: AbortSignal): Promise<SeasonRosters> => {
+  const rosters: SeasonRosters = {};
+  const teamKeys = season.standings.map(s => s.teamKey).filter(Boolean);
+  const managerByTeam = new Map(season.standings.map(s => [s.teamKey, s.managerId]));
+
+  const batches: string[][] = [];
+  for (let i = 0; i < teamKeys.length; i += ROSTER_TEAM_BATCH) {
+    batches.push(teamKeys.slice(i, i + ROSTER_TEAM_BATCH));
+  }
+
+  // Every week/batch request is queued at once; the request scheduler decides how many run together
+  await Promise.all(weeks.map(async week => {
+    const weekRosters: TeamWeekRoster[] = [];
+    let missingBatch = false;
+
+    await Promise.all(batches.map(async batch => {
+      const url = `${BASE_URL}/teams;team_keys=${batch.join(',')}/roster;week=${week}/players/stats;type=week;week=${week}?format=json`;
+
+      try {
+        const response = await fetchWithRetry(url, accessToken, 5, 2000, true, signal);
+        if (!response.ok) {
+          log('WARN', `Skipping ${season.year} Week ${week} rosters (API Status: ${response.status})`);
+          missingBatch = true;
+          return;
+        }
+
+        const json = await response.json();
+        const teamsNode = json?.fantasy_content?.teams;
+        for (let t = 0; t < (teamsNode?.count || 0); t++) {
+          const teamWrapper = teamsNode[t + ""]?.team;
+          const teamKey = getTeamKey(teamWrapper);
+          const managerId = teamKey ? managerByTeam.get(teamKey) : undefined;
+          if (!teamKey || !managerId) continue;
+
+          weekRosters.push({ week, managerId, teamKey, players: parseRosterPlayers(teamWrapper) });
+        }
+      } catch (e: any) {
+        if (!isAbortError(e)) log('ERROR', `Error fetching ${season.year} Week ${week} rosters: ${e.message}`);
+        missingBatch = true;
+      }
+    }));
+
+    // A week missing any batch (cancelled or failed) is left out, so the next sync fetches it again
+    if (!missingBatch && weekRosters.length > 0) rosters[week] = weekRosters;
+  }));
+
+  return rosters;
+};
+
+// Roster stage of a sync: fetches snapshots for played weeks that aren't stored yet and
+// records the stored weeks on each season (`rosterWeeks`). Returns the new snapshots by season key.
+export const fetchLeagueRosters = async (
+  accessToken: string,
+  seasons: Season[],
+  log: Logger,
+  options: SyncOptions = {}
+): Promise<Record<string, SeasonRosters>> => {
+  const storedSeasons = new Map((options.fullRefresh ? [] : options.existing?.seasons || []).map(s => [s.key, s]));
+  const result: Record<string, SeasonRosters> = {};
+
+  for (const season of seasons) {
+    if (options.signal?.aborted) break;
+    const playedWeeks = Array.from(new Set((season.games || []).map(g => g.week))).sort((a, b) => a - b);
+    const stored = storedSeasons.get(season.key)?.rosterWeeks || [];
+
+    // Stored weeks of an unfinished season are kept only once they're over
+    const settled = stored.filter(w => season.isFinished || !season.currentWeek || w < season.currentWeek);
+    const missing = playedWeeks.filter(w => !settled.includes(w));
+
+    if (missing.length === 0) {
+      season.rosterWeeks = settled;
+      continue;
+    }
+
+    log('INFO', `Fetching ${season.year} rosters for ${missing.length} week(s)...`);
+    // Weeks whose batches all returned before a cancel are still kept
+    const rosters = await fetchWeeklyRosters(accessToken, season, missing, log, options.signal);
+    const fetchedWeeks = Object.keys(rosters).map(Number);
+
+    season.rosterWeeks = Array.from(new Set([...settled, ...fetchedWeeks])).sort((a, b) => a - b);
+    if (fetchedWeeks.length > 0) {
+      result[season.key] = rosters;
+      log('SUCCESS', `Loaded ${fetchedWeeks.length} weeks of ${season.year} rosters.`);
+    }
+  }
+
+  return result;
+};
+
+const parsePlayerInfo = (metaArr: any[]): PlayerInfo | null => {
+  const playerKey = metaArr.find((x: any) => x.player_key)?.player_key;
+  const name = metaArr.find((x: any) => x.name)?.name?.full;
+  if (!playerKey || !name) return null;
+
+  const byeWeek = parseInt(metaArr.find((x: any) => x.bye_weeks)?.bye_weeks?.week);
+  return {
+    id: playerIdFromKey(playerKey),
+    name,
+    position: metaArr.find((x: any) => x.display_position)?.display_position || undefined,
+    nflTeam: metaArr.find((x: any) => x.editorial_team_abbr)?.editorial_team_abbr?.toUpperCase() || undefined,
+    byeWeek: byeWeek || undefined,
+    headshot: metaArr.find((x: any) => x.headshot)?.headshot?.url || metaArr.find((x: any) => x.image_url)?.image_url || undefined
+  };
+};
+
+export const fetchPlayerDetails = async (accessToken: string, playerKeys: string[], signal?: AbortSignal): Promise<PlayerInfo[]> => {
   const uniqueKeys = Array.from(new Set(playerKeys)).filter(k => !!k);
-  if (uniqueKeys.length === 0) return {};
+  if (uniqueKeys.length === 0) return [];
 
-  const map: Record<string, string> = {};
+  const players: PlayerInfo[] = [];
   
   const chunks = [];
   for (let i = 0; i < uniqueKeys.length; i += 25) {
     chunks.push(uniqueKeys.slice(i, i + 25));
   }
 
-  // Process player batches sequentially
-  for (const chunk of chunks) {
+  // Batches are queued together and paced by the request scheduler
+  await Promise.all(chunks.map(async chunk => {
     const keysStr = chunk.join(',');
     const url = `${BASE_URL}/players;player_keys=${keysStr}?format=json`;
     
     try {
-        const res = await fetchWithRetry(url, accessToken);
-        if (!res.ok) continue;
+        const res = await fetchWithRetry(url, accessToken, 5, 2000, true, signal);
+        if (!res.ok) return;
         
         const json = await res.json();
-        const players = json?.fantasy_content?.players;
+        const playersNode = json?.fantasy_content?.players;
         
-        if (!players || !players.count) continue;
+        if (!playersNode || !playersNode.count) return;
         
-        for (let i = 0; i < players.count; i++) {
-           const pObj = players[i + ""]; 
+        for (let i = 0; i < playersNode.count; i++) {
+           const pObj = playersNode[i + ""]; 
            const pArr = pObj?.player;
            if (!pArr) continue;
            
            const metaArr = Array.isArray(pArr) ? pArr[0] : null;
            
            if (Array.isArray(metaArr)) {
-             const pKeyInfo = metaArr.find((x:any) => x.player_key);
-             const pNameInfo = metaArr.find((x:any) => x.name);
-             
-             if (pKeyInfo?.player_key && pNameInfo?.name?.full) {
-               map[pKeyInfo.player_key] = pNameInfo.name.full;
-             }
+             const info = parsePlayerInfo(metaArr);
+             if (info) players.push(info);
            }
         }
-        await wait(200);
     } catch(e) { console.error("Error fetching players", e); }
+  }));
+
+  return players;
+};
+
+// Player keys kept from the previous season. Keeper status is league-scoped, so it comes from the
+// league's player records (is_keeper.kept) rather than the global player lookup.
+const fetchSeasonKeepers = async (leagueKey: string, accessToken: string, playerKeys: string[], signal?: AbortSignal): Promise<Set<string>> => {
+  const uniqueKeys = Array.from(new Set(playerKeys)).filter(k => !!k);
+  const keepers = new Set<string>();
+
+  const chunks = [];
+  for (let i = 0; i < uniqueKeys.length; i += 25) {
+    chunks.push(uniqueKeys.slice(i, i + 25));
   }
 
-  return map;
+  await Promise.all(chunks.map(async chunk => {
+    const url = `${BASE_URL}/league/${leagueKey}/players;player_keys=${chunk.join(',')}?format=json`;
+    const res = await fetchWithRetry(url, accessToken, 5, 2000, true, signal);
+    if (!res.ok) throw new Error(`API Status: ${res.status}`);
+
+    const json = await res.json();
+    const playersNode = json?.fantasy_content?.league?.find?.((n: any) => n?.players)?.players;
+    for (let i = 0; i < (playersNode?.count || 0); i++) {
+      const metaArr = playersNode[i + ""]?.player?.[0];
+      if (!Array.isArray(metaArr)) continue;
+      const playerKey = metaArr.find((x: any) => x?.player_key)?.player_key;
+      const kept = metaArr.find((x: any) => x?.is_keeper)?.is_keeper?.kept;
+      if (playerKey && (kept === true || kept === 1 || kept === '1')) keepers.add(playerKey);
+    }
+  }));
+
+  return keepers;
 };
 
 // Kept for backward compatibility
@@ -557,6 +1257,125 @@ export const fetchMatchups = async (accessToken: string, teamKeys: string[]) =>
     return [];
 };
 
+// --- TRANSACTIONS ---
+
+const TRANSACTION_PAGE_SIZE = 25;
+
+// transaction_data is an array for add/drop moves and a bare object for trades
+const getTransactionData = (playerData: any): any => {
+  const node = playerData?.find?.((n: any) => n?.transaction_data)?.transaction_data;
+  return Array.isArray(node) ? node[0] : node;
+};
+
+const parseTransaction = (txn: any, teamKeyToManagerId: Map<string, string>): Transaction | null => {
+  const meta = txn?.[0];
+  if (!meta) return null;
+
+  const players: TransactionPlayer[] = [];
+  const mgrsInvolved = new Set<string>();
+  const sides = new Map<string, TradeSide>();
+  let origin: Transaction['origin'];
+
+  const playersNode = txn.find((n: any) => n.players)?.players;
+  for (let p = 0; p < (playersNode?.count || 0); p++) {
+    const pData = playersNode[p + ""]?.player;
+    if (!pData) continue;
+
+    const pInfo = pData[0];
+    const data = getTransactionData(pData);
+    if (!data) continue;
+
+    const name = pInfo.find((x: any) => x.name)?.name?.full || 'Unknown';
+    const playerKey = pInfo.find((x: any) => x.player_key)?.player_key;
+    const destId = teamKeyToManagerId.get(data.destination_team_key) || '';
+    const sourceId = teamKeyToManagerId.get(data.source_team_key) || '';
+
+    if (data.type === 'add') {
+      const source = data.source_type === 'waivers' || data.source_type === 'freeagents' ? data.source_type : undefined;
+      origin = origin || source;
+      if (destId) mgrsInvolved.add(destId);
+      players.push({ name, playerKey, type: 'add', managerId: destId, source });
+    } else if (data.type === 'drop') {
+      if (sourceId) mgrsInvolved.add(sourceId);
+      players.push({ name, playerKey, type: 'drop', managerId: sourceId });
+    } else if (data.type === 'trade') {
+      if (destId) mgrsInvolved.add(destId);
+      if (sourceId) mgrsInvolved.add(sourceId);
+      players.push({ name, playerKey, type: 'trade', managerId: destId, fromManagerId: sourceId, source: 'team' });
+
+      const teamKey = data.destination_team_key;
+      if (!sides.has(teamKey)) sides.set(teamKey, { managerId: destId, teamKey, received: [] });
+      sides.get(teamKey)!.received.push({ name, playerKey });
+    }
+  }
+
+  // A trade always has two sides, even when one of them only gave players away
+  let tradeSides: TradeSide[] | undefined;
+  if (meta.type === 'trade') {
+    [meta.trader_team_key, meta.tradee_team_key].forEach((teamKey: string) => {
+      if (teamKey && !sides.has(teamKey)) {
+        sides.set(teamKey, { managerId: teamKeyToManagerId.get(teamKey) || '', teamKey, received: [] });
+      }
+    });
+    tradeSides = Array.from(sides.values());
+  }
+
+  const faabBid = meta.faab_bid !== undefined && meta.faab_bid !== '' ? parseInt(meta.faab_bid) : undefined;
+
+  return {
+    id: meta.transaction_id,
+    type: meta.type,
+    date: parseInt(meta.timestamp) * 1000,
+    managerIds: Array.from(mgrsInvolved),
+    players,
+    status: meta.status,
+    faabBid: Number.isNaN(faabBid) ? undefined : faabBid,
+    origin,
+    tradeSides
+  };
+};
+
+const parseTransactions = (txnObj: any, teamKeyToManagerId: Map<string, string>): Transaction[] => {
+  const transactions: Transaction[] = [];
+  for (let t = 0; t < (txnObj?.count || 0); t++) {
+    const parsed = parseTransaction(txnObj[t + ""]?.transaction, teamKeyToManagerId);
+    if (parsed) transactions.push(parsed);
+  }
+  return transactions;
+};
+
+// Yahoo only returns one page of transactions per request, so page through the whole season
+const fetchSeasonTransactions = async (
+  leagueKey: string,
+  accessToken: string,
+  teamKeyToManagerId: Map<string, string>,
+  year: number,
+  log: Logger,
+  signal?: AbortSignal
+): Promise<Transaction[] | null> => {
+  const transactions: Transaction[] = [];
+
+  for (let start = 0; ; start += TRANSACTION_PAGE_SIZE) {
+    const url = `${BASE_URL}/league/${leagueKey}/transactions;start=${start};count=${TRANSACTION_PAGE_SIZE}?format=json`;
+    const response = await fetchWithRetry(url, accessToken, 5, 2000, true, signal);
+
+    if (!response.ok) {
+      log('WARN', `Could not load ${year} transactions past #${start} (API Status: ${response.status})`);
+      return start === 0 ? null : transactions;
+    }
+
+    const json = await response.json();
+    const txnObj = json?.fantasy_content?.league?.find?.((n: any) => n?.transactions)?.transactions;
+    const page = parseTransactions(txnObj, teamKeyToManagerId);
+    transactions.push(...page);
+
+    if ((txnObj?.count || 0) < TRANSACTION_PAGE_SIZE) break;
+  }
+
+  // Pages can shift while new moves come in; keep each transaction once
+  return Array.from(new Map(transactions.map(t => [t.id, t])).values()).sort((a, b) => b.date - a.date);
+};
+
 const transformYahooData = async (data: any, accessToken: string, managersMap: Map<string, any> = new Map()): Promise<{ seasons: Season[], managers: any }> => {
   const teamKeyToManagerId = new Map<string, string>();
   const seasons: Season[] = [];
@@ -565,7 +1384,6 @@ const transformYahooData = async (data: any, accessToken: string, managersMap: M
   if (!leaguesObj) return { seasons: [], managers: managersMap };
 
   const count = leaguesObj.count;
-  const unknownPlayerKeys = new Set<string>();
   
   for (let i = 0; i < count; i++) {
     const leagueData = leaguesObj[i + ""]?.league;
@@ -578,14 +1396,38 @@ const transformYahooData = async (data: any, accessToken: string, managersMap: M
     // Extract Settings to get Start/End Week
     let startWeek = 1;
     let endWeek = (year >= 2021) ? 17 : 16; 
+    let playoffs: PlayoffSettings | undefined;
+    let usesPlayoffs = true;
+    let numPlayoffTeams: number | undefined;
+    let divisions: Division[] | undefined;
+    let rosterPositions: RosterPosition[] | undefined;
+    let draftType: Season['draftType'];
+    let auctionBudget: number | undefined;
 
     const settingsNode = leagueData.find((n: any) => n.settings)?.settings;
     if (settingsNode && Array.isArray(settingsNode)) {
         const s = settingsNode[0];
         if (s.start_week) startWeek = parseInt(s.start_week);
         if (s.end_week) endWeek = parseInt(s.end_week);
+        playoffs = readPlayoffSettings(s);
+        usesPlayoffs = !(s.uses_playoff === '0' || s.uses_playoff === 0);
+        numPlayoffTeams = playoffs?.numPlayoffTeams || parseInt(s.num_playoff_teams) || undefined;
+        divisions = readDivisionSettings(s);
+        if (Array.isArray(s.roster_positions)) {
+            rosterPositions = s.roster_positions
+                .map((r: any) => r?.roster_position)
+                .filter((r: any) => r?.position)
+                .map((r: any) => ({ position: r.position, count: parseInt(r.count) || 1 }));
+        }
+        if (s.is_auction_draft !== undefined) {
+            draftType = (s.is_auction_draft === '1' || s.is_auction_draft === 1) ? 'auction' : 'snake';
+        }
+        auctionBudget = parseInt(s.auction_budget) || undefined;
     }
 
+    const currentWeek = metadata.current_week ? parseInt(metadata.current_week) : undefined;
+    const isFinished = metadata.is_finished === 1 || metadata.is_finished === '1';
+
     const standingsNode = leagueData.find((n: any) => n.standings);
     const draftNode = leagueData.find((n: any) => n.draft_results);
     const transactionsNode = leagueData.find((n: any) => n.transactions);
@@ -602,48 +1444,63 @@ const transformYahooData = async (data: any, accessToken: string, managersMap: M
         const teamMeta = teamWrapper[0];
         const teamKey = teamMeta.find((x: any) => x.team_key)?.team_key;
         const teamId = teamMeta.find((x: any) => x.team_id)?.team_id; // Capture simple ID
+        const divisionId = teamMeta.find((x: any) => x.division_id)?.division_id;
         const teamStandingsObj = teamWrapper[2]?.team_standings;
         
         const managersList = teamMeta.find((x: any) => x.managers)?.managers;
         if (!managersList) continue;
 
-        const managerData = managersList[0]?.manager;
-        const guid = managerData.guid;
-        const rawNickname = managerData.nickname;
+        // Co-managed teams list every manager; the one without is_comanager is the primary
+        const teamManagersData: any[] = Object.values(managersList).map((m: any) => m?.manager).filter((m: any) => m?.guid);
+        if (teamManagersData.length === 0) continue;
+        const primaryData = teamManagersData.find(m => m.is_comanager !== '1' && m.is_comanager !== 1) || teamManagersData[0];
+        const guid = primaryData.guid;
         const teamName = teamMeta.find((x: any) => x.name)?.name?.replace(/&#39;/g, "'") || "Unknown Team";
-        const avatar = managerData.image_url || 'https://s.yimg.com/dh/ap/fantasy/img/profile/icon_user_default.png';
 
         if (teamKey && guid) {
           teamKeyToManagerId.set(teamKey, guid);
         }
 
-        const isHidden = rawNickname === '--hidden--';
-        const displayName = isHidden ? teamName : rawNickname;
-
-        const existing = managersMap.get(guid);
-        if (!existing) {
-          managersMap.set(guid, { 
-            id: guid, 
-            name: displayName, 
-            avatar, 
-            _lastSeenYear: year, 
-            _isFallback: isHidden 
-          });
-        } else {
-           const existingIsFallback = existing._isFallback;
-           const isNewer = year > existing._lastSeenYear;
-           if (existingIsFallback && !isHidden) {
-             managersMap.set(guid, { id: guid, name: displayName, avatar, _lastSeenYear: year, _isFallback: false });
-           } else if (isNewer && (existingIsFallback === isHidden)) {
-             managersMap.set(guid, { id: guid, name: displayName, avatar, _lastSeenYear: year, _isFallback: isHidden });
-           }
-        }
+        teamManagersData.forEach(managerData => {
+          const managerGuid = managerData.guid;
+          const rawNickname = managerData.nickname;
+          const avatar = managerData.image_url || 'https://s.yimg.com/dh/ap/fantasy/img/profile/icon_user_default.png';
+
+          const isHidden = rawNickname === '--hidden--';
+          const displayName = isHidden ? teamName : rawNickname;
+
+          const existing = managersMap.get(managerGuid);
+          if (!existing) {
+            managersMap.set(managerGuid, { 
+              id: managerGuid, 
+              name: displayName, 
+              avatar, 
+              _lastSeenYear: year, 
+              _isFallback: isHidden 
+            });
+          } else {
+             const existingIsFallback = existing._isFallback;
+             const isNewer = year > existing._lastSeenYear;
+             if (existingIsFallback && !isHidden) {
+               managersMap.set(managerGuid, { id: managerGuid, name: displayName, avatar, _lastSeenYear: year, _isFallback: false });
+             } else if (isNewer && (existingIsFallback === isHidden)) {
+               managersMap.set(managerGuid, { id: managerGuid, name: displayName, avatar, _lastSeenYear: year, _isFallback: isHidden });
+             }
+          }
+        });
+
+        const teamManagers: TeamManager[] | undefined = teamManagersData.length > 1
+          ? teamManagersData.map(m => ({ managerId: m.guid, isPrimary: m.guid === guid }))
+          : undefined;
 
         const outcome = teamStandingsObj.outcome_totals;
+        const playoffSeed = teamStandingsObj.playoff_seed ? parseInt(teamStandingsObj.playoff_seed) : undefined;
         seasonStandings.push({
           managerId: guid,
           teamKey: teamKey || '',
           teamId: teamId ? String(teamId) : undefined,
+          managers: teamManagers,
+          divisionId: divisions && divisionId !== undefined ? String(divisionId) : undefined,
           stats: {
             rank: teamStandingsObj.rank,
             wins: parseInt(outcome.wins),
@@ -651,8 +1508,11 @@ const transformYahooData = async (data: any, accessToken: string, managersMap: M
             ties: parseInt(outcome.ties),
             pointsFor: parseFloat(teamStandingsObj.points_for),
             pointsAgainst: parseFloat(teamStandingsObj.points_against),
-            isChampion: teamStandingsObj.rank === 1,
-            isPlayoff: teamStandingsObj.rank <= 4 
+            // Provisional: replaced from the bracket once games are loaded (see applyPlayoffResults).
+            // Only a league without playoffs is won on final rank.
+            isChampion: !usesPlayoffs && teamStandingsObj.rank === 1,
+            isPlayoff: usesPlayoffs && !!numPlayoffTeams && (playoffSeed || teamStandingsObj.rank) <= numPlayoffTeams,
+            playoffSeed
           }
         });
       }
@@ -669,93 +1529,46 @@ const transformYahooData = async (data: any, accessToken: string, managersMap: M
         const mgrId = teamKeyToManagerId.get(tKey) || 'unknown';
         const playerKey = pickObj.player_key;
         
-        if (playerKey) unknownPlayerKeys.add(playerKey);
-
+        // Keepers are marked once the season's player records are read (see fetchSeasonKeepers)
         draftPicks.push({
           round: pickObj.round,
           pick: pickObj.pick,
           player: "Unknown Player", 
           playerKey: playerKey || undefined,
           managerId: mgrId,
-          teamKey: tKey
+          teamKey: tKey,
+          cost: pickObj.cost !== undefined && pickObj.cost !== '' ? parseInt(pickObj.cost) : undefined
         });
       }
     }
 
-    const transactions: Transaction[] = [];
-    if (transactionsNode && transactionsNode.transactions) {
-        const txnObj = transactionsNode.transactions;
-        const txnCount = txnObj.count;
-        for(let t=0; t<txnCount; t++) {
-            const txn = txnObj[t + ""]?.transaction;
-            if(!txn) continue;
-            const txnId = txn[0].transaction_id;
-            const type = txn[0].type;
-            const timestamp = txn[0].timestamp;
-            const playersNode = txn.find((n: any) => n.players)?.players;
-            const playersInvolved: any[] = [];
-            const mgrsInvolved = new Set<string>();
-
-            if (playersNode) {
-            for(let p=0; p<playersNode.count; p++) {
-                const pData = playersNode[p + ""]?.player;
-                if(!pData) continue;
-                const pInfo = pData[0];
-                const txnData = pData[1]?.transaction_data;
-                const pName = pInfo.find((x:any) => x.name)?.name?.full || 'Unknown';
-                const destTeam = txnData?.[0]?.destination_team_key;
-                const sourceTeam = txnData?.[0]?.source_team_key;
-                if (txnData?.[0]?.type === 'add') {
-                    const mId = teamKeyToManagerId.get(destTeam) || '';
-                    if(mId) mgrsInvolved.add(mId);
-                    playersInvolved.push({ name: pName, type: 'add', managerId: mId });
-                } else if (txnData?.[0]?.type === 'drop') {
-                    const mId = teamKeyToManagerId.get(sourceTeam) || '';
-                    if(mId) mgrsInvolved.add(mId);
-                    playersInvolved.push({ name: pName, type: 'drop', managerId: mId });
-                }
-            }
-            }
-            transactions.push({
-            id: txnId, type, date: parseInt(timestamp) * 1000, managerIds: Array.from(mgrsInvolved), players: playersInvolved
-            });
-        }
-    }
+    const transactions = transactionsNode?.transactions ? parseTransactions(transactionsNode.transactions, teamKeyToManagerId) : [];
 
     seasonStandings.sort((a, b) => a.stats.rank - b.stats.rank);
 
+    // Older seasons may not report the flag; prices on the picks are just as telling
+    const seasonDraftType = draftType || (draftPicks.some(p => p.cost !== undefined) ? 'auction' : undefined);
+
     seasons.push({
       year,
       key: leagueKey,
-      championId: seasonStandings[0]?.managerId,
+      championId: seasonStandings.find(st => st.stats.isChampion)?.managerId || '',
       standings: seasonStandings,
       draft: draftPicks.sort((a,b) => a.pick - b.pick),
       transactions,
       games: [],
       startWeek,
-      endWeek
+      endWeek,
+      currentWeek,
+      isFinished,
+      playoffs,
+      divisions,
+      divisionsRead: true,
+      rosterPositions,
+      draftType: seasonDraftType,
+      auctionBudget: seasonDraftType === 'auction' ? auctionBudget || DEFAULT_AUCTION_BUDGET : undefined
     });
   }
 
-  // Batch resolve names
-  if (unknownPlayerKeys.size > 0) {
-      try {
-          const nameMap = await fetchPlayerDetails(accessToken, Array.from(unknownPlayerKeys));
-          if (nameMap) {
-              seasons.forEach(season => {
-                  if (season.draft) {
-                      season.draft.forEach(pick => {
-                          if (pick.playerKey && nameMap[pick.playerKey]) {
-                              pick.player = nameMap[pick.playerKey];
-                          }
-                      });
-                  }
-              });
-          }
-      } catch (e) {
-          console.error("Failed to resolve batch player names", e);
-      }
-  }
-
   return { seasons, managers: managersMap };
 };
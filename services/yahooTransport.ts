@@ -0,0 +1,78 @@
+import { LeagueSummary } from '../types';
+
+// Record / replay for raw Yahoo responses. While recording, every response body is kept under
+// the Yahoo URL it came from; while replaying, those bodies are served instead of calling Yahoo,
+// so a sync can be re-run offline against a fixture file (see fixtures/yahoo/).
+
+export type TransportMode = 'live' | 'record' | 'replay';
+
+export interface RecordedResponse {
+  status: number;
+  body: any; // Parsed JSON, or the raw text when the body wasn't JSON
+  retryAfter?: string;
+}
+
+export interface FixtureBundle {
+  recordedAt: number;
+  leagues?: LeagueSummary[]; // Leagues selected for the sync, so a replay can skip league discovery
+  responses: Record<string, RecordedResponse>; // Keyed by Yahoo URL, before proxying
+}
+
+let mode: TransportMode = 'live';
+let bundle: FixtureBundle | null = null;
+
+export const getTransportMode = () => mode;
+
+export const startRecording = () => {
+  mode = 'record';
+  bundle = { recordedAt: Date.now(), responses: {} };
+};
+
+// The recording so far; recording carries on
+export const getRecording = (leagues?: LeagueSummary[]): FixtureBundle | null => {
+  return bundle && mode === 'record' ? { ...bundle, leagues: leagues || bundle.leagues } : null;
+};
+
+export const startReplay = (fixtures: FixtureBundle) => {
+  mode = 'replay';
+  bundle = fixtures;
+};
+
+export const stopTransport = () => {
+  mode = 'live';
+  bundle = null;
+};
+
+export const parseFixtureBundle = (text: string): FixtureBundle => {
+  const parsed = JSON.parse(text);
+  if (!parsed || typeof parsed.responses !== 'object') throw new Error("Not a Yahoo fixture file (missing `responses`).");
+  return parsed as FixtureBundle;
+};
+
+export const recordResponse = async (url: string, response: Response) => {
+  if (mode !== 'record' || !bundle) return;
+
+  const text = await response.clone().text();
+  let body: any = text;
+  try {
+    body = JSON.parse(text);
+  } catch (e) {
+    // Error pages from Yahoo aren't always JSON; keep the text
+  }
+
+  // Retries overwrite earlier attempts, so the fixture holds what the sync finally used
+  bundle.responses[url] = { status: response.status, body, retryAfter: response.headers.get('Retry-After') || undefined };
+};
+
+export const replayResponse = (url: string): Response => {
+  const recorded = bundle?.responses[url];
+  if (!recorded) {
+    console.warn(`No recorded response for ${url}`);
+    return new Response(JSON.stringify({ error: { description: `No fixture for ${url}` } }), { status: 404 });
+  }
+
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (recorded.retryAfter) headers['Retry-After'] = recorded.retryAfter;
+  const body = typeof recorded.body === 'string' ? recorded.body : JSON.stringify(recorded.body);
+  return new Response(body, { status: recorded.status, headers });
+};
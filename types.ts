@@ -14,15 +14,27 @@ export interface SeasonStats {
   pointsAgainst: number;
   isChampion: boolean;
   isPlayoff: boolean;
+  playoffSeed?: number; // Seed entering the playoffs (regular-season finish)
+  playoffFinish?: 1 | 2 | 3; // Championship bracket result: champion, runner-up or third place
 }
 
-export interface ManagerSeason {
+export interface TeamManager {
   managerId: string;
+  isPrimary: boolean;
+}
+
+export interface ManagerSeason {
+  managerId: string; // The team's primary manager
   teamKey: string;
   teamId?: string; // New field for robust matching
+  managers?: TeamManager[]; // Every manager of the team, only set when it had co-managers
+  divisionId?: string; // Only set when the league played in divisions
   stats: SeasonStats;
 }
 
+// How co-managed seasons count toward career stats: the primary manager only, or everyone on the team
+export type CoManagerAttribution = 'primary' | 'shared';
+
 export interface DraftPick {
   round: number;
   pick: number;
@@ -30,24 +42,43 @@ export interface DraftPick {
   playerKey?: string; // New field for API lookups
   managerId: string;
   teamKey: string;
+  cost?: number; // Auction price (auction drafts only)
+  isKeeper?: boolean;
+}
+
+export interface TransactionPlayer {
+  name: string;
+  playerKey?: string; // Joins moves to draft picks and player stats
+  type: 'add' | 'drop' | 'trade';
+  managerId: string; // Manager receiving (add / trade) or releasing (drop) the player
+  fromManagerId?: string; // Trades: the manager sending the player
+  source?: 'waivers' | 'freeagents' | 'team'; // Where an added player came from
+}
+
+export interface TradeSide {
+  managerId: string;
+  teamKey: string;
+  received: { name: string; playerKey?: string }[];
 }
 
 export interface Transaction {
   id: string;
-  type: 'add/drop' | 'trade' | 'commish';
+  type: 'add' | 'drop' | 'add/drop' | 'trade' | 'commish';
   date: number; // Timestamp
   managerIds: string[]; // Who was involved
-  players: {
-    name: string;
-    type: 'add' | 'drop';
-    managerId: string;
-  }[];
+  players: TransactionPlayer[];
+  status?: string; // Yahoo status, e.g. 'successful'
+  faabBid?: number; // Winning FAAB bid for waiver claims
+  origin?: 'waivers' | 'freeagents'; // How the added player was acquired
+  tradeSides?: TradeSide[]; // Both sides of a trade: what each manager received
 }
 
 export interface GameSide {
   managerId: string;
   teamKey: string;
   points: number;
+  projectedPoints?: number; // Yahoo's projection for the week
+  winProbability?: number; // Yahoo's win probability (0-1) for this side, as of the sync (final for completed weeks)
 }
 
 export interface Game {
@@ -57,6 +88,43 @@ export interface Game {
   teamB: GameSide;
   winnerTeamKey?: string;
   isTie: boolean;
+  isConsolation?: boolean; // Playoff-week game outside the championship bracket
+  playoffRound?: number; // 1 = first playoff round; a multi-week round keeps one number
+}
+
+export interface PlayerWeekScore {
+  playerKey: string;
+  name: string;
+  position: string; // Display position, e.g. 'WR' or 'WR,TE'
+  slot: string; // Lineup slot the player was in that week, e.g. 'QB', 'W/R/T', 'BN', 'IR'
+  points: number;
+}
+
+export interface TeamWeekRoster {
+  week: number;
+  managerId: string;
+  teamKey: string;
+  players: PlayerWeekScore[];
+}
+
+// Roster snapshots are stored apart from LeagueData (see saveSeasonRosters), keyed by week
+export type SeasonRosters = Record<number, TeamWeekRoster[]>;
+
+export interface RosterPosition {
+  position: string; // e.g. 'QB', 'W/R/T', 'BN'
+  count: number;
+}
+
+export interface PlayoffSettings {
+  numPlayoffTeams: number;
+  playoffStartWeek: number;
+  hasConsolation: boolean;
+  numConsolationTeams?: number;
+}
+
+export interface Division {
+  id: string;
+  name: string;
 }
 
 export interface Season {
@@ -69,18 +137,94 @@ export interface Season {
   games?: Game[]; // Full season schedule/results
   startWeek?: number;
   endWeek?: number;
+  currentWeek?: number; // Yahoo's current week at the time of sync
+  isFinished?: boolean; // Season (including playoffs) is over
+  playoffs?: PlayoffSettings; // From league settings; missing for data synced before we read them
+  divisions?: Division[]; // From league settings; missing for leagues without divisions
+  divisionsRead?: boolean; // Settings were checked for divisions; missing for seasons synced before that
+  rosterWeeks?: number[]; // Weeks with stored roster snapshots
+  rosterPositions?: RosterPosition[]; // Lineup slots from league settings
+  draftType?: 'snake' | 'auction';
+  auctionBudget?: number; // Per-team auction budget
+}
+
+// Player metadata shared by every season of a league. Yahoo player keys change with the
+// game key each year ("390.p.30123" vs "423.p.30123"), so entries are keyed by the numeric id.
+export interface PlayerInfo {
+  id: string;
+  name: string;
+  position?: string; // Display position, e.g. 'WR' or 'WR,RB'
+  nflTeam?: string; // Team abbreviation, e.g. 'KC'
+  byeWeek?: number;
+  headshot?: string;
 }
 
 export interface LeagueData {
   managers: Manager[];
   seasons: Season[];
+  players?: PlayerInfo[]; // Stored as a list since Firebase keys can't contain '.'
+  managerAliases?: Record<string, string>; // Merged id -> canonical id, set once an alias map has been applied
+}
+
+// Commissioner-defined identity for a manager: a canonical name / avatar, and the other
+// manager ids (e.g. an old Yahoo account) folded into this one
+export interface ManagerIdentity {
+  name?: string;
+  avatar?: string;
+  merged?: { id: string; name: string }[]; // Name as it was when merged, for display
+}
+
+export type ManagerAliasMap = Record<string, ManagerIdentity>; // Keyed by canonical manager id
+
+// Commissioner corrections, stored apart from synced data and applied on top of it on every load
+export type OverrideKind = 'standing' | 'champion' | 'game' | 'draftPick';
+export type OverrideValue = string | number | boolean;
+
+export interface LeagueOverride {
+  id: string;
+  kind: OverrideKind;
+  seasonKey: string;
+  target?: string; // standing: team key; game: "week|teamA key|teamB key"; draftPick: overall pick number
+  changes: Record<string, OverrideValue>; // Field -> corrected value
+}
+
+export interface OverrideAuditEntry {
+  at: number; // Timestamp
+  author: string;
+  action: 'set' | 'remove';
+  overrideId: string;
+  kind: OverrideKind;
+  seasonKey: string;
+  target?: string;
+  changes?: Record<string, OverrideValue>; // Values after the change
+  previous?: Record<string, OverrideValue>; // Override values before the change, if there was one
+  note?: string;
 }
 
+// Fantasy platforms a league history can be imported from
+export type ProviderId = 'yahoo' | 'sleeper' | 'espn';
+
 export interface LeagueSummary {
   key: string;
   name: string;
   year: number;
   logo?: string;
+  renew?: string; // League key of the previous season of this league
+  renewed?: string; // League key of the following season
+  provider?: ProviderId; // Missing for Yahoo leagues
+}
+
+// One league followed across seasons through renew/renewed links
+export interface LeagueLineage {
+  id: string; // Key of the most recent season
+  name: string;
+  leagues: LeagueSummary[]; // Most recent first
+}
+
+export interface YahooSession {
+  accessToken: string;
+  refreshToken?: string;
+  expiresAt?: number; // Timestamp (ms) when the access token stops working
 }
 
 export enum ViewState {
@@ -90,5 +234,6 @@ export enum ViewState {
   DRAFT = 'DRAFT',
   TRANSACTIONS = 'TRANSACTIONS',
   VERSUS = 'VERSUS',
+  CONSOLATION = 'CONSOLATION',
   ORACLE = 'ORACLE'
 }
@@ -1,17 +1,41 @@
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, Plugin, PreviewServer, ViteDevServer } from 'vite';
 import react from '@vitejs/plugin-react';
+import { createTokenHandler } from './api/yahoo/token';
+import proxyHandler from './api/yahoo/proxy';
+
+// Serves the /api/yahoo/* functions locally so `npm run dev` works without a separate server
+const yahooApi = (env: Record<string, string>): Plugin => {
+  const tokenHandler = createTokenHandler(() => ({
+    clientId: (env.YAHOO_CLIENT_ID || env.VITE_YAHOO_CLIENT_ID || '').trim(),
+    clientSecret: (env.YAHOO_CLIENT_SECRET || '').trim()
+  }));
+
+  const mount = (server: ViteDevServer | PreviewServer) => {
+    server.middlewares.use('/api/yahoo/token', tokenHandler);
+    server.middlewares.use('/api/yahoo/proxy', proxyHandler);
+  };
+
+  return {
+    name: 'yahoo-api',
+    configureServer: mount,
+    configurePreviewServer: mount
+  };
+};
 
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => {
   const env = loadEnv(mode, (process as any).cwd(), '');
   return {
-    plugins: [react()],
+    plugins: [react(), yahooApi(env)],
     define: {
       // Polyfill process.env for compatibility and explicitly inject env vars
       // We check both VITE_ prefixed and non-prefixed versions to be robust on Vercel
+      // NOTE: YAHOO_CLIENT_SECRET is intentionally NOT injected. Only the /api/yahoo/token function reads it.
       'process.env.API_KEY': JSON.stringify(env.VITE_GEMINI_API_KEY || env.GEMINI_API_KEY || process.env.API_KEY || ""),
       'process.env.YAHOO_CLIENT_ID': JSON.stringify(env.VITE_YAHOO_CLIENT_ID || env.YAHOO_CLIENT_ID || process.env.YAHOO_CLIENT_ID || ""),
-      'process.env.YAHOO_CLIENT_SECRET': JSON.stringify(env.VITE_YAHOO_CLIENT_SECRET || env.YAHOO_CLIENT_SECRET || process.env.YAHOO_CLIENT_SECRET || ""),
+      'process.env.YAHOO_TOKEN_ENDPOINT': JSON.stringify(env.VITE_YAHOO_TOKEN_ENDPOINT || env.YAHOO_TOKEN_ENDPOINT || ""),
+      'process.env.YAHOO_PROXY_MODE': JSON.stringify(env.VITE_YAHOO_PROXY_MODE || env.YAHOO_PROXY_MODE || ""),
+      'process.env.YAHOO_PROXY_URL': JSON.stringify(env.VITE_YAHOO_PROXY_URL || env.YAHOO_PROXY_URL || ""),
       
       // Inject Firebase Config
       'process.env.FIREBASE_API_KEY': JSON.stringify(env.VITE_FIREBASE_API_KEY || env.FIREBASE_API_KEY || ""),
@@ -23,4 +47,4 @@ export default defineConfig(({ mode }) => {
       'process.env.FIREBASE_APP_ID': JSON.stringify(env.VITE_FIREBASE_APP_ID || env.FIREBASE_APP_ID || ""),
     },
   };
-});
\ No newline at end of file
+});